@@ -0,0 +1,203 @@
+/**
+ * auth.js
+ *
+ * Token-based authentication for the REST API and the socket.io terminal.
+ *
+ * Clients log in with the password from TERMINUS_PASSWORD or the access token
+ * from TERMINUS_ACCESS_TOKEN and receive a session token that expires after
+ * AUTH_TOKEN_TTL_MS (12 hours by default) and can be revoked at any time.
+ * When neither secret is configured a random access token is generated at
+ * startup and printed to the console.
+ */
+
+const crypto = require("crypto");
+
+const DEFAULT_TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+
+// Failed logins allowed per client address within the lockout window
+const MAX_FAILED_LOGINS = 5;
+const LOCKOUT_WINDOW_MS = 60 * 1000;
+
+/**
+ * How long new session tokens last. Read at login rather than at load so a
+ * value from .env applies; anything but a positive number falls back to the
+ * default, so a typo can't make tokens live forever.
+ */
+function tokenTtlMs() {
+  const value = Number(process.env.AUTH_TOKEN_TTL_MS);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_TOKEN_TTL_MS;
+}
+
+let secrets = [];
+const tokens = new Map(); // session token -> { createdAt, expiresAt }
+const failedLogins = new Map(); // address -> { count, since }
+
+/**
+ * Loads the configured login secrets, generating an access token if none
+ * are set. Call once at startup.
+ */
+function initAuth() {
+  secrets = [process.env.TERMINUS_PASSWORD, process.env.TERMINUS_ACCESS_TOKEN]
+    .filter((secret) => typeof secret === "string" && secret.length > 0)
+    .map(hashSecret);
+
+  if (secrets.length === 0) {
+    const generated = crypto.randomBytes(24).toString("hex");
+    secrets = [hashSecret(generated)];
+    console.log(
+      "\n🔐 No TERMINUS_PASSWORD or TERMINUS_ACCESS_TOKEN set. Log in with this access token:\n" +
+        `   ${generated}\n`
+    );
+  }
+}
+
+const hashSecret = (value) =>
+  crypto.createHash("sha256").update(String(value)).digest();
+
+/**
+ * Compares a login attempt against the configured secrets in constant time.
+ */
+function isValidSecret(candidate) {
+  if (typeof candidate !== "string" || candidate.length === 0) return false;
+  const hashed = hashSecret(candidate);
+  return secrets.some((secret) => crypto.timingSafeEqual(secret, hashed));
+}
+
+/**
+ * Exchanges a password or access token for a session token.
+ *
+ * @param {string} secret - Password or access token supplied by the client
+ * @param {string} address - Client address, used to throttle guessing
+ * @returns {{token: string, expiresAt: string}}
+ * @throws {Error} With `status` 401 for a wrong secret, 429 when locked out
+ */
+function login(secret, address = "unknown") {
+  const now = Date.now();
+  const failures = failedLogins.get(address);
+
+  if (
+    failures &&
+    failures.count >= MAX_FAILED_LOGINS &&
+    now - failures.since < LOCKOUT_WINDOW_MS
+  ) {
+    const error = new Error("Too many failed login attempts. Try again later.");
+    error.status = 429;
+    throw error;
+  }
+
+  if (!isValidSecret(secret)) {
+    if (!failures || now - failures.since >= LOCKOUT_WINDOW_MS) {
+      failedLogins.set(address, { count: 1, since: now });
+    } else {
+      failures.count += 1;
+    }
+    const error = new Error("Invalid password or access token");
+    error.status = 401;
+    throw error;
+  }
+
+  failedLogins.delete(address);
+
+  const token = crypto.randomBytes(32).toString("hex");
+  const expiresAt = now + tokenTtlMs();
+  tokens.set(token, { createdAt: now, expiresAt });
+
+  return { token, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+/**
+ * Checks that a session token exists and has not expired.
+ */
+function verifyToken(token) {
+  if (typeof token !== "string") return false;
+  const entry = tokens.get(token);
+  if (!entry) return false;
+
+  if (entry.expiresAt <= Date.now()) {
+    tokens.delete(token);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Revokes a single session token.
+ *
+ * @returns {boolean} Whether the token existed
+ */
+function revokeToken(token) {
+  return tokens.delete(token);
+}
+
+/**
+ * Revokes every issued session token.
+ *
+ * @returns {string[]} The revoked tokens
+ */
+function revokeAllTokens() {
+  const revoked = [...tokens.keys()];
+  tokens.clear();
+  return revoked;
+}
+
+/**
+ * Removes expired tokens.
+ *
+ * @returns {string[]} The tokens that expired
+ */
+function sweepExpiredTokens() {
+  const now = Date.now();
+  const expired = [];
+  for (const [token, entry] of tokens) {
+    if (entry.expiresAt <= now) {
+      tokens.delete(token);
+      expired.push(token);
+    }
+  }
+  return expired;
+}
+
+/**
+ * Extracts the bearer token from an Express request.
+ */
+function getRequestToken(req) {
+  const header = req.headers.authorization || "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Express middleware rejecting requests without a valid session token.
+ */
+function requireAuth(req, res, next) {
+  const token = getRequestToken(req);
+  if (!verifyToken(token)) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+  req.authToken = token;
+  next();
+}
+
+/**
+ * socket.io middleware rejecting handshakes without a valid session token.
+ */
+function socketAuth(socket, next) {
+  const token = socket.handshake.auth?.token;
+  if (!verifyToken(token)) {
+    return next(new Error("Unauthorized"));
+  }
+  socket.data.authToken = token;
+  next();
+}
+
+module.exports = {
+  initAuth,
+  login,
+  verifyToken,
+  revokeToken,
+  revokeAllTokens,
+  sweepExpiredTokens,
+  getRequestToken,
+  requireAuth,
+  socketAuth,
+};
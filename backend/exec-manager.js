@@ -0,0 +1,149 @@
+/**
+ * exec-manager.js
+ *
+ * Runs non-interactive "background" commands for clients outside of their
+ * terminal sessions, e.g. a suggestion run in the background from the chat
+ * panel. Output is streamed chunk by chunk as it arrives instead of
+ * being buffered until the command exits, and runs can be cancelled by id.
+ */
+
+const EventEmitter = require("events");
+const crypto = require("crypto");
+const executeShellCommand = require("./shell-command-executor");
+
+// How many background commands one client may have running at once
+const DEFAULT_MAX_RUNS_PER_OWNER = 4;
+
+/**
+ * Manages background command runs.
+ *
+ * Events:
+ *  - "output" (run, chunk)   a chunk of output: {stream, data, timestamp}
+ *                            where stream is "stdout" or "stderr"
+ *  - "exit"   (run, result)  the command finished, failed to start, timed
+ *                            out or was cancelled
+ */
+class ExecManager extends EventEmitter {
+  /**
+   * @param {Object} [options]
+   * @param {Object} [options.limits] - Resource limits passed to
+   *   executeShellCommand (timeoutMs, maxStdoutBytes, maxStderrBytes)
+   * @param {number} [options.maxRunsPerOwner] - Concurrent runs per client
+   */
+  constructor(options = {}) {
+    super();
+    this.runs = new Map();
+    this.limits = options.limits || {};
+    this.maxRunsPerOwner =
+      options.maxRunsPerOwner ?? DEFAULT_MAX_RUNS_PER_OWNER;
+  }
+
+  /**
+   * Starts a command in the background.
+   *
+   * @param {Object} options
+   * @param {string} options.owner - Id of the client that owns the run
+   * @param {string} options.command - Shell command to run
+   * @param {string} [options.cwd] - Working directory
+   * @param {string} [options.sessionId] - Terminal session the run relates to
+   * @returns {Object} The started run
+   * @throws {Error} When the command is empty or the client has too many runs
+   */
+  start({ owner, command, cwd, sessionId }) {
+    if (typeof command !== "string" || !command.trim()) {
+      throw new Error("Command is required");
+    }
+
+    const running = [...this.runs.values()].filter(
+      (run) => run.owner === owner
+    ).length;
+    if (running >= this.maxRunsPerOwner) {
+      throw new Error(
+        `Too many background commands running (limit ${this.maxRunsPerOwner})`
+      );
+    }
+
+    const run = {
+      id: crypto.randomUUID(),
+      owner,
+      command,
+      cwd: cwd || null,
+      sessionId: sessionId || null,
+      startedAt: new Date().toISOString(),
+      controller: new AbortController(),
+    };
+    this.runs.set(run.id, run);
+    console.log(
+      `Background command ${run.id} started for ${owner}: ${command}`
+    );
+
+    executeShellCommand(command, {
+      ...this.limits,
+      silent: true,
+      cwd: cwd || undefined,
+      signal: run.controller.signal,
+      onOutput: (stream, data) => {
+        this.emit("output", run, { stream, data, timestamp: Date.now() });
+      },
+    }).then((result) => {
+      this.runs.delete(run.id);
+      this.emit("exit", run, result);
+    });
+
+    return run;
+  }
+
+  /**
+   * Returns the run with the given id if it belongs to `owner`.
+   */
+  get(id, owner) {
+    const run = this.runs.get(id);
+    if (!run || run.owner !== owner) return null;
+    return run;
+  }
+
+  /**
+   * Lists the runs a client has in flight.
+   */
+  list(owner) {
+    return [...this.runs.values()]
+      .filter((run) => run.owner === owner)
+      .map(describeRun);
+  }
+
+  /**
+   * Kills a running command. Its "exit" event follows once it is gone.
+   *
+   * @returns {boolean} Whether a run was cancelled
+   */
+  cancel(id, owner) {
+    const run = this.get(id, owner);
+    if (!run) return false;
+
+    run.controller.abort();
+    console.log(`Background command ${id} cancelled`);
+    return true;
+  }
+
+  /**
+   * Cancels every run owned by a client.
+   */
+  cancelAll(owner) {
+    this.list(owner).forEach((run) => this.cancel(run.id, owner));
+  }
+}
+
+/**
+ * The client-facing view of a run.
+ */
+function describeRun(run) {
+  return {
+    id: run.id,
+    command: run.command,
+    cwd: run.cwd,
+    sessionId: run.sessionId,
+    startedAt: run.startedAt,
+  };
+}
+
+module.exports = { ExecManager, describeRun };
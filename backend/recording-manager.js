@@ -0,0 +1,325 @@
+/**
+ * recording-manager.js
+ *
+ * Records terminal sessions as asciicast v2 files, the format asciinema
+ * plays, for onboarding material and bug reports. Recording is opt-in per
+ * session. Output is recorded once a recording starts; keyboard input only
+ * when asked for, since it includes whatever is typed at a password prompt.
+ *
+ * A .cast file is a JSON header line followed by one event per line,
+ * `[seconds, code, data]`, where code is "o" for output, "i" for input or
+ * "r" for a resize to "COLSxROWS". Files are kept in RECORDINGS_DIR
+ * (default recordings/ in the cache directory, see utils/cacheDir).
+ */
+
+const EventEmitter = require("events");
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+const { performance } = require("perf_hooks");
+const { cachePath } = require("./utils/cacheDir");
+
+// A recording stops by itself once its file grows past this (50 MB)
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+// How much of a file is read to find its header
+const HEADER_READ_BYTES = 4096;
+
+const ANSI_PATTERN =
+  /\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b\[[0-?]*[ -/]*[@-~]|\x1b[@-Z\\-_]/g;
+
+/**
+ * The output of a recording as plain text: escape sequences removed and
+ * carriage returns and backspaces applied, so a progress bar leaves only
+ * its last state and corrected typing only its result.
+ *
+ * @param {string} cast - Contents of a .cast file
+ * @returns {string}
+ */
+function castToText(cast) {
+  const output = cast
+    .split("\n")
+    .slice(1)
+    .map((line) => {
+      try {
+        const [, code, data] = JSON.parse(line);
+        return code === "o" ? data : "";
+      } catch (err) {
+        return "";
+      }
+    })
+    .join("")
+    .replace(ANSI_PATTERN, "");
+
+  return output
+    .split(/\r?\n/)
+    .map((line) => {
+      const visible = line.split("\r").pop();
+      let text = "";
+      for (const char of visible) {
+        if (char === "\b") text = text.slice(0, -1);
+        else if (char >= " " || char === "\t") text += char;
+      }
+      return text.trimEnd();
+    })
+    .join("\n");
+}
+
+/**
+ * Manages the recordings of terminal sessions.
+ *
+ * Events:
+ *  - "stopped" ({ owner, sessionId, recording, reason })  a recording
+ *                                   stopped by itself; reason is "size-limit"
+ */
+class RecordingManager extends EventEmitter {
+  /**
+   * @param {Object} [options]
+   * @param {string} [options.dir] - Where .cast files are written
+   * @param {number} [options.maxBytes] - Size at which a recording stops
+   */
+  constructor(options = {}) {
+    super();
+    this.dir =
+      options.dir || process.env.RECORDINGS_DIR || cachePath("recordings");
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.active = new Map(); // session id -> recording
+  }
+
+  /**
+   * Starts recording a session.
+   *
+   * @param {Object} session - A session from the SessionManager
+   * @param {Object} [options]
+   * @param {boolean} [options.input] - Also record what the user types
+   * @returns {Object} The recording, as describeRecording shows it
+   * @throws {Error} When the session is already being recorded
+   */
+  start(session, { input = false } = {}) {
+    if (this.active.has(session.id)) {
+      throw new Error("This session is already being recorded");
+    }
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    const id = crypto.randomUUID();
+    const header = {
+      version: 2,
+      width: session.pty.cols || 80,
+      height: session.pty.rows || 24,
+      timestamp: Math.floor(Date.now() / 1000),
+      title: session.name,
+      env: { SHELL: session.shell, TERM: "xterm-256color" },
+    };
+
+    const recording = {
+      id,
+      owner: session.owner,
+      sessionId: session.id,
+      title: session.name,
+      input: !!input,
+      width: header.width,
+      height: header.height,
+      startedAt: new Date(header.timestamp * 1000).toISOString(),
+      startTime: performance.now(),
+      bytes: 0,
+      stream: fs.createWriteStream(path.join(this.dir, `${id}.cast`)),
+    };
+    recording.stream.on("error", (err) => {
+      console.error(`Recording ${id} failed:`, err.message);
+      this.stop(session.id);
+    });
+
+    this.active.set(session.id, recording);
+    this.write(recording, JSON.stringify(header));
+    console.log(`Recording ${id} of session ${session.id} started`);
+    return describeRecording(recording);
+  }
+
+  /** Records output of a session, if it is being recorded */
+  output(sessionId, data) {
+    this.event(sessionId, "o", data);
+  }
+
+  /** Records keyboard input, if the session's recording includes it */
+  input(sessionId, data) {
+    const recording = this.active.get(sessionId);
+    if (recording && recording.input) this.event(sessionId, "i", data);
+  }
+
+  resize(sessionId, cols, rows) {
+    this.event(sessionId, "r", `${cols}x${rows}`);
+  }
+
+  event(sessionId, code, data) {
+    const recording = this.active.get(sessionId);
+    if (!recording) return;
+
+    const seconds = (performance.now() - recording.startTime) / 1000;
+    this.write(
+      recording,
+      JSON.stringify([Number(seconds.toFixed(6)), code, data])
+    );
+    if (recording.bytes > this.maxBytes) {
+      console.log(`Recording ${recording.id} reached its size limit`);
+      this.emit("stopped", {
+        owner: recording.owner,
+        sessionId,
+        recording: this.stop(sessionId),
+        reason: "size-limit",
+      });
+    }
+  }
+
+  write(recording, line) {
+    const text = `${line}\n`;
+    recording.bytes += Buffer.byteLength(text);
+    recording.stream.write(text);
+  }
+
+  /**
+   * Stops a session's recording.
+   *
+   * @returns {Object|null} The finished recording, or null when the session
+   *   wasn't being recorded
+   */
+  stop(sessionId) {
+    const recording = this.active.get(sessionId);
+    if (!recording) return null;
+
+    this.active.delete(sessionId);
+    recording.stream.end();
+    recording.endedAt = new Date().toISOString();
+    console.log(`Recording ${recording.id} of session ${sessionId} stopped`);
+    return describeRecording(recording);
+  }
+
+  /** The recording in progress for a session, if any */
+  current(sessionId) {
+    const recording = this.active.get(sessionId);
+    return recording ? describeRecording(recording) : null;
+  }
+
+  /**
+   * Every recording on disk, newest first. Recordings in progress carry
+   * their session id and `active`.
+   */
+  async list() {
+    let names = [];
+    try {
+      names = await fs.promises.readdir(this.dir);
+    } catch (err) {
+      if (err.code !== "ENOENT") throw err;
+    }
+    const activeById = new Map(
+      [...this.active.values()].map((recording) => [recording.id, recording])
+    );
+
+    const recordings = await Promise.all(
+      names
+        .filter((name) => name.endsWith(".cast"))
+        .map(async (name) => {
+          const id = name.slice(0, -".cast".length);
+          const active = activeById.get(id);
+          if (active) return describeRecording(active);
+          try {
+            return await this.describeFile(id);
+          } catch (err) {
+            console.error(
+              `Skipping unreadable recording ${name}:`,
+              err.message
+            );
+            return null;
+          }
+        })
+    );
+    return recordings
+      .filter(Boolean)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  // What a finished recording's header and file say about it
+  async describeFile(id) {
+    const file = path.join(this.dir, `${id}.cast`);
+    const [stat, handle] = await Promise.all([
+      fs.promises.stat(file),
+      fs.promises.open(file, "r"),
+    ]);
+    let start = "";
+    try {
+      const { buffer, bytesRead } = await handle.read(
+        Buffer.alloc(HEADER_READ_BYTES),
+        0,
+        HEADER_READ_BYTES,
+        0
+      );
+      start = buffer.toString("utf8", 0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+
+    const header = JSON.parse(start.split("\n")[0]);
+    return {
+      id,
+      sessionId: null,
+      title: header.title || id,
+      // asciicast headers have no field for it
+      input: false,
+      width: header.width,
+      height: header.height,
+      startedAt: new Date(header.timestamp * 1000).toISOString(),
+      // The last write is as close to the end as the file can tell
+      endedAt: stat.mtime.toISOString(),
+      size: stat.size,
+      active: false,
+    };
+  }
+
+  /**
+   * The path of a recording's file.
+   *
+   * @returns {string|null} Null for ids that aren't recordings
+   */
+  file(id) {
+    if (typeof id !== "string" || !ID_PATTERN.test(id)) return null;
+    const file = path.join(this.dir, `${id}.cast`);
+    return fs.existsSync(file) ? file : null;
+  }
+
+  /**
+   * Deletes a finished recording.
+   *
+   * @returns {Promise<boolean>} Whether there was such a recording
+   * @throws {Error} With `status` 409 while the recording is in progress
+   */
+  async remove(id) {
+    const file = this.file(id);
+    if (!file) return false;
+    if ([...this.active.values()].some((recording) => recording.id === id)) {
+      const err = new Error("Stop the recording before deleting it");
+      err.status = 409;
+      throw err;
+    }
+    await fs.promises.unlink(file);
+    return true;
+  }
+}
+
+/**
+ * The client-facing view of a recording in progress.
+ */
+function describeRecording(recording) {
+  return {
+    id: recording.id,
+    sessionId: recording.endedAt ? null : recording.sessionId,
+    title: recording.title,
+    input: recording.input,
+    width: recording.width,
+    height: recording.height,
+    startedAt: recording.startedAt,
+    endedAt: recording.endedAt || null,
+    size: recording.bytes,
+    active: !recording.endedAt,
+  };
+}
+
+module.exports = { RecordingManager, castToText };
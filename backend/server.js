@@ -1,104 +1,317 @@
+// Load environment variables first; some modules read them as they load
+require("dotenv").config();
 const express = require("express");
+const fs = require("fs");
 const http = require("http");
 const { Server } = require("socket.io");
-const pty = require("node-pty");
-const os = require("os");
 const cors = require("cors");
-const axios = require("axios"); // Make sure axios is installed
 const executeShellCommand = require("./shell-command-executor");
-const { commandFixerAgent } = require("./utils/commandFixerAgent");
-require("dotenv").config(); // Load environment variables
+const { suggestFixes } = require("./utils/commandFixerAgent");
+const { suggestCommandsForRequest } = require("./utils/nlCommandAgent");
+const { explain } = require("./utils/explainAgent");
+const { analyzeCommandRisk } = require("./utils/commandRisk");
+const { ConversationStore } = require("./utils/conversationStore");
+const { SuggestionFeedback } = require("./utils/suggestionFeedback");
+const { CommandHistory } = require("./utils/commandHistory");
+const { complete, listProviders } = require("./utils/llm");
+const { SessionManager, describeSession } = require("./session-manager");
+const { ExecManager, describeRun } = require("./exec-manager");
+const { RecordingManager, castToText } = require("./recording-manager");
+const { listShellProfiles } = require("./shell-profiles");
+const auth = require("./auth");
 
 const app = express();
 app.use(
   cors({
     origin: "http://localhost:3000", // Frontend URL
-    methods: ["GET", "POST"],
+    methods: ["GET", "POST", "DELETE"],
     credentials: true,
   })
 );
 app.use(express.json()); // Parse JSON request bodies
 
-// Proxy endpoint for OpenRouter API
+auth.initAuth();
+
+// What the user did with past suggestions; ranks new ones, see
+// utils/suggestionFeedback
+const feedback = new SuggestionFeedback();
+
+// Every command the terminals ran, see utils/commandHistory
+const history = new CommandHistory();
+
+// Opt-in asciicast recordings of terminal sessions
+const recordings = new RecordingManager();
+
+// Exchange a password or access token for a session token. This is the only
+// route reachable without being logged in.
+app.post("/api/auth/login", (req, res) => {
+  try {
+    const { secret } = req.body || {};
+    res.json(auth.login(secret, req.ip));
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Every route registered below requires a valid session token
+app.use(auth.requireAuth);
+
+// Revoke the caller's own session token
+app.post("/api/auth/logout", (req, res) => {
+  auth.revokeToken(req.authToken);
+  disconnectSocketsFor([req.authToken]);
+  res.json({ success: true });
+});
+
+// Revoke every issued session token, logging out all clients
+app.post("/api/auth/revoke-all", (req, res) => {
+  const revoked = auth.revokeAllTokens();
+  disconnectSocketsFor(revoked);
+  res.json({ success: true, revoked: revoked.length });
+});
+
+// Proxy endpoint for chat completions. Kept under its original path for
+// existing clients; it now goes through the configured LLM provider and
+// returns a chat completion response whichever provider answered. With
+// `stream: true` the reply is sent as server-sent events of
+// chat.completion.chunk objects, ending with "data: [DONE]", and the
+// provider request is cancelled if the client goes away.
 app.post("/api/proxy/openrouter", async (req, res) => {
   try {
-    const { prompt, apiKey, model } = req.body;
+    const { prompt, apiKey, model, llm, stream } = req.body;
 
-    if (!apiKey) {
-      return res.status(400).json({ error: "API key is required" });
+    if (!prompt) {
+      return res.status(400).json({ error: "Prompt is required" });
     }
 
-    const response = await axios.post(
-      "https://openrouter.ai/api/v1/chat/completions",
-      {
-        model: model || "anthropic/claude-3.5-sonnet",
-        messages: [
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        max_tokens: 150,
-        temperature: 0.2,
-      },
-      {
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
+    if (stream === true) {
+      return streamCompletion(res, prompt, {
+        ...llm,
+        model: model || llm?.model,
+        apiKey,
+      });
+    }
+
+    const result = await complete(
+      [
+        {
+          role: "user",
+          content: prompt,
         },
-      }
+      ],
+      { ...llm, model: model || llm?.model, apiKey }
     );
 
-    res.json(response.data);
+    res.json(result.raw);
   } catch (error) {
     console.error("Proxy error:", error.message);
-    res.status(error.response?.status || 500).json({
+    res.status(error.status || error.response?.status || 500).json({
       error: error.message,
       details: error.response?.data || "Unknown error",
     });
   }
 });
 
-// New endpoint to execute commands and provide fix suggestions
+/**
+ * Relays a streamed completion to the client as server-sent events.
+ */
+async function streamCompletion(res, prompt, llmOptions) {
+  const controller = new AbortController();
+  const onClose = () => {
+    if (!res.writableEnded) controller.abort();
+  };
+  res.on("close", onClose);
+
+  const send = (data) => {
+    if (!res.destroyed) res.write(`data: ${JSON.stringify(data)}\n\n`);
+  };
+  const chunk = (delta, finishReason = null) => ({
+    object: "chat.completion.chunk",
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  try {
+    const result = await complete(
+      [{ role: "user", content: prompt }],
+      llmOptions,
+      {
+        signal: controller.signal,
+        onToken: (text) => send(chunk({ content: text })),
+      }
+    );
+    send({ ...chunk({}, "stop"), model: result.model, usage: result.usage });
+  } catch (error) {
+    if (!error.cancelled) {
+      console.error("Proxy stream error:", error.message);
+      send({ error: { message: error.message } });
+    }
+  } finally {
+    res.off("close", onClose);
+    if (!res.writableEnded && !res.destroyed) {
+      res.write("data: [DONE]\n\n");
+      res.end();
+    }
+  }
+}
+
+// LLM providers a request can pick with its `llm.provider` option
+app.get("/api/llm/providers", (req, res) => {
+  res.json(listProviders());
+});
+
+// Limits for commands the backend runs on the user's behalf
+const EXEC_TIMEOUT_MS = Number(process.env.EXEC_TIMEOUT_MS) || 30 * 1000;
+const EXEC_MAX_OUTPUT_BYTES =
+  Number(process.env.EXEC_MAX_OUTPUT_BYTES) || 256 * 1024;
+
+/**
+ * Runs a command with the backend's resource limits, killing it if the
+ * client goes away before it finishes.
+ */
+function executeForRequest(command, res, options = {}) {
+  const controller = new AbortController();
+  const onClose = () => {
+    if (!res.writableEnded) controller.abort();
+  };
+  res.on("close", onClose);
+
+  return executeShellCommand(command, {
+    timeoutMs: EXEC_TIMEOUT_MS,
+    maxStdoutBytes: EXEC_MAX_OUTPUT_BYTES,
+    maxStderrBytes: EXEC_MAX_OUTPUT_BYTES,
+    ...options,
+    signal: controller.signal,
+  }).finally(() => res.off("close", onClose));
+}
+
+// Analyze a failed command using what the client already observed.
+// Nothing is executed here: the command, exit code and output come straight
+// from the user's terminal so a failing `rm` or `git push` never runs twice.
+// Re-execution is only available as an explicit opt-in via `reproduce: true`.
+app.post("/api/analyze-command", async (req, res) => {
+  try {
+    const {
+      command,
+      exitCode,
+      output,
+      cwd,
+      shell,
+      recentCommands,
+      diagnostics,
+      reproduce,
+      more,
+      refresh,
+      llm,
+    } = req.body;
+
+    if (!command) {
+      return res.status(400).json({ error: "Command is required" });
+    }
+
+    let result;
+
+    if (reproduce === true) {
+      console.log(`Reproducing command on request: ${command}`);
+      result = await executeForRequest(command, res, cwd ? { cwd } : {});
+    } else {
+      const code = Number.isInteger(exitCode) ? exitCode : 1;
+      result = {
+        command,
+        stdout: "",
+        stderr: typeof output === "string" ? output : "",
+        exitCode: code,
+        success: code === 0,
+      };
+    }
+
+    // A successful command needs no suggestions
+    if (result.success) {
+      return res.json({ ...result, reproduced: reproduce === true });
+    }
+
+    console.log(
+      `Analyzing failed command (exit ${result.exitCode}): ${command}`
+    );
+    // Offline rules first; the LLM when they have nothing or `more` is set.
+    // LLM answers are cached unless `refresh` asks for a fresh one
+    const fixes = await suggestFixes(
+      {
+        command,
+        exitCode: result.exitCode,
+        output: result.stderr || result.stdout,
+        cwd,
+        shell,
+        recentCommands,
+        diagnostics,
+      },
+      { more: more === true, refresh: refresh === true, llm }
+    );
+    if (fixes.fixerError) {
+      console.error("Error getting command suggestions:", fixes.fixerError);
+    }
+
+    return res.json({
+      ...result,
+      reproduced: reproduce === true,
+      ...fixes,
+      suggestions: feedback.rank(fixes.suggestions, cwd),
+    });
+  } catch (error) {
+    console.error("Command analysis error:", error);
+    res.status(500).json({
+      error: error.message,
+      success: false,
+    });
+  }
+});
+
+// Legacy endpoint that re-executes the command to obtain stderr and an exit
+// code. Because this runs the command a second time outside the user's pty it
+// now requires an explicit `reproduce: true` opt-in.
 app.post("/api/fix-command", async (req, res) => {
   try {
-    const { command } = req.body;
+    const { command, reproduce, llm } = req.body;
 
     if (!command) {
       return res.status(400).json({ error: "Command is required" });
     }
 
+    if (reproduce !== true) {
+      return res.status(400).json({
+        error:
+          "Re-executing commands requires `reproduce: true`. Use /api/analyze-command to analyze a failure without running it again.",
+      });
+    }
+
     console.log(`Executing command: ${command}`);
 
     // Execute the command using shell-command-executor
-    const result = await executeShellCommand(command);
-
-    console.log({ result }, " heelloooo");
+    const result = await executeForRequest(command, res);
 
-    // If command failed (non-zero exit code), call commandFixerAgent for suggestions
+    // If command failed (non-zero exit code), look for suggestions
     if (!result.success) {
       console.log(
         `Command failed with exit code ${result.exitCode}. Getting suggestions...`
       );
-      try {
-        const suggestions = await commandFixerAgent(
-          command,
-          result.exitCode,
-          result.stderr
-        );
-
-        return res.json({
-          ...result,
-          suggestions,
-        });
-      } catch (fixerError) {
-        console.error("Error getting command suggestions:", fixerError);
-        return res.json({
-          ...result,
-          suggestions: [],
-          fixerError: fixerError.message,
-        });
+      const fixes = await suggestFixes(
+        { command, exitCode: result.exitCode, output: result.stderr },
+        { llm }
+      );
+      if (fixes.fixerError) {
+        console.error("Error getting command suggestions:", fixes.fixerError);
       }
+
+      return res.json({
+        ...result,
+        ...fixes,
+        suggestions: feedback.rank(fixes.suggestions),
+      });
     }
 
     // Command succeeded, return result without suggestions
@@ -112,49 +325,536 @@ app.post("/api/fix-command", async (req, res) => {
   }
 });
 
+// Explain a command or a piece of terminal output the user selected.
+// Nothing is executed; the text only goes to the model
+app.post("/api/explain", async (req, res) => {
+  try {
+    const { text, kind, shell, llm } = req.body;
+    res.json(await explain({ text, kind, shell }, llm));
+  } catch (error) {
+    console.error("Explain error:", error.message);
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Classify a command the user wrote or edited, before it runs; see
+// utils/commandRisk
+app.post("/api/command-risk", (req, res) => {
+  const { command } = req.body || {};
+  if (typeof command !== "string" || !command.trim()) {
+    return res.status(400).json({ error: "command is required" });
+  }
+  res.json(analyzeCommandRisk(command));
+});
+
+// The client a request comes from, by the same id its socket connects with;
+// the command history is kept per client
+const requestClientId = (req) => {
+  const clientId = req.get("X-Client-Id");
+  return clientId && clientId.trim() ? clientId : null;
+};
+
+// Search the caller's command history; filters as in CommandHistory#query
+app.get("/api/history", (req, res) => {
+  const owner = requestClientId(req);
+  if (!owner) {
+    return res.status(400).json({ error: "X-Client-Id header is required" });
+  }
+  res.json({ entries: history.query(req.query, owner) });
+});
+
+// Delete the caller's history entries by id, or every run of a command
+app.delete("/api/history", (req, res) => {
+  const owner = requestClientId(req);
+  if (!owner) {
+    return res.status(400).json({ error: "X-Client-Id header is required" });
+  }
+  const { ids, command } = req.body || {};
+  if (!Array.isArray(ids) && typeof command !== "string") {
+    return res.status(400).json({ error: "ids or command is required" });
+  }
+  res.json({ deleted: history.remove({ ids, command }, owner) });
+});
+
+// Recordings of terminal sessions, newest first
+app.get("/api/recordings", async (req, res) => {
+  try {
+    res.json({ recordings: await recordings.list() });
+  } catch (error) {
+    console.error("Error listing recordings:", error.message);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Download a recording as an asciicast v2 file
+app.get("/api/recordings/:id", (req, res) => {
+  const file = recordings.file(req.params.id);
+  if (!file) return res.status(404).json({ error: "Recording not found" });
+  res.attachment(`${req.params.id}.cast`);
+  res.type("application/x-asciicast");
+  res.sendFile(file);
+});
+
+// A recording's output as plain text, without escape sequences
+app.get("/api/recordings/:id/text", async (req, res) => {
+  const file = recordings.file(req.params.id);
+  if (!file) return res.status(404).json({ error: "Recording not found" });
+  try {
+    const text = castToText(await fs.promises.readFile(file, "utf8"));
+    res.attachment(`${req.params.id}.txt`);
+    res.type("text/plain");
+    res.send(text);
+  } catch (error) {
+    console.error("Error reading recording:", error.message);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.delete("/api/recordings/:id", async (req, res) => {
+  try {
+    if (!(await recordings.remove(req.params.id))) {
+      return res.status(404).json({ error: "Recording not found" });
+    }
+    res.json({ deleted: true });
+  } catch (error) {
+    res.status(error.status || 500).json({ error: error.message });
+  }
+});
+
+// Shell profiles the client can pick from when opening a session
+app.get("/api/shell-profiles", (req, res) => {
+  res.json(listShellProfiles());
+});
+
 const server = http.createServer(app);
 const io = new Server(server, {
   cors: {
     origin: "http://localhost:3000",
-    methods: ["GET", "POST"],
+    methods: ["GET", "POST", "DELETE"],
     credentials: true,
   },
 });
 
-// Determine shell based on operating system
-const shell = os.platform() === "win32" ? "powershell.exe" : "zsh";
+// Reject socket connections without a valid session token
+io.use(auth.socketAuth);
+
+// Drop the live connections of revoked or expired tokens
+function disconnectSocketsFor(tokens) {
+  if (tokens.length === 0) return;
+  for (const socket of io.sockets.sockets.values()) {
+    if (tokens.includes(socket.data.authToken)) {
+      socket.emit("auth:expired");
+      socket.disconnect(true);
+    }
+  }
+}
+
+setInterval(() => {
+  disconnectSocketsFor(auth.sweepExpiredTokens());
+}, 60 * 1000).unref();
+
+const sessions = new SessionManager({
+  gracePeriodMs: process.env.SESSION_GRACE_PERIOD_MS
+    ? Number(process.env.SESSION_GRACE_PERIOD_MS)
+    : undefined,
+  scrollbackChars: process.env.SESSION_SCROLLBACK_CHARS
+    ? Number(process.env.SESSION_SCROLLBACK_CHARS)
+    : undefined,
+});
+
+// Background commands run with the same limits as the REST endpoints
+const execs = new ExecManager({
+  limits: {
+    timeoutMs: EXEC_TIMEOUT_MS,
+    maxStdoutBytes: EXEC_MAX_OUTPUT_BYTES,
+    maxStderrBytes: EXEC_MAX_OUTPUT_BYTES,
+  },
+});
+
+// Sessions belong to a browser client rather than a socket, so a reloaded page
+// or a reconnecting socket can pick them up again. All sockets of a client
+// join the client's room; connectedSockets counts them.
+const clientRoom = (clientId) => `client:${clientId}`;
+const connectedSockets = new Map();
+
+// Route session output to the client that owns the session
+sessions.on("data", (session, data, offset) => {
+  io.to(clientRoom(session.owner)).emit("output", {
+    sessionId: session.id,
+    data,
+    offset,
+  });
+});
+
+// Each session's conversation with the assistant, see utils/conversationStore
+const conversations = new ConversationStore();
+sessions.on("closed", (session) => conversations.reset(session.id));
+
+// Feed recordings, and end them with their session
+sessions.on("data", (session, data) => recordings.output(session.id, data));
+sessions.on("closed", (session) => recordings.stop(session.id));
+
+recordings.on("stopped", ({ owner, sessionId, recording, reason }) => {
+  io.to(clientRoom(owner)).emit("recording:stopped", {
+    sessionId,
+    recording,
+    reason,
+  });
+});
+
+sessions.on("exit", (session, exitCode) => {
+  io.to(clientRoom(session.owner)).emit("session:exit", {
+    sessionId: session.id,
+    exitCode,
+  });
+});
+
+// Stream background command output to the client that started it
+execs.on("output", (run, chunk) => {
+  io.to(clientRoom(run.owner)).emit("exec:output", {
+    execId: run.id,
+    ...chunk,
+  });
+});
+
+execs.on("exit", (run, result) => {
+  io.to(clientRoom(run.owner)).emit("exec:exit", {
+    execId: run.id,
+    exitCode: result.exitCode,
+    success: result.success,
+    signal: result.signal,
+    durationMs: result.durationMs,
+    timedOut: result.timedOut,
+    cancelled: result.aborted,
+    stdoutTruncated: result.stdoutTruncated,
+    stderrTruncated: result.stderrTruncated,
+  });
+});
+
+// Reply through a socket.io acknowledgement callback when the client sent one
+const reply = (ack, payload) => {
+  if (typeof ack === "function") ack(payload);
+};
 
 io.on("connection", (socket) => {
-  console.log("Client connected");
+  // Clients identify themselves with a stable id; fall back to the socket id
+  // so clients that don't still get working (if non-detachable) sessions
+  const clientId = socket.handshake.auth?.clientId;
+  const owner = typeof clientId === "string" && clientId ? clientId : socket.id;
 
-  // Spawn a shell process
-  const ptyProcess = pty.spawn(shell, [], {
-    name: "xterm-color",
-    cols: 80,
-    rows: 24,
-    cwd: process.env.HOME,
-    env: process.env,
+  console.log(`Client ${owner} connected`);
+  socket.join(clientRoom(owner));
+  connectedSockets.set(owner, (connectedSockets.get(owner) || 0) + 1);
+  sessions.resumeAll(owner);
+
+  // Suggestion requests streaming to this socket, by stream id
+  const assistStreams = new Map();
+
+  // The conversation of one of this client's sessions, for the assistant
+  const conversationOf = async (sessionId, llm) =>
+    sessionId && sessions.get(sessionId, owner)
+      ? {
+          history: await conversations.history(sessionId, llm),
+          fingerprint: conversations.fingerprint(sessionId),
+        }
+      : null;
+
+  socket.on("session:create", (options = {}, ack) => {
+    try {
+      const session = sessions.create({
+        owner,
+        name: options.name,
+        profile: options.profile,
+        cols: options.cols,
+        rows: options.rows,
+      });
+      reply(ack, { session: describeSession(session) });
+    } catch (err) {
+      console.error("Failed to create session:", err);
+      reply(ack, { error: err.message });
+    }
   });
 
-  // Handle terminal input from client
-  socket.on("input", (data) => {
-    ptyProcess.write(data);
+  socket.on("session:list", (ack) => {
+    reply(ack, { sessions: sessions.list(owner) });
+  });
+
+  // Reattach handshake: returns the output missed since `offset`
+  socket.on("session:attach", ({ sessionId, offset } = {}, ack) => {
+    const attached = sessions.attach(sessionId, owner, offset);
+    if (!attached) {
+      return reply(ack, { error: "Session not found" });
+    }
+
+    reply(ack, {
+      session: describeSession(attached.session),
+      data: attached.data,
+      offset: attached.offset,
+      reset: attached.reset,
+    });
+  });
+
+  socket.on("session:rename", ({ sessionId, name } = {}, ack) => {
+    const session = sessions.rename(sessionId, owner, name || "");
+    reply(
+      ack,
+      session
+        ? { session: describeSession(session) }
+        : { error: "Session not found" }
+    );
+  });
+
+  socket.on("session:close", ({ sessionId } = {}, ack) => {
+    reply(ack, { closed: sessions.close(sessionId, owner) });
+  });
+
+  // Run a non-interactive command outside the terminal, streaming its output
+  // as "exec:output" and finishing with "exec:exit". Without an explicit cwd
+  // it runs where the related session's shell currently is.
+  socket.on("exec:start", ({ command, cwd, sessionId } = {}, ack) => {
+    try {
+      const run = execs.start({
+        owner,
+        command,
+        cwd: cwd || (sessionId && sessions.cwd(sessionId, owner)) || undefined,
+        sessionId,
+      });
+      reply(ack, { exec: describeRun(run) });
+    } catch (err) {
+      reply(ack, { error: err.message });
+    }
+  });
+
+  socket.on("exec:cancel", ({ execId } = {}, ack) => {
+    reply(ack, { cancelled: execs.cancel(execId, owner) });
+  });
+
+  // Analyze a failure like /api/analyze-command, streaming the model's reply
+  // as it is written: "assist:token" events carry the raw text,
+  // "assist:suggestion" each suggestion once complete, "assist:restart" a
+  // repair round starting over, and "assist:end" the final result. The
+  // client picks the stream id so it can show the message before any of them.
+  // With a sessionId, the session's conversation goes along with the prompt
+  // and the failure and its suggestions are added to it
+  socket.on("fix:suggest", (payload = {}, ack) => {
+    const { streamId, sessionId, command, more, refresh, llm } = payload;
+    if (typeof streamId !== "string" || !streamId) {
+      return reply(ack, { error: "streamId is required" });
+    }
+    if (assistStreams.has(streamId)) {
+      return reply(ack, { error: "Stream already exists" });
+    }
+    if (!command) return reply(ack, { error: "Command is required" });
+
+    const controller = new AbortController();
+    assistStreams.set(streamId, controller);
+    reply(ack, { started: true });
+
+    const emit = (event, data = {}) =>
+      socket.emit(event, { streamId, ...data });
+    const code = Number.isInteger(payload.exitCode) ? payload.exitCode : 1;
+
+    const failure = {
+      command,
+      exitCode: code,
+      output: typeof payload.output === "string" ? payload.output : "",
+      cwd: payload.cwd,
+      shell: payload.shell,
+      recentCommands: payload.recentCommands,
+      diagnostics: payload.diagnostics,
+    };
+
+    console.log(`Streaming suggestions (exit ${code}): ${command}`);
+    conversationOf(sessionId, llm)
+      .then(async (conversation) => {
+        const fixes = await suggestFixes(failure, {
+          more: more === true,
+          refresh: refresh === true,
+          llm,
+          conversation,
+          stream: {
+            signal: controller.signal,
+            onToken: (text) => emit("assist:token", { text }),
+            onSuggestion: (suggestion) =>
+              emit("assist:suggestion", { suggestion }),
+            onRestart: () => emit("assist:restart"),
+          },
+        });
+
+        if (fixes.fixerError && !fixes.cancelled) {
+          console.error("Error getting command suggestions:", fixes.fixerError);
+        }
+        if (conversation && !fixes.fixerError) {
+          conversations.recordFix(sessionId, failure, fixes.suggestions);
+        }
+        emit("assist:end", {
+          ...fixes,
+          suggestions: feedback.rank(fixes.suggestions, failure.cwd),
+        });
+      })
+      .catch((err) => emit("assist:end", { error: err.message }))
+      .finally(() => assistStreams.delete(streamId));
   });
 
-  // Send terminal output to client
-  ptyProcess.onData((data) => {
-    socket.emit("output", data);
+  socket.on("assist:cancel", ({ streamId } = {}, ack) => {
+    const controller = assistStreams.get(streamId);
+    if (controller) controller.abort();
+    reply(ack, { cancelled: !!controller });
+  });
+
+  // Turn a natural-language request from the chat panel into candidate
+  // commands, using the cwd, shell and conversation of the session it was
+  // asked from
+  socket.on("nl:suggest", async ({ request, sessionId, llm } = {}, ack) => {
+    const session = sessionId ? sessions.get(sessionId, owner) : null;
+    const cwd = session ? sessions.cwd(sessionId, owner) : undefined;
+    try {
+      const conversation = await conversationOf(sessionId, llm);
+      const result = await suggestCommandsForRequest(
+        request,
+        {
+          cwd,
+          shell: session ? session.shell : undefined,
+          history: conversation ? conversation.history : undefined,
+        },
+        llm
+      );
+      if (session) {
+        conversations.recordRequest(
+          sessionId,
+          request.trim(),
+          result.suggestions
+        );
+      }
+      reply(ack, { suggestions: feedback.rank(result.suggestions, cwd) });
+    } catch (err) {
+      console.error("Natural-language command request failed:", err.message);
+      reply(ack, { error: err.message });
+    }
+  });
+
+  // How a suggestion the user ran from the chat turned out, as observed by
+  // the terminal, so the assistant knows about it next time
+  socket.on(
+    "conversation:run",
+    ({ sessionId, command, exitCode, output } = {}, ack) => {
+      if (!sessions.get(sessionId, owner) || !command) {
+        return reply(ack, { error: "Unknown session or missing command" });
+      }
+      conversations.recordRun(sessionId, {
+        command: String(command),
+        exitCode: Number.isInteger(exitCode) ? exitCode : null,
+        output: typeof output === "string" ? output : "",
+      });
+      reply(ack, {});
+    }
+  );
+
+  // What the user did with a set of suggestions: which one they ran, which
+  // they passed over, and the exit code of the ones they ran
+  socket.on("feedback:record", ({ sessionId, events } = {}, ack) => {
+    if (!sessions.get(sessionId, owner)) {
+      return reply(ack, { error: "Unknown session" });
+    }
+    const recorded = feedback.record(events, {
+      cwd: sessions.cwd(sessionId, owner),
+      sessionId,
+    });
+    reply(ack, { recorded });
+  });
+
+  // A command the terminal's shell integration saw finish
+  socket.on(
+    "history:record",
+    ({ sessionId, command, exitCode, durationMs, cwd } = {}, ack) => {
+      const session = sessions.get(sessionId, owner);
+      if (!session) return reply(ack, { error: "Unknown session" });
+      const entry = history.record(
+        {
+          command,
+          exitCode,
+          durationMs,
+          cwd: cwd || sessions.cwd(sessionId, owner),
+        },
+        { owner, sessionId, sessionName: session.name }
+      );
+      reply(ack, { recorded: entry ? 1 : 0 });
+    }
+  );
+
+  socket.on("history:query", (filters = {}, ack) => {
+    reply(ack, { entries: history.query(filters, owner) });
+  });
+
+  socket.on("history:delete", ({ ids, command } = {}, ack) => {
+    reply(ack, { deleted: history.remove({ ids, command }, owner) });
+  });
+
+  // Forget a session's conversation and start over
+  socket.on("conversation:reset", ({ sessionId } = {}, ack) => {
+    if (!sessions.get(sessionId, owner)) {
+      return reply(ack, { error: "Unknown session" });
+    }
+    reply(ack, { reset: conversations.reset(sessionId) });
+  });
+
+  // Start recording a session, keyboard input included when asked for
+  socket.on("recording:start", ({ sessionId, input } = {}, ack) => {
+    const session = sessions.get(sessionId, owner);
+    if (!session) return reply(ack, { error: "Unknown session" });
+    try {
+      reply(ack, { recording: recordings.start(session, { input }) });
+    } catch (err) {
+      reply(ack, { error: err.message });
+    }
+  });
+
+  socket.on("recording:stop", ({ sessionId } = {}, ack) => {
+    if (!sessions.get(sessionId, owner)) {
+      return reply(ack, { error: "Unknown session" });
+    }
+    reply(ack, { recording: recordings.stop(sessionId) });
+  });
+
+  // Handle terminal input from client
+  socket.on("input", ({ sessionId, data } = {}) => {
+    const session = sessions.get(sessionId, owner);
+    if (!session) return;
+    recordings.input(sessionId, data);
+    session.pty.write(data);
   });
 
   // Handle resize events
-  socket.on("resize", (size) => {
-    ptyProcess.resize(size.cols, size.rows);
+  socket.on("resize", ({ sessionId, cols, rows } = {}) => {
+    const session = sessions.get(sessionId, owner);
+    if (session && cols > 0 && rows > 0) {
+      session.pty.resize(cols, rows);
+      recordings.resize(sessionId, cols, rows);
+    }
   });
 
-  // Clean up on disconnect
+  // Keep sessions alive for a grace period once the client's last socket
+  // goes away, so a reload or a brief network drop doesn't kill them
   socket.on("disconnect", () => {
-    console.log("Client disconnected");
-    ptyProcess.kill();
+    console.log(`Client ${owner} disconnected`);
+    // Streamed replies can't follow the client to another socket
+    assistStreams.forEach((controller) => controller.abort());
+    const remaining = (connectedSockets.get(owner) || 1) - 1;
+
+    if (remaining > 0) {
+      connectedSockets.set(owner, remaining);
+      return;
+    }
+
+    connectedSockets.delete(owner);
+    // Nobody is left to see the output of background commands
+    execs.cancelAll(owner);
+    if (owner === socket.id) {
+      // Anonymous sockets can never reattach
+      sessions.closeAll(owner);
+    } else {
+      sessions.detachAll(owner);
+    }
   });
 });
 
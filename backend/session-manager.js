@@ -0,0 +1,250 @@
+/**
+ * session-manager.js
+ *
+ * Keeps track of the interactive terminal sessions opened by clients. Each
+ * session owns its own pty and id so one browser window can hold several
+ * shells side by side.
+ *
+ * Sessions outlive the socket that created them: when a client goes away its
+ * sessions are detached and kept alive for a grace period, buffering output
+ * so a reloaded page or a reconnecting socket can reattach and replay it.
+ */
+
+const EventEmitter = require("events");
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+const pty = require("node-pty");
+const { withShellIntegration } = require("./shell-integration");
+const { resolveShellProfile } = require("./shell-profiles");
+const { ScrollbackBuffer } = require("./utils/scrollbackBuffer");
+
+// How long a detached session stays alive waiting for its client (5 minutes)
+const DEFAULT_GRACE_PERIOD_MS = 5 * 60 * 1000;
+// How much output each session keeps for replay on reattach
+const DEFAULT_SCROLLBACK_CHARS = 256 * 1024;
+
+/**
+ * Manages pty-backed terminal sessions.
+ *
+ * Events:
+ *  - "data"    (session, data, offset)  output produced by a session's pty;
+ *                                       offset is the scrollback end offset
+ *  - "exit"    (session, exitCode)      a session's shell exited on its own
+ *  - "expired" (session)                a detached session's grace period ran out
+ *  - "closed"  (session)                a session ended, for any reason
+ */
+class SessionManager extends EventEmitter {
+  /**
+   * @param {Object} [options]
+   * @param {number} [options.gracePeriodMs] - How long detached sessions live
+   * @param {number} [options.scrollbackChars] - Replay buffer size per session
+   */
+  constructor(options = {}) {
+    super();
+    this.sessions = new Map();
+    this.counter = 0;
+    this.gracePeriodMs = options.gracePeriodMs ?? DEFAULT_GRACE_PERIOD_MS;
+    this.scrollbackChars = options.scrollbackChars ?? DEFAULT_SCROLLBACK_CHARS;
+  }
+
+  /**
+   * Spawns a new shell session.
+   *
+   * @param {Object} options
+   * @param {string} options.owner - Id of the client that owns the session
+   * @param {string} [options.name] - Display name (defaults to "Terminal N")
+   * @param {string} [options.profile] - Shell profile id (defaults to the
+   *   configured default profile)
+   * @param {number} [options.cols] - Initial terminal width
+   * @param {number} [options.rows] - Initial terminal height
+   * @returns {Object} The created session
+   */
+  create({ owner, name, profile, cols = 80, rows = 24 }) {
+    const id = crypto.randomUUID();
+    const spec = resolveShellProfile(profile);
+    this.counter += 1;
+
+    // Spawn a shell process with OSC 133 / OSC 7 integration where supported
+    const launch = withShellIntegration(spec.shell, spec.args, spec.env, {
+      login: spec.login,
+    });
+    const ptyProcess = pty.spawn(spec.shell, launch.args, {
+      name: spec.term,
+      cols,
+      rows,
+      cwd: spec.cwd,
+      env: launch.env,
+    });
+
+    const session = {
+      id,
+      owner,
+      name: name || `Terminal ${this.counter}`,
+      profile: spec.profileId,
+      shell: path.basename(spec.shell),
+      fallbackFrom: spec.fallbackFrom,
+      integration: launch.integrated,
+      createdAt: new Date().toISOString(),
+      startCwd: spec.cwd,
+      pty: ptyProcess,
+      scrollback: new ScrollbackBuffer(this.scrollbackChars),
+      expiryTimer: null,
+    };
+
+    ptyProcess.onData((data) => {
+      const offset = session.scrollback.push(data);
+      this.emit("data", session, data, offset);
+    });
+
+    ptyProcess.onExit(({ exitCode }) => {
+      // Only report exits we did not cause ourselves via close()
+      if (this.sessions.has(id)) {
+        this.sessions.delete(id);
+        clearTimeout(session.expiryTimer);
+        this.emit("exit", session, exitCode);
+        this.emit("closed", session);
+      }
+    });
+
+    this.sessions.set(id, session);
+    console.log(`Session ${session.name} (${id}) created for ${owner}`);
+    return session;
+  }
+
+  /**
+   * Returns the session with the given id if it belongs to `owner`.
+   */
+  get(id, owner) {
+    const session = this.sessions.get(id);
+    if (!session || session.owner !== owner) return null;
+    return session;
+  }
+
+  /**
+   * Lists the sessions owned by a client, oldest first.
+   */
+  list(owner) {
+    return [...this.sessions.values()]
+      .filter((session) => session.owner === owner)
+      .map(describeSession);
+  }
+
+  /**
+   * Reattaches a client to one of its sessions and returns the output it
+   * missed since `offset` (or the whole scrollback when it has none).
+   *
+   * @returns {{session: Object, data: string, offset: number, reset: boolean}|null}
+   */
+  attach(id, owner, offset) {
+    const session = this.get(id, owner);
+    if (!session) return null;
+
+    this.keepAlive(session);
+    return { session, ...session.scrollback.since(offset) };
+  }
+
+  /**
+   * Starts the grace period for every session of a client that went away.
+   * Sessions that are not reattached in time are closed.
+   */
+  detachAll(owner) {
+    for (const session of this.sessions.values()) {
+      if (session.owner !== owner || session.expiryTimer) continue;
+
+      console.log(
+        `Session ${session.name} (${session.id}) detached, closing in ${this.gracePeriodMs}ms`
+      );
+      session.expiryTimer = setTimeout(() => {
+        session.expiryTimer = null;
+        if (this.close(session.id, owner)) {
+          this.emit("expired", session);
+        }
+      }, this.gracePeriodMs);
+    }
+  }
+
+  /**
+   * Cancels the grace period of every session of a client that came back.
+   */
+  resumeAll(owner) {
+    for (const session of this.sessions.values()) {
+      if (session.owner === owner) this.keepAlive(session);
+    }
+  }
+
+  keepAlive(session) {
+    if (session.expiryTimer) {
+      clearTimeout(session.expiryTimer);
+      session.expiryTimer = null;
+    }
+  }
+
+  /**
+   * Best guess at a session's current working directory: the shell's live
+   * cwd where the OS exposes it (Linux /proc), otherwise the directory it
+   * was started in.
+   */
+  cwd(id, owner) {
+    const session = this.get(id, owner);
+    if (!session) return null;
+
+    try {
+      return fs.readlinkSync(`/proc/${session.pty.pid}/cwd`);
+    } catch (err) {
+      return session.startCwd;
+    }
+  }
+
+  rename(id, owner, name) {
+    const session = this.get(id, owner);
+    if (!session) return null;
+    session.name = String(name).trim() || session.name;
+    return session;
+  }
+
+  /**
+   * Kills a session's pty and forgets about it.
+   *
+   * @returns {boolean} Whether a session was closed
+   */
+  close(id, owner) {
+    const session = this.get(id, owner);
+    if (!session) return false;
+
+    this.sessions.delete(id);
+    this.keepAlive(session);
+    try {
+      session.pty.kill();
+    } catch (err) {
+      console.error(`Error killing session ${id}:`, err.message);
+    }
+    console.log(`Session ${session.name} (${id}) closed`);
+    this.emit("closed", session);
+    return true;
+  }
+
+  /**
+   * Closes every session owned by a client.
+   */
+  closeAll(owner) {
+    this.list(owner).forEach((session) => this.close(session.id, owner));
+  }
+}
+
+/**
+ * The client-facing view of a session (everything but the pty).
+ */
+function describeSession(session) {
+  return {
+    id: session.id,
+    name: session.name,
+    profile: session.profile,
+    shell: session.shell,
+    fallbackFrom: session.fallbackFrom,
+    integration: session.integration,
+    createdAt: session.createdAt,
+  };
+}
+
+module.exports = { SessionManager, describeSession };
@@ -6,6 +6,30 @@
  */
 
 const { spawn } = require("child_process");
+const fs = require("fs");
+const os = require("os");
+const { StringDecoder } = require("string_decoder");
+
+const IS_WINDOWS = os.platform() === "win32";
+
+/**
+ * Why a working directory can't be used, or null when it can. spawn
+ * reports a missing cwd as ENOENT for the shell, which points at the wrong
+ * thing.
+ */
+function cwdProblem(cwd) {
+  if (cwd === undefined || cwd === null) return null;
+  try {
+    if (!fs.statSync(cwd).isDirectory()) {
+      return `Working directory is not a directory: ${cwd}`;
+    }
+  } catch (err) {
+    return err.code === "ENOENT"
+      ? `Working directory not found: ${cwd}`
+      : `Working directory can't be used: ${cwd} (${err.code || err.message})`;
+  }
+  return null;
+}
 
 /**
  * Executes a shell command using child_process.spawn
@@ -14,48 +38,224 @@ const { spawn } = require("child_process");
  * @param {Object} options - Additional options (optional)
  * @param {boolean} options.silent - If true, suppresses console output (default: false)
  * @param {Object} options.env - Additional environment variables to pass to the command
- * @returns {Promise<Object>} Promise resolving to result object
+ * @param {string} options.cwd - Working directory to run the command in (defaults to the server's cwd)
+ * @param {string} options.input - Data written to the command's stdin (stdin is closed either way)
+ * @param {number} options.timeoutMs - Kill the command after this many milliseconds (default: no timeout)
+ * @param {number} options.killGraceMs - Time between SIGTERM and SIGKILL when killing (default: 2000)
+ * @param {number} options.maxStdoutBytes - Stop and kill the command once stdout exceeds this size
+ * @param {number} options.maxStderrBytes - Stop and kill the command once stderr exceeds this size
+ * @param {AbortSignal} options.signal - Aborting it kills the command
+ * @param {Function} options.onOutput - Called with (stream, text) for every
+ *   stdout/stderr chunk as it arrives, up to the output limits
+ * @returns {Promise<Object>} Promise resolving to result object with command,
+ *   stdout, stderr, exitCode, success, signal, durationMs, timedOut, aborted,
+ *   stdoutTruncated and stderrTruncated
  */
 function executeShellCommand(command, options = {}) {
-  const { silent = false, env = {} } = options;
+  const {
+    silent = false,
+    env = {},
+    cwd,
+    input,
+    timeoutMs = 0,
+    killGraceMs = 2000,
+    maxStdoutBytes = Infinity,
+    maxStderrBytes = Infinity,
+    signal,
+    onOutput,
+  } = options;
 
   return new Promise((resolve) => {
     if (!silent) {
       console.log(`\n----- Executing command: ${command} -----`);
     }
 
-    // Use spawn with 'sh -c' to support shell built-ins and proper expansion
+    const startedAt = Date.now();
+    const state = {
+      timedOut: false,
+      aborted: false,
+      stdoutTruncated: false,
+      stderrTruncated: false,
+    };
+
+    if (signal && signal.aborted) {
+      return resolve({
+        command,
+        stdout: "",
+        stderr: "Command was cancelled before it started",
+        exitCode: 1,
+        success: false,
+        signal: null,
+        durationMs: 0,
+        ...state,
+        aborted: true,
+      });
+    }
+
+    const problem = cwdProblem(cwd);
+    if (problem) {
+      if (!silent) console.error(`\x1b[31m${problem}\x1b[0m`);
+      return resolve({
+        command,
+        stdout: "",
+        stderr: problem,
+        exitCode: 1,
+        success: false,
+        signal: null,
+        durationMs: 0,
+        ...state,
+      });
+    }
+
+    // Use spawn with 'sh -c' to support shell built-ins and proper expansion.
+    // On POSIX the command gets its own process group so killing it also
+    // kills anything it started.
     const childProcess = spawn("sh", ["-c", command], {
       env: { ...process.env, ...env },
+      cwd,
       shell: false, // Not needed since we're explicitly using sh -c
+      detached: !IS_WINDOWS,
     });
 
-    let stdoutData = "";
-    let stderrData = "";
+    let killTimer = null;
+    let timeoutTimer = null;
+    let exited = false;
+
+    const sendSignal = (sig) => {
+      try {
+        if (!IS_WINDOWS && childProcess.pid) {
+          process.kill(-childProcess.pid, sig);
+        } else {
+          childProcess.kill(sig);
+        }
+      } catch (err) {
+        // The process already exited
+      }
+    };
+
+    // SIGTERM first, SIGKILL if it is still around after the grace period
+    const terminate = () => {
+      if (exited || killTimer) return;
+      sendSignal("SIGTERM");
+      killTimer = setTimeout(() => {
+        if (!exited) sendSignal("SIGKILL");
+      }, killGraceMs);
+    };
+
+    if (timeoutMs > 0) {
+      timeoutTimer = setTimeout(() => {
+        state.timedOut = true;
+        if (!silent) {
+          console.log(`\x1b[33mCommand timed out after ${timeoutMs}ms\x1b[0m`);
+        }
+        terminate();
+      }, timeoutMs);
+    }
+
+    const onAbort = () => {
+      state.aborted = true;
+      terminate();
+    };
+    if (signal) signal.addEventListener("abort", onAbort, { once: true });
+
+    // Decoders keep multi-byte characters split across chunks intact
+    const decoders = {
+      stdout: new StringDecoder("utf8"),
+      stderr: new StringDecoder("utf8"),
+    };
+    const emitOutput = (stream, chunk) => {
+      if (!onOutput || chunk.length === 0) return;
+      const text = decoders[stream].write(chunk);
+      if (text) onOutput(stream, text);
+    };
+
+    const stdoutChunks = [];
+    const stderrChunks = [];
+    let stdoutBytes = 0;
+    let stderrBytes = 0;
+
+    // Keep output up to the limit; exceeding it kills the command, like
+    // execFile's maxBuffer
+    const collect = (stream, chunks, data, bytes, limit, flag) => {
+      if (state[flag]) return bytes;
+      if (bytes + data.length > limit) {
+        const kept = data.subarray(0, Math.max(0, limit - bytes));
+        chunks.push(kept);
+        emitOutput(stream, kept);
+        state[flag] = true;
+        terminate();
+        return limit;
+      }
+      chunks.push(data);
+      emitOutput(stream, data);
+      return bytes + data.length;
+    };
 
     // Capture stdout data
     childProcess.stdout.on("data", (data) => {
-      const output = data.toString();
-      stdoutData += output;
+      stdoutBytes = collect(
+        "stdout",
+        stdoutChunks,
+        data,
+        stdoutBytes,
+        maxStdoutBytes,
+        "stdoutTruncated"
+      );
 
       if (!silent) {
-        console.log(`\x1b[32mSTDOUT:\x1b[0m ${output.trim()}`);
+        console.log(`\x1b[32mSTDOUT:\x1b[0m ${data.toString().trim()}`);
       }
     });
 
     // Capture stderr data
     childProcess.stderr.on("data", (data) => {
-      const output = data.toString();
-      stderrData += output;
+      stderrBytes = collect(
+        "stderr",
+        stderrChunks,
+        data,
+        stderrBytes,
+        maxStderrBytes,
+        "stderrTruncated"
+      );
 
       if (!silent) {
-        console.log(`\x1b[31mSTDERR:\x1b[0m ${output.trim()}`);
+        console.log(`\x1b[31mSTDERR:\x1b[0m ${data.toString().trim()}`);
       }
     });
 
+    // Feed stdin and close it so commands waiting for input don't hang
+    childProcess.stdin.on("error", () => {
+      // The command exited without reading its input
+    });
+    childProcess.stdin.end(input === undefined ? undefined : input);
+
+    const cleanup = () => {
+      exited = true;
+      clearTimeout(timeoutTimer);
+      clearTimeout(killTimer);
+      if (signal) signal.removeEventListener("abort", onAbort);
+    };
+
     // Handle process completion
-    childProcess.on("close", (exitCode) => {
-      const success = exitCode === 0;
+    childProcess.on("close", (code, exitSignal) => {
+      cleanup();
+
+      if (onOutput) {
+        for (const stream of ["stdout", "stderr"]) {
+          const rest = decoders[stream].end();
+          if (rest) onOutput(stream, rest);
+        }
+      }
+
+      // Killed commands report 128 + signal number, like a shell does
+      const exitCode =
+        code !== null ? code : 128 + (os.constants.signals[exitSignal] || 0);
+      const success =
+        exitCode === 0 &&
+        !state.timedOut &&
+        !state.aborted &&
+        !state.stdoutTruncated &&
+        !state.stderrTruncated;
 
       if (!silent) {
         console.log(`\x1b[36mExit code:\x1b[0m ${exitCode}`);
@@ -72,15 +272,20 @@ function executeShellCommand(command, options = {}) {
       // Resolve with all the collected information
       resolve({
         command,
-        stdout: stdoutData,
-        stderr: stderrData,
+        stdout: Buffer.concat(stdoutChunks).toString(),
+        stderr: Buffer.concat(stderrChunks).toString(),
         exitCode,
         success,
+        signal: exitSignal || null,
+        durationMs: Date.now() - startedAt,
+        ...state,
       });
     });
 
     // Handle errors in spawning the process
     childProcess.on("error", (err) => {
+      cleanup();
+
       if (!silent) {
         console.error(`\x1b[31mFailed to start command: ${err.message}\x1b[0m`);
         console.log("----- Command execution failed -----\n");
@@ -92,6 +297,9 @@ function executeShellCommand(command, options = {}) {
         stderr: err.message,
         exitCode: 1,
         success: false,
+        signal: null,
+        durationMs: Date.now() - startedAt,
+        ...state,
       });
     });
   });
@@ -137,6 +345,22 @@ if (require.main === module) {
       // Example 8: More complex command with pipes
       await executeShellCommand("ls -la | grep js");
 
+      // Example 9: Resource limits - killed after one second
+      const limitedResult = await executeShellCommand("sleep 10", {
+        timeoutMs: 1000,
+      });
+      console.log("Timed out:", limitedResult.timedOut);
+
+      // Example 10: Output cap with stdin input
+      const cappedResult = await executeShellCommand("cat; yes", {
+        input: "hello from stdin\n",
+        maxStdoutBytes: 1024,
+        silent: true,
+      });
+      console.log(
+        `Truncated: ${cappedResult.stdoutTruncated}, bytes: ${cappedResult.stdout.length}`
+      );
+
       console.log("===== Examples Completed =====");
     } catch (err) {
       console.error("Error running examples:", err);
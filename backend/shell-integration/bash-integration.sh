@@ -0,0 +1,90 @@
+# Terminus shell integration for bash.
+#
+# Loaded with `bash --rcfile <this file>`. Sources the user's ~/.bashrc (or,
+# for login profiles, /etc/profile and the first of ~/.bash_profile,
+# ~/.bash_login and ~/.profile, as `bash -l` would) and then emits OSC 133
+# prompt/command markers and OSC 7 working directory reports so the frontend
+# can tell exactly which command ran, where, and how it exited.
+
+if [ -z "$TERMINUS_SHELL_INTEGRATION" ]; then
+  TERMINUS_SHELL_INTEGRATION=1
+
+  if [ -n "$TERMINUS_SHELL_LOGIN" ]; then
+    unset TERMINUS_SHELL_LOGIN
+    [ -f /etc/profile ] && . /etc/profile
+    for __terminus_file in "$HOME/.bash_profile" "$HOME/.bash_login" "$HOME/.profile"; do
+      if [ -f "$__terminus_file" ]; then
+        . "$__terminus_file"
+        break
+      fi
+    done
+    unset __terminus_file
+  else
+    [ -f "$HOME/.bashrc" ] && . "$HOME/.bashrc"
+  fi
+
+  __terminus_urlencode() {
+    local LC_ALL=C str="$1" out="" c i
+    for ((i = 0; i < ${#str}; i++)); do
+      c="${str:i:1}"
+      case "$c" in
+        [a-zA-Z0-9.~_/-]) out+="$c" ;;
+        *) printf -v c '%%%02X' "'$c"; out+="$c" ;;
+      esac
+    done
+    printf '%s' "$out"
+  }
+
+  __terminus_ready=0
+  __terminus_running=0
+
+  # Runs first in PROMPT_COMMAND so $? still holds the command's exit status
+  __terminus_precmd() {
+    local status=$?
+    __terminus_ready=0
+    if [ "$__terminus_running" = 1 ]; then
+      printf '\e]133;D;%s\a' "$status"
+      __terminus_running=0
+    fi
+    printf '\e]7;file://%s%s\a' "$HOSTNAME" "$(__terminus_urlencode "$PWD")"
+    printf '\e]133;A\a'
+    case "$PS1" in
+      *'133;B'*) ;;
+      *) PS1="$PS1"'\[\e]133;B\a\]' ;;
+    esac
+    return $status
+  }
+
+  # Runs last in PROMPT_COMMAND; the next DEBUG trap is the user's command
+  __terminus_prompt_ready() {
+    __terminus_ready=1
+  }
+
+  __terminus_preexec() {
+    [ "$__terminus_ready" = 1 ] || return
+    [ -n "$COMP_LINE" ] && return
+    case "$BASH_COMMAND" in
+      __terminus_precmd* | __terminus_prompt_ready*) return ;;
+    esac
+    __terminus_ready=0
+    __terminus_running=1
+
+    local line
+    line="$(HISTTIMEFORMAT= builtin history 1)"
+    if [[ "$line" =~ ^[[:space:]]*[0-9]+[*]?[[:space:]]+(.*)$ ]]; then
+      line="${BASH_REMATCH[1]}"
+    else
+      line="$BASH_COMMAND"
+    fi
+    printf '\e]133;C;cmdline_url=%s\a' "$(__terminus_urlencode "$line")"
+  }
+
+  # Drop trailing separators from the user's PROMPT_COMMAND before wrapping it
+  __terminus_user_pc="$PROMPT_COMMAND"
+  while [[ "$__terminus_user_pc" =~ ^(.*)[[:space:]\;]$ ]]; do
+    __terminus_user_pc="${BASH_REMATCH[1]}"
+  done
+  PROMPT_COMMAND="__terminus_precmd${__terminus_user_pc:+; $__terminus_user_pc}; __terminus_prompt_ready"
+  unset __terminus_user_pc
+  trap '__terminus_preexec' DEBUG
+fi
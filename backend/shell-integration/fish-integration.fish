@@ -0,0 +1,31 @@
+# Terminus shell integration for fish.
+#
+# Loaded with `fish --init-command "source <this file>"`, which runs after the
+# user's config. Emits OSC 133 prompt/command markers and OSC 7 working
+# directory reports for the frontend.
+
+if not set -q TERMINUS_SHELL_INTEGRATION
+    set -g TERMINUS_SHELL_INTEGRATION 1
+
+    function __terminus_prompt_start --on-event fish_prompt
+        printf '\e]7;file://%s%s\a' (hostname) (string escape --style=url -- $PWD)
+        printf '\e]133;A\a'
+    end
+
+    function __terminus_preexec --on-event fish_preexec
+        printf '\e]133;C;cmdline_url=%s\a' (string escape --style=url -- $argv[1])
+    end
+
+    function __terminus_postexec --on-event fish_postexec
+        printf '\e]133;D;%s\a' $status
+    end
+
+    # Mark the end of the prompt by wrapping whatever fish_prompt is defined
+    if functions -q fish_prompt
+        functions -c fish_prompt __terminus_original_fish_prompt
+        function fish_prompt
+            __terminus_original_fish_prompt
+            printf '\e]133;B\a'
+        end
+    end
+end
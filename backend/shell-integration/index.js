@@ -0,0 +1,76 @@
+/**
+ * shell-integration/index.js
+ *
+ * Works out how to launch a shell so that it loads the Terminus integration
+ * scripts in this directory. The scripts emit OSC 133 prompt/command markers
+ * (prompt start, command start with the command line, command end with the
+ * exit status) and OSC 7 working directory reports.
+ */
+
+const path = require("path");
+
+const BASH_SCRIPT = path.join(__dirname, "bash-integration.sh");
+const FISH_SCRIPT = path.join(__dirname, "fish-integration.fish");
+const ZSH_DIR = path.join(__dirname, "zsh");
+
+/**
+ * Returns the arguments and environment needed to spawn `shell` with
+ * integration enabled. Shells without an integration script are returned
+ * unchanged with `integrated: false`.
+ *
+ * @param {string} shell - Shell binary name or path (e.g. "zsh", "/bin/bash")
+ * @param {string[]} args - Arguments the shell would otherwise be started with
+ * @param {Object} env - Environment the shell would otherwise be started with
+ * @param {Object} [options]
+ * @param {boolean} [options.login] - Start the shell as a login shell
+ * @returns {{args: string[], env: Object, integrated: boolean}}
+ */
+function withShellIntegration(
+  shell,
+  args = [],
+  env = process.env,
+  options = {}
+) {
+  const name = path.basename(shell).replace(/\.exe$/i, "");
+  const loginArgs = options.login ? ["-l"] : [];
+
+  switch (name) {
+    case "bash":
+      // bash ignores --rcfile for login shells, so the script sources the
+      // login files itself when TERMINUS_SHELL_LOGIN is set
+      return {
+        args: ["--rcfile", BASH_SCRIPT, ...args],
+        env: options.login ? { ...env, TERMINUS_SHELL_LOGIN: "1" } : env,
+        integrated: true,
+      };
+    case "zsh":
+      return {
+        args: [...loginArgs, ...args],
+        env: {
+          ...env,
+          TERMINUS_USER_ZDOTDIR: env.ZDOTDIR || env.HOME || "",
+          ZDOTDIR: ZSH_DIR,
+        },
+        integrated: true,
+      };
+    case "fish":
+      return {
+        args: [
+          ...loginArgs,
+          "--init-command",
+          `source '${FISH_SCRIPT}'`,
+          ...args,
+        ],
+        env,
+        integrated: true,
+      };
+    case "powershell":
+    case "pwsh":
+    case "cmd":
+      return { args, env, integrated: false };
+    default:
+      return { args: [...loginArgs, ...args], env, integrated: false };
+  }
+}
+
+module.exports = { withShellIntegration };
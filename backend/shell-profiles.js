@@ -0,0 +1,191 @@
+/**
+ * shell-profiles.js
+ *
+ * Named shell profiles loaded from a JSON config file. A profile describes
+ * how to start a terminal session: the shell binary and its arguments, the
+ * starting directory, environment overrides and unsets, the TERM name and
+ * whether to start a login shell.
+ *
+ * The config is read from SHELL_PROFILES_PATH (default: shell-profiles.json
+ * next to this file) every time it is needed, so edits apply to new sessions
+ * without a restart. When a profile's shell is not installed the next
+ * available one of $SHELL, bash and sh is used instead.
+ */
+
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+
+const CONFIG_PATH =
+  process.env.SHELL_PROFILES_PATH ||
+  path.join(__dirname, "shell-profiles.json");
+
+const IS_WINDOWS = os.platform() === "win32";
+
+// Used when the config file is missing or unreadable
+const BUILT_IN_CONFIG = {
+  defaultProfile: "default",
+  profiles: [
+    {
+      id: "default",
+      name: "Default shell",
+      shell: IS_WINDOWS ? "powershell.exe" : "$SHELL",
+    },
+  ],
+};
+
+/**
+ * Reads the profile config, falling back to the built-in one.
+ *
+ * @returns {{defaultProfile: string, profiles: Object[]}}
+ */
+function loadShellProfiles() {
+  try {
+    const config = JSON.parse(fs.readFileSync(CONFIG_PATH, "utf8"));
+    const profiles = Array.isArray(config.profiles)
+      ? config.profiles.filter((p) => p && p.id && p.shell)
+      : [];
+
+    if (profiles.length === 0) {
+      console.warn(`No valid profiles in ${CONFIG_PATH}; using built-in`);
+      return BUILT_IN_CONFIG;
+    }
+
+    return {
+      defaultProfile: config.defaultProfile || profiles[0].id,
+      profiles,
+    };
+  } catch (err) {
+    if (err.code !== "ENOENT") {
+      console.error(`Error reading ${CONFIG_PATH}:`, err.message);
+    }
+    return BUILT_IN_CONFIG;
+  }
+}
+
+/**
+ * Finds an executable on PATH (or checks an absolute/relative path).
+ *
+ * @param {string} shell - Shell binary name or path
+ * @returns {string|null} The resolved path, or null if not found
+ */
+function findExecutable(shell) {
+  if (!shell) return null;
+  // PATH lookups on Windows are left to the OS
+  if (IS_WINDOWS) return shell;
+
+  const isExecutable = (file) => {
+    try {
+      fs.accessSync(file, fs.constants.X_OK);
+      return fs.statSync(file).isFile();
+    } catch (err) {
+      return false;
+    }
+  };
+
+  if (shell.includes("/")) {
+    return isExecutable(shell) ? shell : null;
+  }
+
+  const dirs = (process.env.PATH || "").split(path.delimiter).filter(Boolean);
+  for (const dir of dirs) {
+    const candidate = path.join(dir, shell);
+    if (isExecutable(candidate)) return candidate;
+  }
+  return null;
+}
+
+const expandHome = (value) =>
+  typeof value === "string" && (value === "~" || value.startsWith("~/"))
+    ? path.join(os.homedir(), value.slice(1))
+    : value;
+
+// "$SHELL" in a profile means the user's login shell from the environment
+const resolveShellName = (shell) =>
+  shell === "$SHELL" ? process.env.SHELL : shell;
+
+/**
+ * Lists the configured profiles with whether their shell is installed.
+ */
+function listShellProfiles() {
+  const config = loadShellProfiles();
+  return {
+    defaultProfile: config.defaultProfile,
+    profiles: config.profiles.map((profile) => ({
+      id: profile.id,
+      name: profile.name || profile.id,
+      shell: profile.shell,
+      login: !!profile.login,
+      available: !!findExecutable(resolveShellName(profile.shell)),
+    })),
+  };
+}
+
+/**
+ * Resolves a profile into everything needed to spawn it.
+ *
+ * @param {string} [profileId] - Profile to use (defaults to the config default)
+ * @returns {Object} Launch spec: { profileId, name, shell, args, cwd, env,
+ *   term, login, fallbackFrom }
+ */
+function resolveShellProfile(profileId) {
+  const config = loadShellProfiles();
+  const profile =
+    config.profiles.find((p) => p.id === profileId) ||
+    config.profiles.find((p) => p.id === config.defaultProfile) ||
+    config.profiles[0];
+
+  if (profileId && profile.id !== profileId) {
+    console.warn(`Unknown shell profile "${profileId}"; using ${profile.id}`);
+  }
+
+  const requested = resolveShellName(profile.shell);
+  const candidates = IS_WINDOWS
+    ? [requested, "powershell.exe", "cmd.exe"]
+    : [requested, process.env.SHELL, "bash", "sh"];
+
+  let shell = null;
+  for (const candidate of candidates) {
+    shell = findExecutable(candidate);
+    if (shell) break;
+  }
+
+  if (!shell) {
+    throw new Error(`No usable shell found for profile "${profile.id}"`);
+  }
+
+  const fallbackFrom = findExecutable(requested) ? null : requested || null;
+  if (fallbackFrom) {
+    console.warn(
+      `Shell "${fallbackFrom}" for profile "${profile.id}" not found; falling back to ${shell}`
+    );
+  }
+
+  // Environment: inherit, apply overrides, then drop unsets
+  const term = profile.term || "xterm-256color";
+  const env = { ...process.env, ...(profile.env || {}), TERM: term };
+  (profile.unsetEnv || []).forEach((name) => {
+    delete env[name];
+  });
+
+  let cwd = expandHome(profile.cwd) || os.homedir();
+  if (!fs.existsSync(cwd)) {
+    console.warn(`Profile cwd ${cwd} does not exist; using home directory`);
+    cwd = os.homedir();
+  }
+
+  return {
+    profileId: profile.id,
+    name: profile.name || profile.id,
+    shell,
+    args: Array.isArray(profile.args) ? profile.args : [],
+    cwd,
+    env,
+    term,
+    // Only honor login for the shell the profile asked for
+    login: !!profile.login && !fallbackFrom,
+    fallbackFrom,
+  };
+}
+
+module.exports = { loadShellProfiles, listShellProfiles, resolveShellProfile };
@@ -0,0 +1,38 @@
+/**
+ * Where the server keeps what it caches and records: the suggestion cache,
+ * suggestion feedback, command history and session recordings.
+ *
+ * TERMINUS_CACHE_DIR if set, otherwise a "terminus" directory in the OS's
+ * cache directory. It is kept out of the server's own directory because
+ * `npm run dev` (nodemon) restarts the server on writes there, which would
+ * drop every terminal session.
+ */
+
+const os = require("os");
+const path = require("path");
+
+function osCacheDir() {
+  if (process.platform === "win32") {
+    return (
+      process.env.LOCALAPPDATA || path.join(os.homedir(), "AppData", "Local")
+    );
+  }
+  if (process.platform === "darwin") {
+    return path.join(os.homedir(), "Library", "Caches");
+  }
+  return process.env.XDG_CACHE_HOME || path.join(os.homedir(), ".cache");
+}
+
+/**
+ * A path in the cache directory.
+ *
+ * @param {...string} parts - Path segments below the cache directory
+ * @returns {string}
+ */
+function cachePath(...parts) {
+  const dir =
+    process.env.TERMINUS_CACHE_DIR || path.join(osCacheDir(), "terminus");
+  return path.join(dir, ...parts);
+}
+
+module.exports = { cachePath };
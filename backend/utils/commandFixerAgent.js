@@ -3,43 +3,72 @@
  * Converted from TypeScript to JavaScript for backend use
  */
 
-const axios = require("axios");
+const { resolveLLMOptions } = require("./llm");
+const { runRules } = require("./rules");
+const {
+  collectFixContext,
+  formatFixContext,
+  fixContextFingerprint,
+} = require("./fixContext");
+const { SuggestionCache, suggestionCacheKey } = require("./suggestionCache");
+const { withRisk } = require("./commandRisk");
+const { responseFormat, requestSuggestions } = require("./suggestionRequest");
+const { normalizeDiagnostics, formatDiagnostics } = require("./diagnostics");
+
+// How much of the error output goes into the prompt
+const MAX_ERROR_CHARS = 4000;
+// Less when parsed diagnostics already say what went wrong
+const MAX_ERROR_CHARS_WITH_DIAGNOSTICS = 1000;
+
+// LLM answers shared by every client, see utils/suggestionCache
+const suggestionCache = new SuggestionCache();
 
 /**
- * A helper function that uses the OpenRouter API to suggest corrected commands
+ * A helper function that asks the configured LLM provider to suggest corrected commands
  * based on the user's original input, exit code, and error output.
  * This function is generic and works with any command type (shell, Python, Node.js, etc.).
  *
  * @param {string} userCommand The original input typed by the user
  * @param {number} exitCode The exit code of the command (0 = success, non-zero = failure)
  * @param {string} stderr The error output from the command execution
- * @returns {Promise<Array<{command: string, description: string}>>} A promise that resolves to an array of command suggestions
+ * @param {Object} [context] What the client observed alongside the failure
+ * @param {string} [context.cwd] The directory the command ran in
+ * @param {string} [context.shell] The shell the command ran in
+ * @param {string} [context.details] Environment details from utils/fixContext,
+ *   already within its size budget
+ * @param {Array} [context.history] Earlier messages of the session's
+ *   conversation with the assistant, see utils/conversationStore
+ * @param {Array} [context.diagnostics] Problems parsed from the output,
+ *   already normalized; see utils/diagnostics
+ * @param {Object} [llmOptions] Per-request provider settings (provider, model,
+ *   temperature, maxTokens, timeoutMs); see utils/llm
+ * @param {Object} [stream] Streams the reply; see requestSuggestions
+ * @returns {Promise<Array<Object>>} A promise that resolves to an array of
+ *   command suggestions in the shape described in utils/suggestionSchema;
+ *   empty when the command is valid
  */
 async function commandFixerAgent(
   userCommand,
   exitCode,
-  stderr
+  stderr,
+  context = {},
+  llmOptions = {},
+  stream = {}
 ) {
-  // Get the API key from environment variable
-  const apiKey = process.env.OPENROUTER_API_KEY;
-
   console.log("🔄 Command fixer agent called with:", {
     userCommand,
     exitCode,
     stderr: stderr.substring(0, 100), // Truncate long errors
-    apiKeyAvailable: !!apiKey,
+    cwd: context.cwd,
+    shell: context.shell,
+    provider: llmOptions.provider || process.env.LLM_PROVIDER || "default",
     timestamp: new Date().toISOString(),
   });
 
   // If the command is valid (exitCode === 0 and no stderr), return early
   if (exitCode === 0 && !stderr.trim()) {
     console.log("Command is valid. No suggestions needed.");
-    return [
-      {
-        command: "Command is valid. No suggestions needed.",
-        description: "",
-      },
-    ];
+    return [];
   }
 
   if (!userCommand || userCommand.trim() === "") {
@@ -47,155 +76,211 @@ async function commandFixerAgent(
     throw new Error("Empty command passed to commandFixerAgent");
   }
 
-  if (!apiKey) {
-    console.error(
-      "OpenRouter API key not found. Set OPENROUTER_API_KEY in your environment."
-    );
-    throw new Error(
-      "API key not found. Please configure the API key in your environment."
-    );
-  }
-
   const prompt = `You are an AI assistant that helps users correct invalid or failed commands across terminal environments (e.g., shell, Python, Node.js, CLI tools).
 Given the user's original command, its exit code, and the error message, suggest valid alternative commands.
 
 User command: ${userCommand}
 Exit code: ${exitCode}
-Error message: ${stderr.trim() || `Command failed with exit code ${exitCode}`}
-
+${describeError(stderr, exitCode, context.diagnostics)}
+${describeEnvironment(context)}
 Remember that a non-zero exit code (${exitCode}) indicates failure, even if there's no clear error message.
 
-Respond with multiple corrected commands in this format:
-<corrected command> ~ <short description>
-
-If the command is valid, respond with:
-Command is valid. No suggestions needed.
-
-Do not add any explanation or markdown.`;
+${RESPONSE_FORMAT}`;
 
   // Log the final prompt being sent
   console.log("🔤 Formatted prompt:", prompt);
 
   try {
-    console.log("Making API call to OpenRouter...");
-
-    // Direct call to OpenRouter API
-    const response = await axios.post(
-      "https://openrouter.ai/api/v1/chat/completions",
-      {
-        model: "anthropic/claude-3.5-sonnet",
-        messages: [
-          {
-            role: "user",
-            content: prompt,
-          },
-        ],
-        max_tokens: 150,
-        temperature: 0.2,
-      },
-      {
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-        },
-        timeout: 15000, // 15-second timeout to accommodate more complex commands
-      }
+    const suggestions = await requestSuggestions(
+      prompt,
+      llmOptions,
+      stream,
+      context.history
     );
 
-    // Extract the response text from the API response
-    console.log("✅ Received OpenRouter API response successfully!");
-
-    if (!response.data || !response.data.choices || !response.data.choices[0]) {
-      console.error("Invalid API response format:", response.data);
-      throw new Error("Invalid API response format");
-    }
-
-    const suggestionsText = response.data.choices[0].message.content.trim();
-    console.log("Raw suggestions text:", suggestionsText);
-
-    // Parse the suggestions into an array of command objects
-    const suggestions = parseSuggestions(suggestionsText);
-    console.log("Parsed suggestions:", suggestions);
-
+    // An empty list means the model considers the command valid
     if (suggestions.length === 0) {
-      console.warn("No suggestions could be parsed from API response");
-      // Return an empty array instead of falling back to default suggestions
-      return [
-        {
-          command: "echo 'Unable to parse suggestions'",
-          description: "Try a different command or check API response format",
-        },
-      ];
+      console.log("Command is valid message detected");
     }
-
     return suggestions;
   } catch (error) {
-    console.error("Error calling OpenRouter API:", error);
+    console.error("Error calling the LLM provider:", error.message);
     // Instead of returning default suggestions, throw the error to be handled by the caller
     throw error;
   }
 }
 
 /**
- * Parses the suggestion text from the model into an array of CommandSuggestion objects
- * Handles any command type (shell, Python, Node.js, etc.)
- * 
- * @param {string} text The raw suggestion text from the LLM response
- * @returns {Array<{command: string, description: string}>} Parsed command suggestions
+ * Keeps the end of long error output, where the error usually is
  */
-function parseSuggestions(text) {
-  const suggestions = [];
-
-  // Special case for "Command is valid" response
-  if (text.includes("Command is valid. No suggestions needed.")) {
-    console.log("Command is valid message detected");
-    return [
-      {
-        command: "Command is valid. No suggestions needed.",
-        description: "",
-      },
-    ];
+const clipError = (stderr, maxChars = MAX_ERROR_CHARS) => {
+  const trimmed = stderr.trim();
+  return trimmed.length > maxChars ? `…${trimmed.slice(-maxChars)}` : trimmed;
+};
+
+/**
+ * The error section of the prompt: the parsed diagnostics when there are
+ * any, with only the end of the raw output for reference
+ */
+const describeError = (stderr, exitCode, diagnostics = []) => {
+  if (diagnostics.length === 0) {
+    return `Error message: ${
+      clipError(stderr) || `Command failed with exit code ${exitCode}`
+    }`;
+  }
+  const raw = clipError(stderr, MAX_ERROR_CHARS_WITH_DIAGNOSTICS);
+  return `Diagnostics parsed from the output:
+${formatDiagnostics(diagnostics)}${
+    raw ? `\nEnd of the raw output:\n${raw}` : ""
+  }`;
+};
+
+/**
+ * The environment section of the prompt
+ */
+const describeEnvironment = (context) => {
+  if (context.details) return `\nEnvironment:\n${context.details}\n`;
+  return `${context.cwd ? `Working directory: ${context.cwd}\n` : ""}${
+    context.shell ? `Shell: ${context.shell}\n` : ""
+  }`;
+};
+
+/**
+ * The reply format section of the prompt
+ */
+const RESPONSE_FORMAT = `${responseFormat({
+  confidence: "how likely it is to fix the error",
+  addresses: "the part of the error message this fixes",
+})}
+
+Order suggestions from most to least likely. If the command is actually valid, respond with {"suggestions": []}.`;
+
+/**
+ * Suggests fixes for a failed command: the offline rules first, the LLM only
+ * when no rule matched or when `more` asks for suggestions beyond the rules.
+ * Every suggestion carries the risk analyzer's verdict (riskLevel and
+ * riskReasons, see utils/commandRisk).
+ *
+ * @param {Object} failure - command, exitCode, output, cwd, shell,
+ *   recentCommands (the session's previous commands, oldest first) and
+ *   diagnostics (parsed from the output by the client)
+ * @param {Object} [options]
+ * @param {boolean} [options.more] - Ask the LLM even if rules matched
+ * @param {boolean} [options.refresh] - Skip the suggestion cache and ask the
+ *   LLM again (the fresh answer replaces the cached one)
+ * @param {Object} [options.llm] - Per-request provider settings
+ * @param {Object} [options.stream] - Streams an LLM reply as it is written:
+ *   onToken(text), onSuggestion(suggestion), onRestart() and an abort
+ *   signal; see requestSuggestions. Rule and cached suggestions only come
+ *   back in the result
+ * @param {Object} [options.conversation] - The session's conversation:
+ *   `history` (messages to send before the prompt) and `fingerprint` (what
+ *   the user said, keeps cached answers from outliving it)
+ * @returns {Promise<{suggestions: Array, cached?: boolean, fixerError?: string, cancelled?: boolean}>}
+ */
+async function suggestFixes(failure, options = {}) {
+  const { stream } = options;
+  const result = await findFixes(failure, {
+    ...options,
+    stream:
+      stream && stream.onSuggestion
+        ? {
+            ...stream,
+            onSuggestion: (suggestion) =>
+              stream.onSuggestion(withRisk(suggestion)),
+          }
+        : stream,
+  });
+  return { ...result, suggestions: result.suggestions.map(withRisk) };
+}
+
+async function findFixes(failure, options) {
+  const {
+    command,
+    exitCode,
+    output = "",
+    cwd,
+    shell,
+    recentCommands,
+  } = failure;
+  const diagnostics = normalizeDiagnostics(failure.diagnostics);
+  const ruleSuggestions = runRules({ command, output, exitCode, cwd, shell });
+
+  if (ruleSuggestions.length > 0 && !options.more) {
+    return { suggestions: ruleSuggestions };
   }
 
-  // Split by lines and process each line
-  const lines = text.split("\n");
-  console.log(`🔍 Parsing ${lines.length} lines of suggestions`);
+  // "More" means beyond what the rules already offered
+  const known = new Set(ruleSuggestions.map((s) => s.command));
 
-  for (const line of lines) {
-    if (line.trim().length === 0) continue;
+  try {
+    const context = await collectFixContext({
+      command,
+      cwd,
+      shell,
+      recentCommands,
+    });
+    const { provider, model } = resolveLLMOptions(options.llm);
+    const cacheKey = suggestionCacheKey({
+      command,
+      output,
+      fingerprint: {
+        exitCode,
+        provider,
+        model: model || null,
+        context: fixContextFingerprint(context),
+        conversation: options.conversation?.fingerprint || null,
+      },
+    });
 
-    // Use the tilde separator format: command ~ description
-    const match = line.match(/^(.+?)\s*~\s*(.+)$/);
-    if (match) {
-      const command = match[1].trim();
-      const description = match[2].trim();
-      console.log(`✓ Found suggestion: "${command}" ~ "${description}"`);
+    let llmSuggestions = options.refresh
+      ? undefined
+      : suggestionCache.get(cacheKey);
+    const cached = llmSuggestions !== undefined;
 
-      suggestions.push({
-        command,
-        description,
-      });
+    if (cached) {
+      console.log(`📦 Using cached suggestions for: ${command}`);
     } else {
-      console.log(`⚠️ Line didn't match expected format: "${line}"`);
-
-      // Simple fallback: if there's a tilde anywhere in the line
-      const tildeIndex = line.indexOf("~");
-      if (tildeIndex > 0) {
-        const command = line.substring(0, tildeIndex).trim();
-        const description = line.substring(tildeIndex + 1).trim();
-
-        if (command.length > 0) {
-          console.log(`🔄 Fallback parsing: "${command}" ~ "${description}"`);
-          suggestions.push({
-            command,
-            description: description || "Suggested command",
-          });
+      const stream = options.stream || {};
+      llmSuggestions = await commandFixerAgent(
+        command,
+        exitCode,
+        output,
+        {
+          cwd,
+          shell,
+          details: formatFixContext(context),
+          history: options.conversation?.history,
+          diagnostics,
+        },
+        options.llm,
+        {
+          ...stream,
+          onSuggestion:
+            stream.onSuggestion &&
+            ((suggestion) => {
+              if (!options.more || !known.has(suggestion.command)) {
+                stream.onSuggestion(suggestion);
+              }
+            }),
         }
-      }
+      );
+      suggestionCache.set(cacheKey, llmSuggestions);
     }
-  }
 
-  return suggestions;
+    return {
+      suggestions: options.more
+        ? llmSuggestions.filter((s) => !known.has(s.command))
+        : llmSuggestions,
+      cached,
+    };
+  } catch (error) {
+    return {
+      suggestions: options.more ? [] : ruleSuggestions,
+      fixerError: error.message,
+      ...(error.cancelled ? { cancelled: true } : {}),
+    };
+  }
 }
 
-module.exports = { commandFixerAgent };
+module.exports = { commandFixerAgent, suggestFixes };
@@ -0,0 +1,37 @@
+const { describe, it, before, after } = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { commandFixerAgent } = require("./commandFixerAgent");
+
+describe("commandFixerAgent", () => {
+  let tmp;
+  const mock = { provider: "mock" };
+
+  before(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), "terminus-fixer-"));
+    const fixturesPath = path.join(tmp, "responses.json");
+    fs.writeFileSync(
+      fixturesPath,
+      JSON.stringify({ responses: [], default: { suggestions: [] } })
+    );
+    process.env.LLM_MOCK_FIXTURES = fixturesPath;
+  });
+
+  after(() => {
+    delete process.env.LLM_MOCK_FIXTURES;
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  it("suggests nothing for a command that succeeded", async () => {
+    assert.deepEqual(await commandFixerAgent("ls", 0, "", {}, mock), []);
+  });
+
+  it("suggests nothing when the model finds the command valid", async () => {
+    assert.deepEqual(
+      await commandFixerAgent("grep x file", 1, "", {}, mock),
+      []
+    );
+  });
+});
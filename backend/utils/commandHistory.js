@@ -0,0 +1,320 @@
+/**
+ * Command history
+ *
+ * Every command the terminals report finishing (see the shell integration)
+ * is recorded with where and how it ran: cwd, session, start time, exit code
+ * and duration. The history can be searched fuzzily, filtered, collapsed to
+ * one entry per command, and pruned by the user.
+ *
+ * Every entry belongs to the client whose terminal ran it, and only that
+ * client can search or delete it.
+ *
+ * Commands that look like they carry a secret (a password, token or key on
+ * the command line) are never recorded, and neither are commands typed with
+ * a leading space, as with bash's HISTCONTROL=ignorespace.
+ * COMMAND_HISTORY_EXCLUDE adds a regular expression of the user's own.
+ *
+ * Entries are kept in a JSON Lines file, COMMAND_HISTORY_PATH (default
+ * history.jsonl in the cache directory, see cacheDir), loaded on first use.
+ * Deleting entries rewrites the file.
+ */
+
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+const { cachePath } = require("./cacheDir");
+
+// The oldest entries go once there are more than this
+const MAX_ENTRIES = 10000;
+const MAX_COMMAND_CHARS = 4000;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+const SECRET_PATTERNS = [
+  // PASSWORD=..., --token=..., api_key: ...
+  /(?:pass(?:word|wd)?|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|credentials?)\w*\s*[=:]\s*\S+/i,
+  /--(?:pass(?:word|wd)?|secret|token|api[_-]?key)\s+\S+/i,
+  /\bAuthorization:\s*\S+/i,
+  /\b(?:Bearer|Basic)\s+[\w.~+/=-]{16,}/,
+  // user:password@ in URLs
+  /:\/\/[^\s/:@]+:[^\s/@]+@/,
+  // mysql -pPASSWORD
+  /\bmysql(?:dump|admin)?\b.*\s-p\S+/,
+  /\bAKIA[0-9A-Z]{16}\b/,
+  /\b(?:ghp|gho|ghu|ghs|ghr|github_pat)_\w{20,}/,
+  /\bsk-[\w-]{20,}/,
+  /\bxox[abprs]-[\w-]{10,}/,
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----/,
+];
+
+function userExcludePattern() {
+  const source = process.env.COMMAND_HISTORY_EXCLUDE;
+  if (!source) return null;
+  try {
+    return new RegExp(source);
+  } catch (err) {
+    console.error("Ignoring invalid COMMAND_HISTORY_EXCLUDE:", err.message);
+    return null;
+  }
+}
+
+/**
+ * Whether a command must stay out of the history.
+ *
+ * @param {string} command - As typed, before trimming
+ * @param {RegExp|null} [extra] - The user's own exclude pattern
+ */
+function isExcluded(command, extra = null) {
+  if (/^\s/.test(command)) return true;
+  return (
+    SECRET_PATTERNS.some((pattern) => pattern.test(command)) ||
+    (extra !== null && extra.test(command))
+  );
+}
+
+/**
+ * How well `query` matches `text`, higher is better, or -1 for no match.
+ * A substring match beats any scattered one; otherwise the query's
+ * characters must appear in order, and runs of consecutive characters and
+ * characters starting a word score extra, the way fzf ranks.
+ */
+function fuzzyScore(query, text) {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  if (!q) return 0;
+
+  const at = t.indexOf(q);
+  if (at !== -1) return 1000 - Math.min(at, 500);
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of q) {
+    const index = t.indexOf(char, from);
+    if (index === -1) return -1;
+    score += 1;
+    if (index === previous + 1) score += 5;
+    if (index === 0 || /[\s/._-]/.test(t[index - 1])) score += 3;
+    previous = index;
+    from = index + 1;
+  }
+  return score;
+}
+
+const matchesStatus = (entry, status) => {
+  if (status === "succeeded") return entry.exitCode === 0;
+  if (status === "failed") {
+    return entry.exitCode !== null && entry.exitCode !== 0;
+  }
+  return true;
+};
+
+class CommandHistory {
+  /**
+   * @param {Object} [options]
+   * @param {string} [options.filePath] - Where entries are stored
+   * @param {number} [options.maxEntries] - How many entries are kept
+   */
+  constructor(options = {}) {
+    this.filePath =
+      options.filePath ||
+      process.env.COMMAND_HISTORY_PATH ||
+      cachePath("history.jsonl");
+    this.maxEntries = options.maxEntries || MAX_ENTRIES;
+    this.exclude = userExcludePattern();
+    this.entries = null; // oldest first, loaded on first use
+    this.writing = Promise.resolve();
+  }
+
+  load() {
+    if (this.entries) return this.entries;
+
+    this.entries = [];
+    let raw = "";
+    try {
+      raw = fs.readFileSync(this.filePath, "utf8");
+    } catch (err) {
+      if (err.code !== "ENOENT") {
+        console.error("Ignoring unreadable command history:", err.message);
+      }
+    }
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line);
+        if (entry && entry.id && typeof entry.command === "string") {
+          this.entries.push(entry);
+        }
+      } catch (err) {
+        // A line cut short by a crash; the rest are still good
+      }
+    }
+    return this.entries;
+  }
+
+  /**
+   * Records a finished command.
+   *
+   * @param {Object} run - `command`, `exitCode`, `durationMs` and `cwd`
+   * @param {Object} where - `owner`, the id of the client whose terminal ran
+   *   it, and the `sessionId` and `sessionName` it ran in
+   * @returns {Object|null} The entry, or null when the command was invalid
+   *   or excluded
+   */
+  record(run, { owner, sessionId, sessionName } = {}) {
+    const { command, exitCode, durationMs, cwd } = run || {};
+    if (!owner) return null;
+    if (typeof command !== "string" || !command.trim()) return null;
+    if (isExcluded(command, this.exclude)) return null;
+
+    const duration =
+      Number.isFinite(durationMs) && durationMs >= 0
+        ? Math.round(durationMs)
+        : null;
+    const entry = {
+      id: crypto.randomUUID(),
+      owner,
+      command: command.trim().slice(0, MAX_COMMAND_CHARS),
+      cwd: typeof cwd === "string" && cwd ? cwd : null,
+      sessionId: sessionId || null,
+      sessionName: sessionName || null,
+      // The client's clock can't be trusted; the command ended just now
+      startedAt: new Date(Date.now() - (duration || 0)).toISOString(),
+      exitCode: Number.isInteger(exitCode) ? exitCode : null,
+      durationMs: duration,
+    };
+
+    const entries = this.load();
+    entries.push(entry);
+    // Trim in batches so the file isn't rewritten for every command
+    if (entries.length > this.maxEntries * 1.1) {
+      entries.splice(0, entries.length - this.maxEntries);
+      this.rewrite();
+    } else {
+      this.append(`${JSON.stringify(entry)}\n`);
+    }
+    return entry;
+  }
+
+  /**
+   * Searches a client's history: best match first with `q`, newest first
+   * without.
+   *
+   * @param {Object} [filters]
+   * @param {string} [filters.q] - Fuzzy search on the command
+   * @param {string} [filters.cwd] - Only commands run in this directory
+   * @param {string} [filters.sessionId] - Only commands run in this session
+   * @param {string} [filters.status] - "succeeded" or "failed"
+   * @param {string} [filters.since] - Only commands started after this date
+   * @param {boolean|string} [filters.dedupe=true] - One entry per command,
+   *   its latest run, with `count` runs
+   * @param {number|string} [filters.limit=50]
+   * @param {string} owner - Id of the client whose history it is
+   * @returns {Array<Object>}
+   */
+  query(filters = {}, owner) {
+    const { q, cwd, sessionId, status, since } = filters;
+    const dedupe = filters.dedupe !== false && filters.dedupe !== "false";
+    const limit = Math.min(
+      Math.max(parseInt(filters.limit, 10) || DEFAULT_LIMIT, 1),
+      MAX_LIMIT
+    );
+    const sinceTime = since ? Date.parse(since) : NaN;
+    const search = typeof q === "string" ? q.trim() : "";
+
+    const results = [];
+    const byCommand = new Map();
+    const entries = this.load();
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const entry = entries[i];
+      if (!owner || entry.owner !== owner) continue;
+      if (cwd && entry.cwd !== cwd) continue;
+      if (sessionId && entry.sessionId !== sessionId) continue;
+      if (!matchesStatus(entry, status)) continue;
+      if (!Number.isNaN(sinceTime) && Date.parse(entry.startedAt) < sinceTime) {
+        continue;
+      }
+
+      if (dedupe) {
+        const seen = byCommand.get(entry.command);
+        if (seen) {
+          seen.count++;
+          continue;
+        }
+      }
+      const score = search ? fuzzyScore(search, entry.command) : 0;
+      if (score < 0) continue;
+
+      const result = dedupe ? { ...entry, count: 1 } : { ...entry };
+      if (dedupe) byCommand.set(entry.command, result);
+      results.push({ result, score, order: results.length });
+    }
+
+    return results
+      .sort((a, b) => b.score - a.score || a.order - b.order)
+      .slice(0, limit)
+      .map(({ result }) => result);
+  }
+
+  /**
+   * Deletes a client's entries by id, or every run of a command.
+   *
+   * @param {Object} target - `ids` and/or `command`
+   * @param {string} owner - Id of the client whose history it is
+   * @returns {number} How many entries were deleted
+   */
+  remove({ ids, command } = {}, owner) {
+    const idSet = new Set(Array.isArray(ids) ? ids : []);
+    const entries = this.load();
+    const kept = entries.filter(
+      (entry) =>
+        !owner ||
+        entry.owner !== owner ||
+        (!idSet.has(entry.id) &&
+          !(typeof command === "string" && entry.command === command.trim()))
+    );
+    const deleted = entries.length - kept.length;
+    if (deleted > 0) {
+      this.entries = kept;
+      this.rewrite();
+    }
+    return deleted;
+  }
+
+  /**
+   * Appends to the history file. Writes are serialized so lines never
+   * interleave.
+   */
+  append(text) {
+    return this.write(() => fs.promises.appendFile(this.filePath, text));
+  }
+
+  /**
+   * Replaces the file with the entries as they are now; appends queued
+   * after this are for entries it doesn't contain.
+   */
+  rewrite() {
+    const text = this.entries.map((entry) => `${JSON.stringify(entry)}\n`);
+    const tmpPath = `${this.filePath}.tmp`;
+    return this.write(async () => {
+      await fs.promises.writeFile(tmpPath, text.join(""));
+      await fs.promises.rename(tmpPath, this.filePath);
+    });
+  }
+
+  write(operation) {
+    this.writing = this.writing
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), {
+          recursive: true,
+        });
+        await operation();
+      })
+      .catch((err) => {
+        console.error("Failed to write command history:", err.message);
+      });
+    return this.writing;
+  }
+}
+
+module.exports = { CommandHistory, isExcluded, fuzzyScore };
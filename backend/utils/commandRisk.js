@@ -0,0 +1,703 @@
+/**
+ * Command risk analyzer
+ *
+ * Classifies a shell command line as "low", "medium" or "high" risk before
+ * anyone runs it from a suggestion. The line is tokenized the way a POSIX
+ * shell would split it (quotes, escapes, pipes, lists, redirections and
+ * command substitutions), then every simple command in it is checked for
+ * destructive operations, privilege escalation and downloads piped into an
+ * interpreter. Code given inline to `sh -c`, `python -c`, `node -e` and the
+ * like is checked for the commands it runs. The verdict is the highest
+ * level any check found, with the reasons that led to it.
+ */
+
+const RISK_ORDER = ["low", "medium", "high"];
+
+const CONTROL_OPERATORS = ["&&", "||", ";;", ";", "|&", "|", "&", "\n"];
+const REDIRECT_PATTERN = /^(>>|>\||>&|&>|>|<<<|<<|<&|<>|<)/;
+
+// How deep `sh -c` strings and substitutions are followed
+const MAX_NESTING = 3;
+
+// Programs that run the rest of their arguments as another command
+const WRAPPERS = [
+  "sudo",
+  "doas",
+  "pkexec",
+  "env",
+  "nice",
+  "nohup",
+  "time",
+  "timeout",
+  "command",
+  "exec",
+  "xargs",
+  "watch",
+];
+
+// Options of wrapper programs that take a value
+const WRAPPER_VALUE_OPTIONS = {
+  sudo: ["-u", "-g", "-C", "-h", "-p", "-U", "-r", "-t"],
+  doas: ["-u", "-C"],
+  env: ["-u", "-C", "-S"],
+  nice: ["-n"],
+  timeout: ["-s", "-k"],
+  xargs: ["-I", "-n", "-P", "-L", "-d", "-E", "-s"],
+  watch: ["-n", "-d"],
+};
+
+const PRIVILEGE_COMMANDS = ["sudo", "doas", "pkexec", "su", "runas"];
+const SHELLS = ["sh", "bash", "zsh", "fish", "dash", "ksh", "csh", "tcsh"];
+const INTERPRETERS = [
+  ...SHELLS,
+  "python",
+  "python3",
+  "perl",
+  "ruby",
+  "node",
+  "php",
+  "pwsh",
+  "powershell",
+  "iex",
+];
+const DOWNLOADERS = ["curl", "wget", "fetch", "iwr", "invoke-webrequest"];
+
+// Options of interpreters whose value is code to run
+const INLINE_CODE_OPTIONS = {
+  python: ["-c"],
+  python3: ["-c"],
+  perl: ["-e", "-E"],
+  ruby: ["-e"],
+  node: ["-e", "--eval", "-p", "--print"],
+  php: ["-r"],
+};
+// Calls in such code that hand a string to the shell, and that delete files
+const SHELL_OUT_CALLS =
+  /\b(?:os\.system|os\.popen|subprocess\.\w+|exec(?:Sync|FileSync)?|spawn(?:Sync)?|system|popen|shell_exec|passthru)\s*\(|`|%x/;
+const FILE_DELETION_CALLS =
+  /(?:\bshutil\.rmtree|\bos\.(?:remove|unlink|rmdir|removedirs)|\.(?:rm|rmdir|unlink)(?:Sync)?|\bFileUtils\.rm\w*|\bFile\.delete|\bunlink|\brmtree)\s*\(/;
+// String literals in code: '...', "...", `...` and Perl's q{...} and qq{...}
+const STRING_LITERALS =
+  /'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"|`([^`]*)`|\bqq?\{([^}]*)\}/g;
+// Words bash replaces with an earlier command line: !!, !-2, !rm, !?foo?
+const HISTORY_EXPANSION = /!(?:!|-?\d|[A-Za-z?$])/;
+
+const DELETE_COMMANDS = ["rm", "rmdir", "del", "rd", "remove-item", "unlink"];
+const PERMISSION_COMMANDS = ["chmod", "chown", "chgrp", "icacls", "takeown"];
+const DISK_COMMANDS = [
+  "fdisk",
+  "sfdisk",
+  "parted",
+  "wipefs",
+  "mkswap",
+  "format",
+  "diskpart",
+];
+const POWER_COMMANDS = [
+  "shutdown",
+  "reboot",
+  "halt",
+  "poweroff",
+  "init",
+  "stop-computer",
+  "restart-computer",
+];
+const KILL_COMMANDS = ["kill", "killall", "pkill", "taskkill", "stop-process"];
+const SYSTEM_PACKAGE_MANAGERS = [
+  "apt",
+  "apt-get",
+  "yum",
+  "dnf",
+  "pacman",
+  "zypper",
+  "apk",
+  "brew",
+  "port",
+  "choco",
+  "winget",
+  "snap",
+];
+
+// Targets whose loss is catastrophic
+const CRITICAL_PATHS =
+  /^(\/|\/\*|~\/?|~\/\*|\$HOME\/?|\.\/?\*?|\.\.\/?|\*|\/(bin|boot|dev|etc|lib|lib64|opt|root|sbin|sys|usr|var)(\/.*)?)$/;
+const DEVICE_PATHS = /^\/dev\/(sd|hd|nvme|disk|mmcblk|vd|xvd)/;
+const SYSTEM_FILES = /^\/(etc|boot|bin|sbin|usr|lib)\//;
+const SHELL_CONFIGS =
+  /^(~|\$HOME)\/\.(bashrc|zshrc|profile|bash_profile|ssh\/)/;
+const FORK_BOMB = /(\S+)\s*\(\)\s*\{\s*\1\s*\|\s*\1\s*&/;
+
+/**
+ * Splits a command line into words and operators, honouring quotes and
+ * backslash escapes. `$(...)` and backtick substitutions are kept whole in
+ * their word and also returned separately so they can be analyzed too.
+ *
+ * @param {string} line
+ * @returns {{tokens: Array<{type: string, value: string}>, substitutions: string[]}}
+ */
+function tokenizeShell(line) {
+  const tokens = [];
+  const substitutions = [];
+  let word = "";
+  let inWord = false;
+  let i = 0;
+
+  const pushWord = () => {
+    if (inWord) tokens.push({ type: "word", value: word });
+    word = "";
+    inWord = false;
+  };
+
+  // Index of the parenthesis closing the one at line[start]
+  const closingParen = (start) => {
+    let depth = 0;
+    for (let j = start; j < line.length; j++) {
+      if (line[j] === "\\") j++;
+      else if (line[j] === "(") depth++;
+      else if (line[j] === ")" && --depth === 0) return j;
+    }
+    return line.length;
+  };
+
+  // Reads a $( ... ) substitution starting at line[start] === "$"
+  const readSubstitution = (start) => {
+    const end = closingParen(start + 1);
+    substitutions.push(line.slice(start + 2, end));
+    word += line.slice(start, end + 1);
+    return end + 1;
+  };
+
+  while (i < line.length) {
+    const ch = line[i];
+
+    if (ch === "\\" && i + 1 < line.length) {
+      word += line[i + 1];
+      inWord = true;
+      i += 2;
+    } else if (ch === "'") {
+      const end = line.indexOf("'", i + 1);
+      const stop = end === -1 ? line.length : end;
+      word += line.slice(i + 1, stop);
+      inWord = true;
+      i = stop + 1;
+    } else if (ch === '"') {
+      let j = i + 1;
+      while (j < line.length && line[j] !== '"') {
+        if (line[j] === "\\" && j + 1 < line.length) {
+          word += line[j + 1];
+          j += 2;
+        } else if (line[j] === "$" && line[j + 1] === "(") {
+          j = readSubstitution(j);
+        } else {
+          word += line[j];
+          j++;
+        }
+      }
+      inWord = true;
+      i = j + 1;
+    } else if (ch === "$" && line[i + 1] === "(") {
+      inWord = true;
+      i = readSubstitution(i);
+    } else if (ch === "`") {
+      const end = line.indexOf("`", i + 1);
+      const stop = end === -1 ? line.length : end;
+      substitutions.push(line.slice(i + 1, stop));
+      word += line.slice(i, stop + 1);
+      inWord = true;
+      i = stop + 1;
+    } else if ((ch === "<" || ch === ">") && line[i + 1] === "(") {
+      // Process substitution: <(curl ...) hands a command's output over as a file
+      pushWord();
+      const end = closingParen(i + 1);
+      substitutions.push(line.slice(i + 2, end));
+      tokens.push({ type: "procsub", value: line.slice(i + 2, end) });
+      i = end + 1;
+    } else if (ch === "#" && !inWord) {
+      const end = line.indexOf("\n", i);
+      i = end === -1 ? line.length : end;
+    } else if (ch !== "\n" && /\s/.test(ch)) {
+      pushWord();
+      i++;
+    } else {
+      const operator = CONTROL_OPERATORS.find((op) => line.startsWith(op, i));
+      const redirect = line.slice(i).match(REDIRECT_PATTERN);
+
+      if (redirect) {
+        // A leading fd number (the 2 in 2>) belongs to the redirection;
+        // any other word before it ends there, as in `echo x>file`
+        const fd = inWord && /^\d+$/.test(word) ? word : "";
+        if (fd) {
+          word = "";
+          inWord = false;
+        } else {
+          pushWord();
+        }
+        tokens.push({ type: "redirect", value: fd + redirect[1] });
+        i += redirect[1].length;
+      } else if (operator) {
+        pushWord();
+        tokens.push({ type: "op", value: operator });
+        i += operator.length;
+      } else {
+        word += ch;
+        inWord = true;
+        i++;
+      }
+    }
+  }
+  pushWord();
+
+  return { tokens, substitutions };
+}
+
+const newCommand = (pipedFrom = null) => ({
+  words: [],
+  redirects: [],
+  procsubs: [],
+  pipedFrom,
+});
+
+/**
+ * Groups tokens into simple commands. Each records its words, its
+ * redirections and the command whose output is piped into it.
+ */
+function parseCommands(tokens) {
+  const commands = [];
+  let current = newCommand();
+
+  const finish = () => {
+    if (current.words.length > 0 || current.redirects.length > 0) {
+      commands.push(current);
+    }
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === "word") {
+      current.words.push(token.value);
+    } else if (token.type === "procsub") {
+      current.procsubs.push(token.value);
+    } else if (token.type === "redirect") {
+      const target = tokens[i + 1]?.type === "word" ? tokens[++i].value : "";
+      current.redirects.push({ op: token.value.replace(/^\d+/, ""), target });
+    } else {
+      finish();
+      const piped = token.value === "|" || token.value === "|&";
+      current = newCommand(piped && current.words.length > 0 ? current : null);
+    }
+  }
+  finish();
+
+  return commands;
+}
+
+const baseName = (word) =>
+  word
+    .replace(/^.*[\\/]/, "")
+    .replace(/\.exe$/i, "")
+    .toLowerCase();
+
+// Whether any of the short flags (possibly clustered, as in -rf) or long
+// options is given. Longer single-dash words (PowerShell's -Force) only
+// count when listed as long options.
+const hasFlag = (args, short, long = []) =>
+  args.some(
+    (arg) =>
+      long.includes(arg) ||
+      (/^-[a-zA-Z]{1,4}$/.test(arg) &&
+        short.split("").some((flag) => arg.includes(flag)))
+  );
+
+const operands = (args) => args.filter((arg) => !arg.startsWith("-"));
+
+// git's subcommand and its arguments, skipping global options like -C <dir>
+function gitSubcommand(args) {
+  for (let i = 0; i < args.length; i++) {
+    if (["-C", "-c", "--git-dir", "--work-tree"].includes(args[i])) i++;
+    else if (!args[i].startsWith("-")) return [args[i], args.slice(i + 1)];
+  }
+  return [null, []];
+}
+
+/**
+ * Strips environment assignments and wrappers (sudo, env, nohup, ...) from
+ * a simple command, noting privilege escalation on the way.
+ *
+ * @returns {{program: string, args: string[], privileged: boolean}}
+ */
+function unwrap(words) {
+  let rest = words;
+  let privileged = false;
+  const skipAssignments = () => {
+    while (rest.length > 0 && /^\w+=/.test(rest[0])) rest = rest.slice(1);
+  };
+
+  skipAssignments();
+  while (rest.length > 0 && WRAPPERS.includes(baseName(rest[0]))) {
+    const wrapper = baseName(rest[0]);
+    const valueOptions = WRAPPER_VALUE_OPTIONS[wrapper] || [];
+    if (PRIVILEGE_COMMANDS.includes(wrapper)) privileged = true;
+    rest = rest.slice(1);
+
+    // Skip the wrapper's own options; timeout also takes a duration
+    while (rest.length > 0) {
+      if (valueOptions.includes(rest[0])) rest = rest.slice(2);
+      else if (rest[0].startsWith("-")) rest = rest.slice(1);
+      else if (wrapper === "timeout" && /^\d/.test(rest[0])) {
+        rest = rest.slice(1);
+      } else break;
+    }
+    skipAssignments();
+  }
+
+  return {
+    program: rest.length > 0 ? baseName(rest[0]) : "",
+    args: rest.slice(1),
+    privileged,
+  };
+}
+
+function checkPrivileges({ program, privileged }) {
+  if (privileged) return [["high", "Runs with administrator privileges"]];
+  if (PRIVILEGE_COMMANDS.includes(program)) {
+    return [["high", `Switches to another user (${program})`]];
+  }
+  return [];
+}
+
+function checkDeletion({ program, args }) {
+  if (program === "shred") return [["high", "Irrecoverably overwrites files"]];
+  if (!DELETE_COMMANDS.includes(program)) return [];
+
+  const critical = operands(args).find((target) => CRITICAL_PATHS.test(target));
+  if (critical) return [["high", `Deletes a critical path (${critical})`]];
+
+  if (hasFlag(args, "rR", ["--recursive", "-Recurse"])) {
+    return hasFlag(args, "f", ["--force", "-Force"])
+      ? [["high", "Recursively deletes files without confirmation"]]
+      : [["high", "Recursively deletes files"]];
+  }
+  return [["medium", "Deletes files"]];
+}
+
+function checkPermissions({ program, args }) {
+  if (!PERMISSION_COMMANDS.includes(program)) return [];
+
+  const what = program === "chmod" ? "permissions" : "ownership";
+  const recursive = hasFlag(args, "R", ["--recursive"]);
+  const worldWritable = args.some((arg) =>
+    /^[0-7]?[0-7][0-7]7$|^(a|o|ugo)\+[rwx]*w/.test(arg)
+  );
+  const onCritical = operands(args).some((target) =>
+    CRITICAL_PATHS.test(target)
+  );
+
+  if (worldWritable && (recursive || onCritical)) {
+    return [["high", "Makes files writable by everyone, recursively"]];
+  }
+  if (recursive && onCritical) {
+    return [["high", `Recursively changes ${what} of a system path`]];
+  }
+  if (worldWritable) return [["medium", "Makes files writable by everyone"]];
+  if (recursive) return [["medium", `Recursively changes ${what}`]];
+  return [];
+}
+
+// Git operations that throw away work or rewrite shared history
+function checkGit({ program, args }) {
+  if (program !== "git") return [];
+
+  const [sub, rest] = gitSubcommand(args);
+  switch (sub) {
+    case "reset":
+      return hasFlag(rest, "", ["--hard", "--merge", "--keep"])
+        ? [["high", "Discards uncommitted changes (git reset --hard)"]]
+        : [];
+    case "clean":
+      return hasFlag(rest, "f", ["--force"])
+        ? [["high", "Deletes untracked files (git clean)"]]
+        : [];
+    case "push":
+      if (
+        hasFlag(rest, "f", ["--force", "--mirror", "--delete"]) ||
+        rest.some((arg) => arg.startsWith("+") || arg.startsWith(":"))
+      ) {
+        return [["high", "Overwrites or deletes remote history"]];
+      }
+      return rest.some((arg) => arg.startsWith("--force-with-lease"))
+        ? [["medium", "Rewrites remote history (force-with-lease)"]]
+        : [];
+    case "checkout":
+    case "restore":
+      return rest.includes("--") ||
+        rest.includes(".") ||
+        hasFlag(rest, "f", ["--force"])
+        ? [["medium", "Discards changes to working tree files"]]
+        : [];
+    case "branch":
+      return hasFlag(rest, "D", ["--delete", "-d"])
+        ? [["medium", "Deletes a branch"]]
+        : [];
+    case "stash":
+      return ["drop", "clear"].includes(rest[0])
+        ? [["medium", "Deletes stashed changes"]]
+        : [];
+    case "rebase":
+      return [["medium", "Rewrites commit history"]];
+    case "commit":
+      return rest.includes("--amend")
+        ? [["medium", "Rewrites the last commit"]]
+        : [];
+    case "filter-branch":
+    case "filter-repo":
+      return [["high", "Rewrites the whole repository history"]];
+    default:
+      return [];
+  }
+}
+
+// Disks, the machine itself, processes and other shared state
+function checkSystem({ program, args }) {
+  const [sub] = operands(args);
+
+  if (program === "dd" && args.some((arg) => arg.startsWith("of="))) {
+    return [["high", "Writes raw data with dd"]];
+  }
+  if (/^mkfs(\.|$)/.test(program) || DISK_COMMANDS.includes(program)) {
+    return [["high", "Formats or repartitions a disk"]];
+  }
+  if (POWER_COMMANDS.includes(program)) {
+    return [["high", "Shuts down or restarts the machine"]];
+  }
+  if (program === "crontab" && hasFlag(args, "r")) {
+    return [["high", "Deletes every scheduled cron job"]];
+  }
+  if (
+    program === "find" &&
+    (args.includes("-delete") ||
+      args.some(
+        (arg, i) =>
+          ["-exec", "-execdir"].includes(args[i - 1]) &&
+          ["rm", "shred"].includes(baseName(arg))
+      ))
+  ) {
+    return [["high", "Deletes every file find matches"]];
+  }
+  if (
+    ["truncate", "mv"].includes(program) &&
+    operands(args).some(
+      (target) => CRITICAL_PATHS.test(target) || target === "/dev/null"
+    )
+  ) {
+    return [["high", "Moves or truncates a critical path"]];
+  }
+  if (program === "kubectl" && ["delete", "drain"].includes(sub)) {
+    return [["high", `Deletes cluster resources (kubectl ${sub})`]];
+  }
+  if (KILL_COMMANDS.includes(program)) {
+    return [["medium", "Terminates processes"]];
+  }
+  if (
+    program === "docker" &&
+    (args.includes("prune") ||
+      (["rm", "rmi"].includes(sub) && hasFlag(args, "f", ["--force"])))
+  ) {
+    return [["medium", "Removes Docker containers, images or volumes"]];
+  }
+  return [];
+}
+
+// Installing or removing software outside the project
+function checkPackages({ program, args }) {
+  if (
+    SYSTEM_PACKAGE_MANAGERS.includes(program) &&
+    /^(install|remove|purge|uninstall|upgrade|autoremove|-S|-R)/.test(
+      args[0] || ""
+    )
+  ) {
+    return [["medium", `Changes installed system packages (${program})`]];
+  }
+  if (
+    ["npm", "pnpm", "yarn"].includes(program) &&
+    hasFlag(args, "g", ["--global"])
+  ) {
+    return [["medium", "Installs packages globally"]];
+  }
+  return [];
+}
+
+// Commands taken from the shell history, which the analyzer never sees
+function checkHistoryExpansion({ program, args, privileged }) {
+  if (![program, ...args].some((word) => HISTORY_EXPANSION.test(word))) {
+    return [];
+  }
+  return privileged || PRIVILEGE_COMMANDS.includes(program)
+    ? [["high", "Runs an earlier command from history as administrator"]]
+    : [["medium", "Runs an earlier command from history"]];
+}
+
+// Running code that is only known at run time
+function checkDynamicCode({ program }) {
+  if (program === "eval") return [["medium", "Runs a dynamic string as code"]];
+  if (program === "source" || program === ".") {
+    return [["medium", "Runs code from another file"]];
+  }
+  return [];
+}
+
+/**
+ * Checks for a single simple command; each returns [level, reason] findings.
+ */
+const CHECKS = [
+  checkPrivileges,
+  checkDeletion,
+  checkPermissions,
+  checkGit,
+  checkSystem,
+  checkPackages,
+  checkHistoryExpansion,
+  checkDynamicCode,
+];
+
+/**
+ * Findings that depend on how a command is connected to others: downloads
+ * piped into an interpreter, process substitutions and redirections onto
+ * sensitive files.
+ */
+function checkConnections(command, { program, args }) {
+  const findings = [];
+
+  if (command.pipedFrom && INTERPRETERS.includes(program)) {
+    const source = unwrap(command.pipedFrom.words).program;
+    if (DOWNLOADERS.includes(source)) {
+      findings.push(["high", `Pipes a download straight into ${program}`]);
+    } else if (["base64", "echo", "printf"].includes(source)) {
+      findings.push(["medium", `Pipes generated text into ${program}`]);
+    }
+  }
+
+  // bash <(curl ...), sh -c "$(curl ...)" and eval "$(curl ...)"
+  const downloads = (text) => /\b(curl|wget)\b/.test(text);
+  if (
+    (INTERPRETERS.includes(program) && command.procsubs.some(downloads)) ||
+    ([...INTERPRETERS, "eval"].includes(program) &&
+      args.some((arg) => /\$\(|`/.test(arg) && downloads(arg)))
+  ) {
+    findings.push(["high", "Runs a script downloaded from the network"]);
+  }
+
+  for (const { op, target } of command.redirects) {
+    if (!op.includes(">")) continue;
+    if (DEVICE_PATHS.test(target)) {
+      findings.push(["high", `Writes directly to a disk device (${target})`]);
+    } else if (SYSTEM_FILES.test(target)) {
+      findings.push(["high", `Overwrites a system file (${target})`]);
+    } else if (SHELL_CONFIGS.test(target)) {
+      findings.push([
+        op === ">>" ? "medium" : "high",
+        `Modifies a shell or SSH config (${target})`,
+      ]);
+    }
+  }
+
+  return findings;
+}
+
+// The code given to an interpreter on its command line (python -c, node -e)
+function inlineCode({ program, args }) {
+  const options = INLINE_CODE_OPTIONS[program];
+  if (!options) return null;
+  const index = args.findIndex((arg) => options.includes(arg));
+  return index === -1 ? null : args[index + 1] || null;
+}
+
+const stringLiterals = (code) =>
+  [...code.matchAll(STRING_LITERALS)].map((match) =>
+    match.slice(1).find((group) => group !== undefined)
+  );
+
+const higher = (a, b) =>
+  RISK_ORDER.indexOf(a) >= RISK_ORDER.indexOf(b) ? a : b;
+
+/**
+ * Classifies a command line.
+ *
+ * @param {string} line - The command as it would be typed
+ * @returns {{level: string, reasons: string[]}} level is "low", "medium" or
+ *   "high"; reasons explain every finding above "low"
+ */
+function analyzeCommandRisk(line, depth = 0) {
+  const text = String(line || "");
+  const { tokens, substitutions } = tokenizeShell(text);
+  let level = "low";
+  const reasons = [];
+
+  const note = ([findingLevel, reason]) => {
+    level = higher(level, findingLevel);
+    if (findingLevel !== "low" && !reasons.includes(reason)) {
+      reasons.push(reason);
+    }
+  };
+  const noteNested = (nestedLine) => {
+    if (depth >= MAX_NESTING) return;
+    const nested = analyzeCommandRisk(nestedLine, depth + 1);
+    nested.reasons.forEach((reason) => note([nested.level, reason]));
+  };
+
+  for (const command of parseCommands(tokens)) {
+    const unwrapped = unwrap(command.words);
+    CHECKS.forEach((check) => check(unwrapped).forEach(note));
+    checkConnections(command, unwrapped).forEach(note);
+
+    // `sh -c "..."` runs its argument as a command line of its own
+    const inline = unwrapped.args.indexOf("-c");
+    if (SHELLS.includes(unwrapped.program) && inline !== -1) {
+      noteNested(unwrapped.args[inline + 1]);
+    }
+
+    // Other interpreters' inline code: the strings it hands to the shell,
+    // one by one and as an argument list, and the files it deletes
+    const code = inlineCode(unwrapped);
+    if (code) {
+      const literals = stringLiterals(code);
+      if (SHELL_OUT_CALLS.test(code)) {
+        literals.forEach(noteNested);
+        noteNested(literals.join(" "));
+      }
+      if (FILE_DELETION_CALLS.test(code)) {
+        const critical = literals.find((literal) =>
+          CRITICAL_PATHS.test(literal)
+        );
+        note(
+          critical
+            ? ["high", `Deletes a critical path (${critical})`]
+            : ["medium", "Deletes files"]
+        );
+      }
+    }
+  }
+  substitutions.forEach(noteNested);
+
+  if (FORK_BOMB.test(text)) note(["high", "Fork bomb"]);
+
+  return { level, reasons };
+}
+
+/**
+ * Attaches the analyzer's verdict to a suggestion. The suggestion keeps the
+ * higher of its own riskLevel (as the model judged it) and the analyzer's,
+ * so the model can raise the level but never lower it.
+ */
+function withRisk(suggestion) {
+  const risk = analyzeCommandRisk(suggestion.command);
+  const stated = RISK_ORDER.includes(suggestion.riskLevel)
+    ? suggestion.riskLevel
+    : "low";
+  return {
+    ...suggestion,
+    riskLevel: higher(risk.level, stated),
+    riskReasons: risk.reasons,
+  };
+}
+
+module.exports = { analyzeCommandRisk, withRisk, tokenizeShell };
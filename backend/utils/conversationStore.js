@@ -0,0 +1,238 @@
+/**
+ * Conversation store
+ *
+ * Remembers each terminal session's conversation with the assistant: the
+ * failures it was asked to fix and what it suggested, which suggestion the
+ * user ran and how that went, and the requests typed in the chat. Earlier
+ * turns go in front of every new prompt for the session, so follow-ups like
+ * "no, I'm on macOS" or "that didn't work either" make sense to the model.
+ *
+ * Conversations live in memory and end with their session. Once a
+ * conversation passes CONVERSATION_MAX_CHARS (default 6000), its oldest
+ * turns are folded into a summary written by the model, or into a plain
+ * digest when the model can't be reached.
+ */
+
+const { complete } = require("./llm");
+
+const DEFAULT_MAX_CHARS = 6000;
+// Turns never folded into the summary, however long they are
+const KEEP_RECENT_TURNS = 6;
+const MAX_TURN_CHARS = 1500;
+const MAX_SUMMARY_CHARS = 1500;
+const MAX_ERROR_CHARS = 1000;
+const MAX_OUTPUT_CHARS = 500;
+
+const clip = (text, max) =>
+  text.length > max ? `${text.slice(0, Math.max(0, max - 1))}…` : text;
+
+const clipTail = (text, max) =>
+  text.length > max ? `…${text.slice(-(max - 1))}` : text;
+
+/**
+ * A suggestion list as the assistant's side of the conversation.
+ */
+const describeSuggestions = (suggestions) =>
+  suggestions.length > 0
+    ? `I suggested:\n${suggestions
+        .map(
+          (s) => `- ${s.command}${s.description ? ` (${s.description})` : ""}`
+        )
+        .join("\n")}`
+    : "I had no suggestions.";
+
+class ConversationStore {
+  /**
+   * @param {Object} [options]
+   * @param {number} [options.maxChars] - Size at which old turns are
+   *   summarized
+   */
+  constructor(options = {}) {
+    this.maxChars =
+      options.maxChars ??
+      (Number(process.env.CONVERSATION_MAX_CHARS) || DEFAULT_MAX_CHARS);
+    this.conversations = new Map(); // sessionId -> { summary, turns }
+  }
+
+  get(sessionId) {
+    let conversation = this.conversations.get(sessionId);
+    if (!conversation) {
+      conversation = { summary: null, turns: [] };
+      this.conversations.set(sessionId, conversation);
+    }
+    return conversation;
+  }
+
+  /**
+   * Adds a turn to a session's conversation.
+   *
+   * @param {string} sessionId
+   * @param {string} role - "user" or "assistant"
+   * @param {string} kind - "fix", "run" or "chat"; kept for fingerprints
+   * @param {string} content
+   */
+  add(sessionId, role, kind, content) {
+    this.get(sessionId).turns.push({
+      role,
+      kind,
+      content: clip(String(content), MAX_TURN_CHARS),
+    });
+  }
+
+  /**
+   * Records a failure the fixer was asked about and what it suggested.
+   */
+  recordFix(sessionId, failure, suggestions) {
+    const output = clipTail(
+      String(failure.output || "").trim(),
+      MAX_ERROR_CHARS
+    );
+    this.add(
+      sessionId,
+      "user",
+      "fix",
+      `My command \`${failure.command}\` failed with exit code ${
+        failure.exitCode
+      }${output ? `:\n${output}` : "."}`
+    );
+    this.add(sessionId, "assistant", "fix", describeSuggestions(suggestions));
+  }
+
+  /**
+   * Records a request typed in the chat and the commands suggested for it.
+   */
+  recordRequest(sessionId, request, suggestions) {
+    this.add(sessionId, "user", "chat", request);
+    this.add(sessionId, "assistant", "chat", describeSuggestions(suggestions));
+  }
+
+  /**
+   * Records that the user ran a suggested command, and how it went.
+   */
+  recordRun(sessionId, { command, exitCode, output }) {
+    const tail = clipTail(String(output || "").trim(), MAX_OUTPUT_CHARS);
+    const outcome =
+      exitCode === 0
+        ? "succeeded"
+        : Number.isInteger(exitCode)
+        ? `failed with exit code ${exitCode}`
+        : "finished";
+    this.add(
+      sessionId,
+      "user",
+      "run",
+      `I ran \`${command}\`. It ${outcome}${tail ? `. Output:\n${tail}` : "."}`
+    );
+  }
+
+  reset(sessionId) {
+    return this.conversations.delete(sessionId);
+  }
+
+  /**
+   * What the user has told the assistant in a session, for cache keys: a
+   * suggestion cached before "I'm on macOS" shouldn't be served after it.
+   *
+   * @returns {Object|null} Null when the user hasn't said anything
+   */
+  fingerprint(sessionId) {
+    const conversation = this.conversations.get(sessionId);
+    if (!conversation) return null;
+
+    const said = conversation.turns
+      .filter((turn) => turn.role === "user" && turn.kind === "chat")
+      .map((turn) => turn.content);
+    if (said.length === 0 && !conversation.summary) return null;
+    return { summary: conversation.summary, said };
+  }
+
+  /**
+   * The conversation so far as chat messages to put before a new prompt,
+   * summarizing old turns first when it has grown too long.
+   *
+   * @param {string} sessionId
+   * @param {Object} [llmOptions] - Provider settings for the summary
+   * @returns {Promise<Array<{role: string, content: string}>>}
+   */
+  async history(sessionId, llmOptions) {
+    const conversation = this.conversations.get(sessionId);
+    if (!conversation) return [];
+
+    await this.compact(conversation, llmOptions);
+
+    return [
+      ...(conversation.summary
+        ? [
+            {
+              role: "system",
+              content: `Summary of the earlier conversation with this user:\n${conversation.summary}`,
+            },
+          ]
+        : []),
+      ...conversation.turns.map(({ role, content }) => ({ role, content })),
+    ];
+  }
+
+  /**
+   * Folds all but the most recent turns into the summary once the
+   * conversation is over budget.
+   */
+  async compact(conversation, llmOptions) {
+    const size =
+      (conversation.summary || "").length +
+      conversation.turns.reduce((sum, turn) => sum + turn.content.length, 0);
+    if (
+      size <= this.maxChars ||
+      conversation.turns.length <= KEEP_RECENT_TURNS
+    ) {
+      return;
+    }
+
+    const old = conversation.turns.slice(0, -KEEP_RECENT_TURNS);
+    const transcript = old
+      .map((turn) => `${turn.role}: ${turn.content}`)
+      .join("\n\n");
+
+    let summary;
+    try {
+      const response = await complete(
+        [
+          {
+            role: "user",
+            content: `Summarize this conversation between a developer and a terminal assistant in at most ${MAX_SUMMARY_CHARS} characters of plain text. Keep facts about their system and project, what they asked for, what was tried and whether it worked.
+${conversation.summary ? `\nEarlier summary:\n${conversation.summary}\n` : ""}
+Conversation:
+${transcript}`,
+          },
+        ],
+        llmOptions
+      );
+      summary = clip(response.text.trim(), MAX_SUMMARY_CHARS);
+    } catch (err) {
+      console.error("Conversation summary failed:", err.message);
+    }
+
+    // Without the model, keep the first line of every turn, newest last
+    if (!summary) {
+      summary = clipTail(
+        [
+          conversation.summary,
+          ...old.map(
+            (turn) => `${turn.role}: ${clip(turn.content.split("\n")[0], 150)}`
+          ),
+        ]
+          .filter(Boolean)
+          .join("\n"),
+        MAX_SUMMARY_CHARS
+      );
+    }
+
+    conversation.summary = summary;
+    // Turns may have been added or the conversation reset meanwhile
+    conversation.turns = conversation.turns.filter(
+      (turn) => !old.includes(turn)
+    );
+  }
+}
+
+module.exports = { ConversationStore };
@@ -0,0 +1,71 @@
+/**
+ * Structured diagnostics sent along with a failure
+ *
+ * The client parses a failed command's output into diagnostics (tool, error
+ * code, message, file and line, hint; see the frontend's utils/diagnostics)
+ * and sends them with the failure. They come from the client, so they are
+ * checked and clipped here before going into a prompt.
+ */
+
+const MAX_DIAGNOSTICS = 10;
+const MAX_FIELD_CHARS = 300;
+const SEVERITIES = ["error", "warning"];
+
+const text = (value) =>
+  typeof value === "string" && value.trim()
+    ? value.trim().slice(0, MAX_FIELD_CHARS)
+    : undefined;
+
+const position = (value) =>
+  Number.isInteger(value) && value > 0 ? value : undefined;
+
+/**
+ * Keeps the well-formed diagnostics of a client-supplied list.
+ *
+ * @param {*} value
+ * @returns {Array<Object>} `{tool, severity, message, code?, file?, line?,
+ *   column?, hint?}`
+ */
+function normalizeDiagnostics(value) {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter((d) => d && text(d.tool) && text(d.message))
+    .slice(0, MAX_DIAGNOSTICS)
+    .map((d) => {
+      const diagnostic = {
+        tool: text(d.tool),
+        severity: SEVERITIES.includes(d.severity) ? d.severity : "error",
+        message: text(d.message),
+      };
+      for (const [key, field] of [
+        ["code", text(d.code)],
+        ["file", text(d.file)],
+        ["line", position(d.line)],
+        ["column", position(d.column)],
+        ["hint", text(d.hint)],
+      ]) {
+        if (field !== undefined) diagnostic[key] = field;
+      }
+      return diagnostic;
+    });
+}
+
+/**
+ * One line per diagnostic for a prompt:
+ * `- error [npm ERESOLVE] message (package.json:3) — hint: ...`
+ */
+function formatDiagnostics(diagnostics) {
+  return diagnostics
+    .map((d) => {
+      const source = [d.tool, d.code].filter(Boolean).join(" ");
+      const location = d.file
+        ? ` (${[d.file, d.line, d.column].filter(Boolean).join(":")})`
+        : "";
+      const hint = d.hint ? ` — hint: ${d.hint}` : "";
+      return `- ${d.severity} [${source}] ${d.message}${location}${hint}`;
+    })
+    .join("\n");
+}
+
+module.exports = { normalizeDiagnostics, formatDiagnostics };
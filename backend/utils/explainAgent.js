@@ -0,0 +1,204 @@
+/**
+ * Explain agent
+ *
+ * Explains a command or a piece of terminal output selected by the user:
+ * what each part does, what it changes, and a plain-language summary. The
+ * model replies with a JSON object matching EXPLANATION_SCHEMA; commands
+ * also get the risk analyzer's verdict so a dangerous one-liner is flagged
+ * even when the model misses it.
+ */
+
+const { extractJson } = require("./suggestionSchema");
+const { requestWithRepair } = require("./suggestionRequest");
+const { analyzeCommandRisk } = require("./commandRisk");
+
+const EXPLAIN_KINDS = ["command", "output"];
+const MAX_TEXT_CHARS = 4000;
+const MAX_PARTS = 20;
+const MAX_SIDE_EFFECTS = 10;
+
+const EXPLANATION_SCHEMA = {
+  type: "object",
+  required: ["summary", "parts", "sideEffects"],
+  properties: {
+    summary: { type: "string", minLength: 1 },
+    parts: {
+      type: "array",
+      maxItems: MAX_PARTS,
+      items: {
+        type: "object",
+        required: ["text", "explanation"],
+        properties: {
+          text: { type: "string", minLength: 1 },
+          explanation: { type: "string" },
+        },
+      },
+    },
+    sideEffects: {
+      type: "array",
+      maxItems: MAX_SIDE_EFFECTS,
+      items: { type: "string" },
+    },
+  },
+};
+
+// What `parts` and `sideEffects` hold for each kind of text
+const FIELD_MEANINGS = {
+  command: {
+    intro:
+      "Explain the following shell command to a developer who has not seen it before.",
+    parts:
+      "each program, subcommand, flag, argument, pipe and redirection in order, with text copied exactly from the command",
+    sideEffects:
+      "what running it changes: files written or deleted, network access, installed packages, processes started or killed; an empty array when it only reads",
+  },
+  output: {
+    intro:
+      "Explain the following terminal output to a developer who does not recognize it.",
+    parts:
+      "the lines or fragments that matter (error messages, failing frames, warnings, key values), with text copied exactly from the output",
+    sideEffects:
+      "what the output shows has already changed or failed (files written, packages left half-installed, processes that exited); an empty array when nothing did",
+  },
+};
+
+const isNonEmptyString = (value) =>
+  typeof value === "string" && value.trim().length > 0;
+
+/**
+ * Validates a parsed model reply against EXPLANATION_SCHEMA.
+ *
+ * @param {*} payload
+ * @returns {{errors: string[], explanation: Object|null}}
+ */
+function validateExplanation(payload) {
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return {
+      errors: [
+        "reply must be a JSON object with `summary`, `parts` and `sideEffects`",
+      ],
+      explanation: null,
+    };
+  }
+
+  const errors = [];
+  if (!isNonEmptyString(payload.summary)) {
+    errors.push("`summary` must be a non-empty string");
+  }
+
+  let parts = [];
+  if (!Array.isArray(payload.parts)) {
+    errors.push("`parts` must be an array");
+  } else {
+    parts = payload.parts.slice(0, MAX_PARTS).filter((part, i) => {
+      const valid =
+        part &&
+        isNonEmptyString(part.text) &&
+        typeof part.explanation === "string";
+      if (!valid) {
+        errors.push(
+          `parts[${i}] must have a non-empty \`text\` and an \`explanation\` string`
+        );
+      }
+      return valid;
+    });
+  }
+
+  let sideEffects = [];
+  if (!Array.isArray(payload.sideEffects)) {
+    errors.push("`sideEffects` must be an array of strings");
+  } else {
+    sideEffects = payload.sideEffects
+      .slice(0, MAX_SIDE_EFFECTS)
+      .filter(isNonEmptyString);
+  }
+
+  return {
+    errors,
+    // A summary alone is still worth showing if the rest can't be repaired
+    explanation: isNonEmptyString(payload.summary)
+      ? {
+          summary: payload.summary.trim(),
+          parts: parts.map(({ text, explanation }) => ({ text, explanation })),
+          sideEffects,
+        }
+      : null,
+  };
+}
+
+function parseExplanation(text) {
+  let payload;
+  try {
+    payload = extractJson(text);
+  } catch (err) {
+    return {
+      result: null,
+      errors: [`reply is not valid JSON: ${err.message}`],
+    };
+  }
+  const { errors, explanation } = validateExplanation(payload);
+  return { result: explanation, errors };
+}
+
+/**
+ * Explains a command or a piece of terminal output.
+ *
+ * @param {Object} request
+ * @param {string} request.text - The selected command or output
+ * @param {string} [request.kind] - "command" or "output" (default "command")
+ * @param {string} [request.shell] - Shell the text came from
+ * @param {Object} [llmOptions] - Per-request provider settings; see utils/llm
+ * @returns {Promise<Object>} `{kind, text, summary, parts, sideEffects}`,
+ *   plus `risk` ({level, reasons}) for commands
+ * @throws {Error} With `status` 400 for empty or oversized text or an
+ *   unknown kind
+ */
+async function explain({ text, kind = "command", shell } = {}, llmOptions) {
+  const body = typeof text === "string" ? text.trim() : "";
+  let problem = null;
+  if (!EXPLAIN_KINDS.includes(kind)) {
+    problem = `kind must be one of ${EXPLAIN_KINDS.join(", ")}`;
+  } else if (!body) {
+    problem = "Text to explain is required";
+  } else if (body.length > MAX_TEXT_CHARS) {
+    problem = `Text to explain is limited to ${MAX_TEXT_CHARS} characters`;
+  }
+  if (problem) {
+    const error = new Error(problem);
+    error.status = 400;
+    throw error;
+  }
+
+  const meanings = FIELD_MEANINGS[kind];
+  const prompt = `You are an AI assistant that explains terminal commands and output.
+${meanings.intro}${shell ? ` It comes from a ${shell} session.` : ""}
+
+${kind === "command" ? "Command" : "Output"}:
+${body}
+
+Respond with a single JSON object and nothing else (no markdown) matching this JSON schema:
+${JSON.stringify(EXPLANATION_SCHEMA)}
+
+Field meanings:
+- summary: two or three plain-language sentences on what it ${
+    kind === "command" ? "does" : "means and what probably caused it"
+  }
+- parts: ${meanings.parts}
+- sideEffects: ${meanings.sideEffects}`;
+
+  console.log(`🔎 Explaining ${kind}:`, body.substring(0, 100));
+
+  const explanation = await requestWithRepair(
+    prompt,
+    parseExplanation,
+    llmOptions
+  );
+  return {
+    kind,
+    text: body,
+    ...explanation,
+    ...(kind === "command" ? { risk: analyzeCommandRisk(body) } : {}),
+  };
+}
+
+module.exports = { explain, EXPLAIN_KINDS };
@@ -0,0 +1,354 @@
+/**
+ * Context collector for fix prompts
+ *
+ * Gathers what the model needs to know about the environment a command
+ * failed in: cwd, OS and shell, the version of the failing tool, the nearest
+ * package.json (scripts and lockfile type), Python project files, a git
+ * status summary and the last few commands from the session.
+ *
+ * Collection never fails: anything that can't be read is left out. The
+ * formatted context is kept under a character budget (FIX_CONTEXT_MAX_CHARS,
+ * default 2000) so it can't push the prompt past the model's limits.
+ */
+
+const { execFile } = require("child_process");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { splitCommand } = require("./rules/helpers");
+
+const DEFAULT_MAX_CHARS = 2000;
+const PROBE_TIMEOUT_MS = 2000;
+const MAX_PARENT_DIRS = 6;
+const MAX_RECENT_COMMANDS = 5;
+const MAX_SCRIPTS = 15;
+
+// Only tools known to answer a version flag without side effects are probed;
+// running an arbitrary failing program again is never safe
+const VERSION_PROBES = {
+  node: ["node", "--version"],
+  npm: ["npm", "--version"],
+  npx: ["npm", "--version"],
+  yarn: ["yarn", "--version"],
+  pnpm: ["pnpm", "--version"],
+  bun: ["bun", "--version"],
+  python: ["python", "--version"],
+  python3: ["python3", "--version"],
+  pip: ["pip", "--version"],
+  pip3: ["pip3", "--version"],
+  git: ["git", "--version"],
+  go: ["go", "version"],
+  cargo: ["cargo", "--version"],
+  rustc: ["rustc", "--version"],
+  java: ["java", "-version"],
+  ruby: ["ruby", "--version"],
+  gem: ["gem", "--version"],
+  docker: ["docker", "--version"],
+  kubectl: ["kubectl", "version", "--client"],
+  make: ["make", "--version"],
+};
+
+// Runtimes worth knowing alongside a tool that runs on them
+const RELATED_TOOLS = {
+  npm: ["node"],
+  npx: ["node"],
+  yarn: ["node"],
+  pnpm: ["node"],
+  pip: ["python3"],
+  pip3: ["python3"],
+};
+
+const LOCKFILES = {
+  "package-lock.json": "npm",
+  "yarn.lock": "yarn",
+  "pnpm-lock.yaml": "pnpm",
+  "bun.lockb": "bun",
+  "bun.lock": "bun",
+};
+
+const PYTHON_FILES = [
+  "pyproject.toml",
+  "requirements.txt",
+  "Pipfile",
+  "setup.py",
+  "poetry.lock",
+];
+
+/**
+ * Runs a probe command, resolving to its first output line or null.
+ */
+function probe(file, args, cwd) {
+  return new Promise((resolve) => {
+    execFile(
+      file,
+      args,
+      { cwd, timeout: PROBE_TIMEOUT_MS, windowsHide: true },
+      (error, stdout, stderr) => {
+        if (error) return resolve(null);
+        // Some tools (java) print their version on stderr
+        const line = `${stdout}${stderr}`.trim().split("\n")[0];
+        resolve(line ? line.trim() : null);
+      }
+    );
+  });
+}
+
+const isDirectory = (dir) => {
+  try {
+    return fs.statSync(dir).isDirectory();
+  } catch (err) {
+    return false;
+  }
+};
+
+/**
+ * Finds the nearest directory at or above `cwd` holding one of `names`.
+ */
+function findUp(cwd, names) {
+  let dir = cwd;
+  for (let i = 0; i <= MAX_PARENT_DIRS; i++) {
+    const found = names.filter((name) => fs.existsSync(path.join(dir, name)));
+    if (found.length > 0) return { dir, found };
+
+    const parent = path.dirname(dir);
+    if (parent === dir) break;
+    dir = parent;
+  }
+  return null;
+}
+
+function collectNodeProject(cwd) {
+  const hit = findUp(cwd, ["package.json"]);
+  if (!hit) return null;
+
+  const project = { dir: hit.dir };
+  try {
+    const pkg = JSON.parse(
+      fs.readFileSync(path.join(hit.dir, "package.json"), "utf8")
+    );
+    project.name = pkg.name;
+    project.scripts = Object.keys(pkg.scripts || {}).slice(0, MAX_SCRIPTS);
+    if (pkg.packageManager) project.packageManager = pkg.packageManager;
+  } catch (err) {
+    project.unreadable = true;
+  }
+
+  project.lockfiles = Object.keys(LOCKFILES)
+    .filter((name) => fs.existsSync(path.join(hit.dir, name)))
+    .map((name) => `${name} (${LOCKFILES[name]})`);
+  return project;
+}
+
+function collectPythonProject(cwd) {
+  const hit = findUp(cwd, PYTHON_FILES);
+  if (!hit) return null;
+
+  return {
+    dir: hit.dir,
+    files: hit.found,
+    virtualenv: [".venv", "venv"].find((name) =>
+      isDirectory(path.join(hit.dir, name))
+    ),
+  };
+}
+
+/**
+ * Summarizes `git status --porcelain --branch` into a single line.
+ */
+async function collectGitStatus(cwd) {
+  const output = await new Promise((resolve) => {
+    execFile(
+      "git",
+      ["status", "--porcelain=v1", "--branch"],
+      { cwd, timeout: PROBE_TIMEOUT_MS, windowsHide: true },
+      (error, stdout) => resolve(error ? null : stdout)
+    );
+  });
+  if (output === null) return null;
+
+  const [header = "", ...entries] = output.split("\n").filter(Boolean);
+  const counts = { staged: 0, modified: 0, untracked: 0, conflicted: 0 };
+  for (const entry of entries) {
+    const [x, y] = entry;
+    if (x === "?") counts.untracked += 1;
+    else if (x === "U" || y === "U") counts.conflicted += 1;
+    else {
+      if (x !== " ") counts.staged += 1;
+      if (y !== " ") counts.modified += 1;
+    }
+  }
+
+  const changes = Object.entries(counts)
+    .filter(([, count]) => count > 0)
+    .map(([kind, count]) => `${count} ${kind}`);
+
+  return `${header.replace(/^## /, "branch ")}; ${
+    changes.length > 0 ? changes.join(", ") : "clean"
+  }`;
+}
+
+async function collectToolVersions(command, cwd) {
+  const [tool] = splitCommand(command || "").filter(
+    (word) => word !== "sudo" && !/^\w+=/.test(word)
+  );
+  if (!tool) return {};
+
+  const name = path.basename(tool);
+  const tools = [name, ...(RELATED_TOOLS[name] || [])].filter(
+    (candidate) => VERSION_PROBES[candidate]
+  );
+
+  const versions = {};
+  await Promise.all(
+    tools.map(async (candidate) => {
+      const [file, ...args] = VERSION_PROBES[candidate];
+      versions[candidate] = (await probe(file, args, cwd)) || "not found";
+    })
+  );
+  return versions;
+}
+
+/**
+ * Gathers the environment around a failed command.
+ *
+ * @param {Object} failure
+ * @param {string} failure.command - The command that failed
+ * @param {string} [failure.cwd] - Directory it ran in
+ * @param {string} [failure.shell] - Shell it ran in
+ * @param {string[]} [failure.recentCommands] - Commands run before it in the
+ *   same session, oldest first
+ * @returns {Promise<Object>} The collected context
+ */
+async function collectFixContext({ command, cwd, shell, recentCommands }) {
+  const context = {
+    cwd,
+    os: `${os.type()} ${os.release()} (${process.platform}/${os.arch()})`,
+    shell,
+    recentCommands: (Array.isArray(recentCommands) ? recentCommands : [])
+      .filter((entry) => typeof entry === "string" && entry.trim())
+      .slice(-MAX_RECENT_COMMANDS),
+  };
+
+  // Project files and git state only mean something in a real directory
+  const dir = cwd && path.isAbsolute(cwd) && isDirectory(cwd) ? cwd : null;
+
+  const [toolVersions, git] = await Promise.all([
+    collectToolVersions(command, dir || undefined).catch(() => ({})),
+    dir ? collectGitStatus(dir).catch(() => null) : null,
+  ]);
+
+  context.toolVersions = toolVersions;
+  context.git = git;
+  if (dir) {
+    context.node = collectNodeProject(dir);
+    context.python = collectPythonProject(dir);
+  }
+
+  // The version of the interpreter a Python project runs on
+  if (context.python && !toolVersions.python3) {
+    const [file, ...args] = VERSION_PROBES.python3;
+    toolVersions.python3 = (await probe(file, args, dir)) || "not found";
+  }
+
+  return context;
+}
+
+const clip = (text, max) =>
+  text.length > max ? `${text.slice(0, Math.max(0, max - 1))}…` : text;
+
+/**
+ * Renders collected context as prompt lines, most useful first, dropping
+ * whole sections once the budget is spent.
+ *
+ * @param {Object} context - From collectFixContext
+ * @param {number} [maxChars] - Budget for the whole block
+ * @returns {string}
+ */
+function formatFixContext(context, maxChars) {
+  const budget =
+    maxChars || Number(process.env.FIX_CONTEXT_MAX_CHARS) || DEFAULT_MAX_CHARS;
+  const sections = [];
+
+  if (context.cwd) sections.push(`Working directory: ${context.cwd}`);
+  sections.push(`OS: ${context.os}`);
+  if (context.shell) sections.push(`Shell: ${context.shell}`);
+
+  const versions = Object.entries(context.toolVersions || {});
+  if (versions.length > 0) {
+    sections.push(
+      `Tool versions: ${versions
+        .map(([tool, version]) => `${tool} ${version}`)
+        .join("; ")}`
+    );
+  }
+
+  if (context.node) {
+    const { dir, name, scripts = [], lockfiles, packageManager } = context.node;
+    sections.push(
+      [
+        `package.json: ${path.join(dir, "package.json")}${
+          name ? ` (${name})` : ""
+        }`,
+        `  scripts: ${scripts.length > 0 ? scripts.join(", ") : "none"}`,
+        `  lockfile: ${lockfiles.length > 0 ? lockfiles.join(", ") : "none"}`,
+        ...(packageManager ? [`  packageManager: ${packageManager}`] : []),
+      ].join("\n")
+    );
+  }
+
+  if (context.python) {
+    sections.push(
+      `Python project files in ${
+        context.python.dir
+      }: ${context.python.files.join(", ")}${
+        context.python.virtualenv
+          ? `; virtualenv ${context.python.virtualenv}/`
+          : "; no virtualenv found"
+      }`
+    );
+  }
+
+  if (context.git) sections.push(`Git: ${context.git}`);
+
+  if (context.recentCommands && context.recentCommands.length > 0) {
+    sections.push(
+      `Recent commands in this session (oldest first):\n${context.recentCommands
+        .map((entry) => `  ${clip(entry, 200)}`)
+        .join("\n")}`
+    );
+  }
+
+  const lines = [];
+  let used = 0;
+  for (const section of sections) {
+    const text = clip(section, budget);
+    if (used + text.length + 1 > budget) continue;
+    lines.push(text);
+    used += text.length + 1;
+  }
+  return lines.join("\n");
+}
+
+/**
+ * The parts of the context a suggestion depends on, leaving out what changes
+ * from one command to the next (git state, recent commands), for use in
+ * cache keys.
+ */
+function fixContextFingerprint(context) {
+  return {
+    cwd: context.cwd || null,
+    os: context.os,
+    shell: context.shell || null,
+    toolVersions: context.toolVersions || {},
+    scripts: context.node ? context.node.scripts || [] : null,
+    lockfiles: context.node ? context.node.lockfiles : null,
+    python: context.python ? context.python.files : null,
+  };
+}
+
+module.exports = {
+  collectFixContext,
+  formatFixContext,
+  fixContextFingerprint,
+  findUp,
+};
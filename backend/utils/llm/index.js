@@ -0,0 +1,175 @@
+/**
+ * LLM provider layer
+ *
+ * Everything that talks to a language model goes through `complete()`, which
+ * picks a provider and its settings from the environment, optionally
+ * overridden per request:
+ *
+ *  - LLM_PROVIDER     "openrouter" (default), "openai" or "mock"
+ *  - LLM_MODEL        model name (provider-specific default otherwise)
+ *  - LLM_TEMPERATURE  sampling temperature (default 0.2)
+ *  - LLM_MAX_TOKENS   completion length limit (default 800)
+ *  - LLM_TIMEOUT_MS   request timeout (default 15000); a streamed reply
+ *                     only times out when no data arrives for that long
+ *
+ * Provider credentials: OPENROUTER_API_KEY for OpenRouter; OPENAI_BASE_URL
+ * and optionally OPENAI_API_KEY for any OpenAI-compatible server (use e.g.
+ * http://localhost:11434/v1 for a local Ollama); LLM_MOCK_FIXTURES for the
+ * mock provider's fixtures file.
+ */
+
+const { createOpenAICompatibleProvider } = require("./openAICompatible");
+const { createMockProvider } = require("./mockProvider");
+
+const DEFAULT_PROVIDER = "openrouter";
+const DEFAULT_TEMPERATURE = 0.2;
+const DEFAULT_MAX_TOKENS = 800;
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// Upper bounds for per-request overrides
+const MAX_TOKENS_LIMIT = 4096;
+const MAX_TIMEOUT_MS = 120000;
+
+// Providers are built on use so changes to the environment take effect
+const PROVIDERS = {
+  openrouter: () =>
+    createOpenAICompatibleProvider({
+      name: "openrouter",
+      baseUrl: "https://openrouter.ai/api/v1",
+      apiKey: process.env.OPENROUTER_API_KEY,
+      requiresApiKey: true,
+      defaultModel: "anthropic/claude-3.5-sonnet",
+    }),
+  openai: () =>
+    createOpenAICompatibleProvider({
+      name: "openai",
+      baseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+      apiKey: process.env.OPENAI_API_KEY,
+      defaultModel: process.env.OPENAI_MODEL,
+    }),
+  mock: () =>
+    createMockProvider({ fixturesPath: process.env.LLM_MOCK_FIXTURES }),
+};
+
+const toNumber = (value) =>
+  value === undefined || value === null || value === ""
+    ? undefined
+    : Number(value);
+
+const clamp = (value, min, max) => Math.min(Math.max(value, min), max);
+
+/**
+ * Merges per-request overrides into the configured defaults.
+ *
+ * @param {Object} [overrides] - provider, model, temperature, maxTokens,
+ *   timeoutMs and apiKey; anything missing or invalid falls back to config
+ * @returns {Object} The resolved options
+ * @throws {Error} With `status` 400 for an unknown provider
+ */
+function resolveLLMOptions(overrides = {}) {
+  const provider = (
+    overrides.provider ||
+    process.env.LLM_PROVIDER ||
+    DEFAULT_PROVIDER
+  ).toLowerCase();
+
+  if (!PROVIDERS[provider]) {
+    const error = new Error(
+      `Unknown LLM provider "${provider}". Available: ${Object.keys(
+        PROVIDERS
+      ).join(", ")}`
+    );
+    error.status = 400;
+    throw error;
+  }
+
+  const pick = (value, fallback) =>
+    Number.isFinite(toNumber(value)) ? toNumber(value) : fallback;
+
+  // Only use the configured model for the configured provider; a request
+  // switching providers gets that provider's default
+  const configuredModel =
+    provider === (process.env.LLM_PROVIDER || DEFAULT_PROVIDER).toLowerCase()
+      ? process.env.LLM_MODEL
+      : undefined;
+
+  return {
+    provider,
+    model: overrides.model || configuredModel || undefined,
+    temperature: clamp(
+      pick(
+        overrides.temperature,
+        pick(process.env.LLM_TEMPERATURE, DEFAULT_TEMPERATURE)
+      ),
+      0,
+      2
+    ),
+    maxTokens: clamp(
+      Math.round(
+        pick(
+          overrides.maxTokens,
+          pick(process.env.LLM_MAX_TOKENS, DEFAULT_MAX_TOKENS)
+        )
+      ),
+      1,
+      MAX_TOKENS_LIMIT
+    ),
+    timeoutMs: clamp(
+      pick(
+        overrides.timeoutMs,
+        pick(process.env.LLM_TIMEOUT_MS, DEFAULT_TIMEOUT_MS)
+      ),
+      1000,
+      MAX_TIMEOUT_MS
+    ),
+    apiKey: overrides.apiKey || undefined,
+  };
+}
+
+/**
+ * Sends a chat completion request to the selected provider.
+ *
+ * @param {Array<{role: string, content: string}>} messages
+ * @param {Object} [overrides] - Per-request options, see resolveLLMOptions
+ * @param {Object} [stream]
+ * @param {Function} [stream.onToken] - Called with each piece of the reply
+ *   as the provider streams it; without it the reply arrives all at once
+ * @param {AbortSignal} [stream.signal] - Cancels the request
+ * @returns {Promise<{text: string, model: string, provider: string, usage: Object, raw: Object}>}
+ * @throws {Error} With `cancelled` set when the signal aborted the request
+ */
+async function complete(messages, overrides = {}, stream = {}) {
+  const options = resolveLLMOptions(overrides);
+  const provider = PROVIDERS[options.provider]();
+
+  console.log(
+    `🤖 LLM request via ${provider.name}${
+      options.model ? ` (${options.model})` : ""
+    }${stream.onToken ? " (streaming)" : ""}`
+  );
+  try {
+    const result = await provider.complete(messages, options, stream);
+    return { ...result, provider: provider.name };
+  } catch (error) {
+    if (stream.signal && stream.signal.aborted) {
+      const cancelled = new Error("Request cancelled");
+      cancelled.cancelled = true;
+      throw cancelled;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Names of the available providers and the configured default.
+ */
+function listProviders() {
+  return {
+    defaultProvider: (
+      process.env.LLM_PROVIDER || DEFAULT_PROVIDER
+    ).toLowerCase(),
+    providers: Object.keys(PROVIDERS),
+  };
+}
+
+module.exports = { complete, resolveLLMOptions, listProviders };
@@ -0,0 +1,92 @@
+/**
+ * Deterministic offline provider backed by canned responses, for local
+ * development without an API key and for tests.
+ *
+ * Fixtures are read from LLM_MOCK_FIXTURES (or the bundled
+ * fixtures/mock-responses.json) and matched in order against the last user
+ * message; the first fixture whose `match` regex hits supplies the response.
+ * A response may be a string or a JSON value, which is sent serialized.
+ * Streamed requests get the response in small pieces, one every
+ * LLM_MOCK_STREAM_DELAY_MS (default 15ms).
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+const DEFAULT_FIXTURES_PATH = path.join(
+  __dirname,
+  "fixtures",
+  "mock-responses.json"
+);
+
+const STREAM_CHUNK_CHARS = 12;
+const DEFAULT_STREAM_DELAY_MS = 15;
+
+const toText = (response) =>
+  typeof response === "string" ? response : JSON.stringify(response, null, 2);
+
+function loadFixtures(fixturesPath) {
+  const raw = JSON.parse(fs.readFileSync(fixturesPath, "utf8"));
+  return {
+    responses: (raw.responses || []).map((fixture) => ({
+      pattern: new RegExp(fixture.match, "i"),
+      response: toText(fixture.response),
+    })),
+    fallback: toText(raw.default || ""),
+  };
+}
+
+/**
+ * @param {Object} [config]
+ * @param {string} [config.fixturesPath] - JSON fixtures file
+ * @returns {{name: string, complete: Function}}
+ */
+function createMockProvider(config = {}) {
+  const fixturesPath = config.fixturesPath || DEFAULT_FIXTURES_PATH;
+
+  async function complete(messages, options = {}, stream = {}) {
+    // Re-read on every call so fixtures can be edited without a restart
+    const fixtures = loadFixtures(fixturesPath);
+    const prompt =
+      [...messages].reverse().find((m) => m.role === "user")?.content || "";
+
+    const match = fixtures.responses.find((f) => f.pattern.test(prompt));
+    const text = match ? match.response : fixtures.fallback;
+    const model = options.model || "mock";
+
+    if (typeof stream.onToken === "function") {
+      const delay =
+        Number(process.env.LLM_MOCK_STREAM_DELAY_MS) || DEFAULT_STREAM_DELAY_MS;
+      for (let i = 0; i < text.length; i += STREAM_CHUNK_CHARS) {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        if (stream.signal && stream.signal.aborted) {
+          throw new Error("Request cancelled");
+        }
+        stream.onToken(text.slice(i, i + STREAM_CHUNK_CHARS));
+      }
+    }
+
+    return {
+      text,
+      model,
+      usage: null,
+      // Shaped like a chat completion so proxy clients can't tell the difference
+      raw: {
+        id: "mock-completion",
+        object: "chat.completion",
+        model,
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content: text },
+            finish_reason: "stop",
+          },
+        ],
+      },
+    };
+  }
+
+  return { name: "mock", complete };
+}
+
+module.exports = { createMockProvider };
@@ -0,0 +1,165 @@
+/**
+ * Provider for any server speaking the OpenAI chat completions API, which
+ * covers OpenAI itself as well as local servers such as llama.cpp or Ollama.
+ */
+
+const axios = require("axios");
+
+/**
+ * Reads a streamed completion (server-sent events of chat.completion.chunk
+ * objects), passing each piece of text to `onToken` as it arrives.
+ *
+ * @returns {Promise<{text: string, model: string, usage: Object}>}
+ */
+async function readCompletionStream(stream, onToken) {
+  let text = "";
+  let model;
+  let usage = null;
+  let buffer = "";
+
+  const handleLine = (line) => {
+    const trimmed = line.trim();
+    // Blank lines separate events; lines starting with ":" are keep-alives
+    if (!trimmed.startsWith("data:")) return;
+    const data = trimmed.slice(5).trim();
+    if (data === "[DONE]") return;
+
+    let event;
+    try {
+      event = JSON.parse(data);
+    } catch (err) {
+      console.warn("Skipping unparseable stream event:", data.slice(0, 100));
+      return;
+    }
+    if (event.error) {
+      throw new Error(event.error.message || "Provider stream failed");
+    }
+
+    const delta = event.choices?.[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      onToken(delta);
+    }
+    model = event.model || model;
+    usage = event.usage || usage;
+  };
+
+  stream.setEncoding("utf8");
+  for await (const chunk of stream) {
+    buffer += chunk;
+    const lines = buffer.split("\n");
+    buffer = lines.pop();
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+
+  return { text, model, usage };
+}
+
+/**
+ * Creates a chat completions provider for the given base URL.
+ *
+ * @param {Object} config
+ * @param {string} config.name - Provider name used in logs and errors
+ * @param {string} config.baseUrl - API root, e.g. "http://localhost:11434/v1"
+ * @param {string} [config.apiKey] - Bearer token; local servers often need none
+ * @param {boolean} [config.requiresApiKey] - Fail early when no key is set
+ * @param {string} [config.defaultModel] - Model used when none is requested
+ * @param {Object} [config.headers] - Extra request headers
+ * @returns {{name: string, complete: Function}}
+ */
+function createOpenAICompatibleProvider(config) {
+  const {
+    name,
+    baseUrl,
+    requiresApiKey = false,
+    defaultModel,
+    headers,
+  } = config;
+
+  /**
+   * @param {Array<{role: string, content: string}>} messages
+   * @param {Object} options - model, temperature, maxTokens, timeoutMs, apiKey
+   * @param {Object} [stream] - onToken(text) to stream the reply as it is
+   *   written; signal (an AbortSignal) to cancel the request
+   * @returns {Promise<{text: string, model: string, usage: Object, raw: Object}>}
+   */
+  async function complete(messages, options = {}, stream = {}) {
+    const apiKey = options.apiKey || config.apiKey;
+    const model = options.model || defaultModel;
+
+    if (!baseUrl) {
+      throw new Error(`No base URL configured for the ${name} provider`);
+    }
+    if (requiresApiKey && !apiKey) {
+      throw new Error(
+        `API key not found for the ${name} provider. Please configure the API key in your environment.`
+      );
+    }
+    if (!model) {
+      throw new Error(`No model configured for the ${name} provider`);
+    }
+
+    const streaming = typeof stream.onToken === "function";
+    const response = await axios.post(
+      `${baseUrl.replace(/\/+$/, "")}/chat/completions`,
+      {
+        model,
+        messages,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        ...(streaming ? { stream: true } : {}),
+      },
+      {
+        headers: {
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          "Content-Type": "application/json",
+          ...headers,
+        },
+        timeout: options.timeoutMs,
+        signal: stream.signal,
+        ...(streaming ? { responseType: "stream" } : {}),
+      }
+    );
+
+    if (streaming) {
+      const result = await readCompletionStream(response.data, stream.onToken);
+      const text = result.text.trim();
+      return {
+        text,
+        model: result.model || model,
+        usage: result.usage,
+        // Shaped like a non-streamed completion for callers that want one
+        raw: {
+          object: "chat.completion",
+          model: result.model || model,
+          choices: [
+            {
+              index: 0,
+              message: { role: "assistant", content: text },
+              finish_reason: "stop",
+            },
+          ],
+          usage: result.usage,
+        },
+      };
+    }
+
+    const choice = response.data?.choices?.[0];
+    if (!choice || !choice.message) {
+      console.error("Invalid API response format:", response.data);
+      throw new Error("Invalid API response format");
+    }
+
+    return {
+      text: (choice.message.content || "").trim(),
+      model: response.data.model || model,
+      usage: response.data.usage || null,
+      raw: response.data,
+    };
+  }
+
+  return { name, complete };
+}
+
+module.exports = { createOpenAICompatibleProvider };
@@ -0,0 +1,79 @@
+/**
+ * Natural-language command agent
+ *
+ * Turns a request typed in the chat panel ("find all files over 100MB
+ * changed this week") into candidate shell commands for the session it was
+ * asked from, in the same suggestion format as the command fixer.
+ */
+
+const { collectFixContext, formatFixContext } = require("./fixContext");
+const { responseFormat, requestSuggestions } = require("./suggestionRequest");
+const { withRisk } = require("./commandRisk");
+
+const MAX_REQUEST_CHARS = 1000;
+
+const RESPONSE_FORMAT = `${responseFormat({
+  confidence: "how likely it is to do what the user asked",
+  addresses: "the part of the request this command covers",
+})}
+
+Order suggestions from best to worst match. Prefer a single command; only use steps when the task needs several. If the request cannot be done with a shell command, respond with {"suggestions": []}.`;
+
+/**
+ * Suggests commands for a natural-language request.
+ *
+ * @param {string} request - What the user asked for
+ * @param {Object} [session] - Where the commands would run
+ * @param {string} [session.cwd] - The session's current directory
+ * @param {string} [session.shell] - The session's shell
+ * @param {Array} [session.history] - Earlier messages of the session's
+ *   conversation, see utils/conversationStore
+ * @param {Object} [llmOptions] - Per-request provider settings; see utils/llm
+ * @returns {Promise<{suggestions: Array}>} Suggestions with the risk
+ *   analyzer's verdict attached
+ * @throws {Error} With `status` 400 for an empty or oversized request
+ */
+async function suggestCommandsForRequest(request, session = {}, llmOptions) {
+  const text = typeof request === "string" ? request.trim() : "";
+  if (!text || text.length > MAX_REQUEST_CHARS) {
+    const error = new Error(
+      text
+        ? `Requests are limited to ${MAX_REQUEST_CHARS} characters`
+        : "Request is required"
+    );
+    error.status = 400;
+    throw error;
+  }
+
+  const context = await collectFixContext({
+    command: "",
+    cwd: session.cwd,
+    shell: session.shell,
+  });
+
+  const prompt = `You are an AI assistant that turns natural-language requests into terminal commands.
+Suggest commands that do what the user asks, written for their shell and operating system.
+
+User request: ${text}
+
+Environment:
+${formatFixContext(context)}
+
+${RESPONSE_FORMAT}`;
+
+  console.log("💬 Natural-language command request:", {
+    request: text.substring(0, 100),
+    cwd: session.cwd,
+    shell: session.shell,
+  });
+
+  const suggestions = await requestSuggestions(
+    prompt,
+    llmOptions,
+    {},
+    session.history
+  );
+  return { suggestions: suggestions.map(withRisk) };
+}
+
+module.exports = { suggestCommandsForRequest };
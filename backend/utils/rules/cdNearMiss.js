@@ -0,0 +1,107 @@
+/**
+ * `cd` into a directory that doesn't exist: find the closest existing
+ * directory, component by component (`cd src/compnents` → `cd src/components`).
+ */
+
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { closestMatches, quoteWord } = require("./helpers");
+
+const MISSING_DIRECTORY =
+  /no such file or directory|does not exist|can't cd|not a directory/i;
+
+const isDirectory = (dir) => {
+  try {
+    return fs.statSync(dir).isDirectory();
+  } catch (err) {
+    return false;
+  }
+};
+
+const subdirectories = (dir) => {
+  try {
+    return fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter(
+        (entry) =>
+          entry.isDirectory() ||
+          (entry.isSymbolicLink() && isDirectory(path.join(dir, entry.name)))
+      )
+      .map((entry) => entry.name);
+  } catch (err) {
+    return [];
+  }
+};
+
+/**
+ * Resolves `target` against `cwd`, correcting each missing component to its
+ * closest sibling. Returns null when some component has no close match.
+ */
+function correctPath(target, cwd) {
+  const home = os.homedir();
+  const expanded = target.replace(/^~(?=$|\/)/, home);
+  let current = path.isAbsolute(expanded) ? path.parse(expanded).root : cwd;
+
+  for (const part of expanded.split(/[\\/]+/).filter(Boolean)) {
+    if (part === "." || part === "..") {
+      current = path.resolve(current, part);
+      continue;
+    }
+
+    if (isDirectory(path.join(current, part))) {
+      current = path.join(current, part);
+      continue;
+    }
+
+    const siblings = subdirectories(current);
+    const match =
+      siblings.find((name) => name.toLowerCase() === part.toLowerCase()) ||
+      closestMatches(part, siblings, 1)[0];
+    if (!match) return null;
+    current = path.join(current, match);
+  }
+
+  return current;
+}
+
+// Show the corrected path the way the user wrote theirs
+function displayPath(corrected, target, cwd) {
+  const home = os.homedir();
+  if (target.startsWith("~") && corrected.startsWith(home)) {
+    return `~${corrected.slice(home.length)}`;
+  }
+  if (path.isAbsolute(target)) return corrected;
+  return path.relative(cwd, corrected) || ".";
+}
+
+module.exports = {
+  name: "cd-near-miss",
+
+  match: ({ words, output, cwd }) =>
+    words[0] === "cd" &&
+    words.length === 2 &&
+    Boolean(cwd) &&
+    MISSING_DIRECTORY.test(output),
+
+  suggest: ({ words, cwd }) => {
+    const target = words[1];
+    const suggestions = [];
+    const corrected = correctPath(target, cwd);
+
+    if (corrected && corrected !== path.resolve(cwd, target)) {
+      const shown = displayPath(corrected, target, cwd);
+      suggestions.push({
+        command: `cd ${quoteWord(shown)}`,
+        description: `Did you mean ${shown}?`,
+      });
+    }
+
+    suggestions.push({
+      command: `mkdir -p ${quoteWord(target)} && cd ${quoteWord(target)}`,
+      description: "Create the directory and change into it",
+    });
+
+    return suggestions;
+  },
+};
@@ -0,0 +1,58 @@
+/**
+ * Follows git's own advice: "The most similar command is ..." for mistyped
+ * subcommands, and the commands git prints in hints such as
+ * `git push --set-upstream origin main`.
+ */
+
+const { replaceWord } = require("./helpers");
+
+// Subcommands listed after git's "did you mean" heading, one per line
+function similarCommands(output) {
+  const heading = output.match(
+    /(?:The most similar commands? (?:is|are)|Did you mean (?:this|one of these)\?)\s*\n/
+  );
+  if (!heading) return [];
+
+  const rest = output.slice(heading.index + heading[0].length).split("\n");
+  const commands = [];
+  for (const line of rest) {
+    const match = line.match(/^\s+(\S+)\s*$/);
+    if (!match) break;
+    commands.push(match[1]);
+  }
+  return commands;
+}
+
+// Indented `git ...` lines git prints as advice
+const hintedCommands = (output) =>
+  [...output.matchAll(/^\s{2,}(git [^\n]+?)\s*$/gm)].map((m) => m[1]);
+
+module.exports = {
+  name: "git-did-you-mean",
+
+  match: ({ words, output }) =>
+    words[0] === "git" &&
+    (/is not a git command/.test(output) || hintedCommands(output).length > 0),
+
+  suggest: ({ command, words, output }) => {
+    const suggestions = [];
+
+    if (words[1]) {
+      for (const subcommand of similarCommands(output)) {
+        suggestions.push({
+          command: replaceWord(command, words[1], subcommand),
+          description: `git suggests "${subcommand}"`,
+        });
+      }
+    }
+
+    for (const hint of hintedCommands(output)) {
+      suggestions.push({
+        command: hint,
+        description: "Suggested by git",
+      });
+    }
+
+    return suggestions;
+  },
+};
@@ -0,0 +1,155 @@
+/**
+ * Shared helpers for the command fixer rules.
+ */
+
+const fs = require("fs");
+const path = require("path");
+
+/**
+ * Edit distance between two strings (insertions, deletions, substitutions
+ * and transpositions of adjacent characters).
+ */
+function editDistance(a, b) {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d = Array.from({ length: rows }, () => new Array(cols).fill(0));
+
+  for (let i = 0; i < rows; i++) d[i][0] = i;
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[rows - 1][cols - 1];
+}
+
+/**
+ * Candidates close to `word`, best first. Short words tolerate fewer edits
+ * so `ls` doesn't "correct" to every two-letter command.
+ *
+ * @param {string} word
+ * @param {Iterable<string>} candidates
+ * @param {number} [limit] - Maximum number of matches
+ * @returns {string[]}
+ */
+function closestMatches(word, candidates, limit = 3) {
+  const maxDistance = word.length <= 4 ? 1 : word.length <= 8 ? 2 : 3;
+  const scored = [];
+
+  for (const candidate of candidates) {
+    if (candidate === word) continue;
+    if (Math.abs(candidate.length - word.length) > maxDistance) continue;
+    const distance = editDistance(word.toLowerCase(), candidate.toLowerCase());
+    if (distance <= maxDistance) scored.push({ candidate, distance });
+  }
+
+  return scored
+    .sort(
+      (x, y) =>
+        x.distance - y.distance || x.candidate.localeCompare(y.candidate)
+    )
+    .slice(0, limit)
+    .map((s) => s.candidate);
+}
+
+// Executables on PATH, cached briefly since scanning PATH is not free
+const PATH_CACHE_TTL_MS = 60 * 1000;
+let pathCache = { key: null, at: 0, names: new Set() };
+
+/**
+ * Names of the executables found on PATH.
+ *
+ * @returns {Set<string>}
+ */
+function listPathExecutables() {
+  const key = process.env.PATH || "";
+  if (pathCache.key === key && Date.now() - pathCache.at < PATH_CACHE_TTL_MS) {
+    return pathCache.names;
+  }
+
+  const names = new Set();
+  for (const dir of key.split(path.delimiter)) {
+    if (!dir) continue;
+    let entries;
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch (err) {
+      continue;
+    }
+    for (const entry of entries) {
+      if (entry.isFile() || entry.isSymbolicLink()) names.add(entry.name);
+    }
+  }
+
+  pathCache = { key, at: Date.now(), names };
+  return names;
+}
+
+const isOnPath = (name) => listPathExecutables().has(name);
+
+/**
+ * Splits a command line into words, honouring simple quoting. Good enough
+ * for rewriting commands, not a full shell parser.
+ */
+function splitCommand(command) {
+  const words = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let match;
+  while ((match = pattern.exec(command)) !== null) {
+    words.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return words;
+}
+
+/**
+ * Quotes a word for the shell when it needs it.
+ */
+const quoteWord = (word) =>
+  /^[\w@%+=:,./~-]+$/.test(word) ? word : `'${word.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Replaces the first occurrence of `from` as a whole word in a command.
+ */
+function replaceWord(command, from, to) {
+  const escaped = from.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return command.replace(new RegExp(`(^|\\s)${escaped}(?=\\s|$)`), `$1${to}`);
+}
+
+/**
+ * The command that was not found, if the output says so. Covers bash, zsh,
+ * fish and POSIX sh wording.
+ */
+function notFoundCommand(output) {
+  const patterns = [
+    /command not found: (\S+)/,
+    /(?:^|\n)(?:-?\w+: )?(?:line \d+: )?([^\s:]+): command not found/,
+    /Unknown command:? '?([^\s']+)'?/,
+    /(?:^|\n)\w+: \d+: ([^\s:]+): not found/,
+  ];
+  for (const pattern of patterns) {
+    const match = output.match(pattern);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+module.exports = {
+  editDistance,
+  closestMatches,
+  listPathExecutables,
+  isOnPath,
+  splitCommand,
+  quoteWord,
+  replaceWord,
+  notFoundCommand,
+};
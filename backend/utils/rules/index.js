@@ -0,0 +1,78 @@
+/**
+ * Offline command fixer rules
+ *
+ * A small rules engine in the spirit of thefuck that handles the common,
+ * mechanical failures locally: typos of installed commands, missing tools,
+ * git's own "did you mean", wrong version flags, missing sudo and `cd` to a
+ * near-miss directory. The LLM is only consulted when no rule matches or the
+ * user asks for more suggestions.
+ *
+ * Each rule exports `{name, match(ctx), suggest(ctx)}` where ctx holds the
+ * command, its words, output, exit code, cwd and shell.
+ */
+
+const { splitCommand } = require("./helpers");
+
+const RULES = [
+  require("./versionFlag"),
+  require("./gitDidYouMean"),
+  require("./cdNearMiss"),
+  require("./packageHint"),
+  require("./pathTypo"),
+  require("./missingSudo"),
+];
+
+const MAX_RULE_SUGGESTIONS = 5;
+
+/**
+ * Runs every rule against a failed command.
+ *
+ * @param {Object} failure
+ * @param {string} failure.command - The command as the user typed it
+ * @param {string} failure.output - Its (error) output
+ * @param {number} failure.exitCode - Its exit status
+ * @param {string} [failure.cwd] - Directory it ran in
+ * @param {string} [failure.shell] - Shell it ran in
+ * @returns {Array<{command: string, description: string, source: string, rule: string}>}
+ */
+function runRules({ command, output = "", exitCode, cwd, shell }) {
+  const trimmed = (command || "").trim();
+  if (!trimmed) return [];
+
+  const ctx = {
+    command: trimmed,
+    words: splitCommand(trimmed),
+    output,
+    exitCode,
+    cwd,
+    shell,
+  };
+
+  const seen = new Set([trimmed]);
+  const suggestions = [];
+
+  for (const rule of RULES) {
+    try {
+      if (!rule.match(ctx)) continue;
+
+      for (const suggestion of rule.suggest(ctx)) {
+        if (seen.has(suggestion.command)) continue;
+        seen.add(suggestion.command);
+        suggestions.push({ ...suggestion, source: "rule", rule: rule.name });
+      }
+    } catch (err) {
+      console.error(`Rule ${rule.name} failed:`, err.message);
+    }
+  }
+
+  if (suggestions.length > 0) {
+    console.log(
+      `📏 Rules matched: ${[...new Set(suggestions.map((s) => s.rule))].join(
+        ", "
+      )}`
+    );
+  }
+  return suggestions.slice(0, MAX_RULE_SUGGESTIONS);
+}
+
+module.exports = { runRules };
@@ -0,0 +1,46 @@
+/**
+ * Commands that failed for lack of privileges: suggest the same command
+ * with sudo.
+ */
+
+const { quoteWord } = require("./helpers");
+
+const PERMISSION_ERRORS = [
+  /permission denied/i,
+  /\bEACCES\b/,
+  /operation not permitted/i,
+  /must be (run as )?root/i,
+  /are you root\?/i,
+  /you need to be root/i,
+  /requires? (root|superuser|administrator) privileges/i,
+  /only root can/i,
+  /insufficient privileges/i,
+];
+
+// Shells without sudo, and builtins sudo can't run
+const UNSUPPORTED_SHELLS = ["powershell", "pwsh", "cmd"];
+const BUILTINS = ["cd", "export", "source", "alias", "unset"];
+
+module.exports = {
+  name: "missing-sudo",
+
+  match: ({ words, output, exitCode, shell }) =>
+    process.platform !== "win32" &&
+    !UNSUPPORTED_SHELLS.includes(shell) &&
+    exitCode !== 0 &&
+    words.length > 0 &&
+    words[0] !== "sudo" &&
+    !BUILTINS.includes(words[0]) &&
+    PERMISSION_ERRORS.some((pattern) => pattern.test(output)),
+
+  // A compound command runs whole under sudo; single quotes keep the user's
+  // shell from expanding $(...), backticks and variables before sudo runs
+  suggest: ({ command }) => [
+    {
+      command: /&&|\|\||;|\|/.test(command)
+        ? `sudo sh -c ${quoteWord(command)}`
+        : `sudo ${command}`,
+      description: "Run it again with administrator privileges",
+    },
+  ],
+};
@@ -0,0 +1,121 @@
+/**
+ * "command not found" for a well-known tool that isn't installed: suggest
+ * installing it with the system package manager, npm or pip.
+ */
+
+const { isOnPath, notFoundCommand } = require("./helpers");
+
+// Command → package name, where the two differ per package manager
+const SYSTEM_PACKAGES = {
+  node: { default: "nodejs", brew: "node" },
+  npm: { default: "npm", brew: "node" },
+  npx: { default: "npm", brew: "node" },
+  python: { default: "python3", brew: "python" },
+  python3: { default: "python3", brew: "python" },
+  pip: { default: "python3-pip", brew: "python", dnf: "python3-pip" },
+  pip3: { default: "python3-pip", brew: "python", dnf: "python3-pip" },
+  git: { default: "git" },
+  curl: { default: "curl" },
+  wget: { default: "wget" },
+  jq: { default: "jq" },
+  make: { default: "make" },
+  gcc: { default: "gcc" },
+  go: { default: "golang", brew: "go", pacman: "go", apk: "go" },
+  tree: { default: "tree" },
+  htop: { default: "htop" },
+  rg: { default: "ripgrep" },
+  fd: { default: "fd-find", brew: "fd", pacman: "fd", apk: "fd" },
+  bat: { default: "bat" },
+  tmux: { default: "tmux" },
+  unzip: { default: "unzip" },
+  docker: { default: "docker.io", brew: "--cask docker", dnf: "docker" },
+};
+
+// Tools normally installed globally with npm (command → package)
+const NPM_TOOLS = {
+  tsc: "typescript",
+  "ts-node": "ts-node",
+  yarn: "yarn",
+  pnpm: "pnpm",
+  nodemon: "nodemon",
+  eslint: "eslint",
+  prettier: "prettier",
+  vercel: "vercel",
+};
+
+// Tools normally installed with pip (command → package)
+const PIP_TOOLS = {
+  black: "black",
+  flake8: "flake8",
+  pytest: "pytest",
+  poetry: "poetry",
+  http: "httpie",
+  ipython: "ipython",
+  jupyter: "jupyter",
+};
+
+const PACKAGE_MANAGERS = [
+  { id: "brew", binary: "brew", install: (pkg) => `brew install ${pkg}` },
+  { id: "apt", binary: "apt-get", install: (pkg) => `sudo apt install ${pkg}` },
+  { id: "dnf", binary: "dnf", install: (pkg) => `sudo dnf install ${pkg}` },
+  {
+    id: "pacman",
+    binary: "pacman",
+    install: (pkg) => `sudo pacman -S ${pkg}`,
+  },
+  { id: "apk", binary: "apk", install: (pkg) => `sudo apk add ${pkg}` },
+];
+
+const systemPackageManager = () =>
+  PACKAGE_MANAGERS.find((manager) => isOnPath(manager.binary));
+
+module.exports = {
+  name: "package-hint",
+
+  match: ({ words, output }) => {
+    const missing = notFoundCommand(output);
+    return (
+      missing === words[0] &&
+      Boolean(
+        SYSTEM_PACKAGES[missing] || NPM_TOOLS[missing] || PIP_TOOLS[missing]
+      )
+    );
+  },
+
+  suggest: ({ command, words }) => {
+    const missing = words[0];
+    const suggestions = [];
+
+    if (NPM_TOOLS[missing]) {
+      suggestions.push({
+        command: `npm install -g ${NPM_TOOLS[missing]}`,
+        description: `Install ${missing} globally with npm`,
+      });
+      // The command as typed, quotes and all
+      suggestions.push({
+        command: `npx ${command}`,
+        description: `Run ${missing} without installing it globally`,
+      });
+    }
+
+    if (PIP_TOOLS[missing]) {
+      suggestions.push({
+        command: `python3 -m pip install ${PIP_TOOLS[missing]}`,
+        description: `Install ${missing} with pip`,
+      });
+    }
+
+    const manager = systemPackageManager();
+    if (SYSTEM_PACKAGES[missing] && manager) {
+      const pkg =
+        SYSTEM_PACKAGES[missing][manager.id] ||
+        SYSTEM_PACKAGES[missing].default;
+      suggestions.push({
+        command: manager.install(pkg),
+        description: `Install ${missing} with ${manager.binary}`,
+      });
+    }
+
+    return suggestions;
+  },
+};
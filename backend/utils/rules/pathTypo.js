@@ -0,0 +1,49 @@
+/**
+ * "command not found" for a typo of something that is installed:
+ * `gti status` → `git status`.
+ */
+
+const {
+  closestMatches,
+  listPathExecutables,
+  notFoundCommand,
+  replaceWord,
+} = require("./helpers");
+
+// Builtins never show up on PATH but are just as likely to be mistyped
+const SHELL_BUILTINS = [
+  "alias",
+  "bg",
+  "cd",
+  "echo",
+  "exec",
+  "exit",
+  "export",
+  "fg",
+  "history",
+  "jobs",
+  "printf",
+  "pwd",
+  "read",
+  "source",
+  "type",
+  "ulimit",
+  "umask",
+  "unalias",
+  "unset",
+];
+
+module.exports = {
+  name: "path-typo",
+
+  match: ({ words, output }) =>
+    words.length > 0 && notFoundCommand(output) === words[0],
+
+  suggest: ({ command, words }) => {
+    const candidates = new Set([...listPathExecutables(), ...SHELL_BUILTINS]);
+    return closestMatches(words[0], candidates).map((candidate) => ({
+      command: replaceWord(command, words[0], candidate),
+      description: `Did you mean "${candidate}"?`,
+    }));
+  },
+};
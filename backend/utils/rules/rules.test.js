@@ -0,0 +1,228 @@
+const { describe, it, before, after } = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { runRules } = require("./index");
+const {
+  closestMatches,
+  editDistance,
+  notFoundCommand,
+  quoteWord,
+  replaceWord,
+  splitCommand,
+} = require("./helpers");
+
+// The suggested commands from the given rule
+const suggested = (failure, rule) =>
+  runRules(failure)
+    .filter((s) => !rule || s.rule === rule)
+    .map((s) => s.command);
+
+describe("helpers", () => {
+  it("counts transpositions as one edit", () => {
+    assert.equal(editDistance("gti", "git"), 1);
+    assert.equal(editDistance("kitten", "sitting"), 3);
+    assert.equal(editDistance("", "ls"), 2);
+  });
+
+  it("tolerates fewer edits for short words", () => {
+    assert.deepEqual(closestMatches("gti", ["git", "gt", "tig", "go"]), [
+      "git",
+      "gt",
+    ]);
+    assert.deepEqual(closestMatches("ls", ["ls", "lsof"]), []);
+    assert.deepEqual(
+      closestMatches("dokcer-compose", ["docker-compose", "docker"]),
+      ["docker-compose"]
+    );
+  });
+
+  it("splits on spaces outside quotes", () => {
+    assert.deepEqual(splitCommand(`git commit -m "fix it" -a 'x y'`), [
+      "git",
+      "commit",
+      "-m",
+      "fix it",
+      "-a",
+      "x y",
+    ]);
+  });
+
+  it("quotes words for the shell only when needed", () => {
+    assert.equal(quoteWord("src/a-b_c.txt"), "src/a-b_c.txt");
+    assert.equal(quoteWord("a b"), "'a b'");
+    assert.equal(quoteWord("$(whoami)"), "'$(whoami)'");
+    assert.equal(quoteWord("it's"), `'it'\\''s'`);
+  });
+
+  it("replaces whole words only", () => {
+    assert.equal(replaceWord("gti status", "gti", "git"), "git status");
+    assert.equal(
+      replaceWord("cat gti.txt gti", "gti", "git"),
+      "cat gti.txt git"
+    );
+  });
+
+  it("reads the missing command from each shell's wording", () => {
+    assert.equal(notFoundCommand("zsh: command not found: gti"), "gti");
+    assert.equal(notFoundCommand("bash: gti: command not found"), "gti");
+    assert.equal(
+      notFoundCommand("bash: line 1: gti: command not found"),
+      "gti"
+    );
+    assert.equal(notFoundCommand("fish: Unknown command: gti"), "gti");
+    assert.equal(notFoundCommand("sh: 1: gti: not found"), "gti");
+    assert.equal(notFoundCommand("gti: permission denied"), null);
+  });
+});
+
+describe("runRules", () => {
+  it("returns nothing for an empty command", () => {
+    assert.deepEqual(runRules({ command: "  ", output: "", exitCode: 1 }), []);
+  });
+
+  it("marks where each suggestion came from", () => {
+    const [suggestion] = runRules({
+      command: "node -ver",
+      output: "node: bad option: -ver",
+      exitCode: 9,
+    });
+    assert.deepEqual(suggestion, {
+      command: "node --version",
+      description: "Show the node version",
+      source: "rule",
+      rule: "version-flag",
+    });
+  });
+
+  it("never suggests the command that failed", () => {
+    assert.deepEqual(
+      suggested(
+        { command: "node -v", output: "bad option: -v", exitCode: 9 },
+        "version-flag"
+      ),
+      ["node --version"]
+    );
+  });
+
+  it("follows git's own advice", () => {
+    const output = [
+      "git: 'stauts' is not a git command. See 'git --help'.",
+      "",
+      "The most similar command is",
+      "\tstatus",
+    ].join("\n");
+    assert.deepEqual(
+      suggested({ command: "git stauts -s", output, exitCode: 1 }),
+      ["git status -s"]
+    );
+
+    const push = [
+      "fatal: The current branch main has no upstream branch.",
+      "To push the current branch and set the remote as upstream, use",
+      "",
+      "    git push --set-upstream origin main",
+      "",
+    ].join("\n");
+    assert.deepEqual(
+      suggested({ command: "git push", output: push, exitCode: 128 }),
+      ["git push --set-upstream origin main"]
+    );
+  });
+});
+
+describe("missing-sudo", () => {
+  const denied = (command) =>
+    suggested(
+      { command, output: "Permission denied", exitCode: 1, shell: "bash" },
+      "missing-sudo"
+    );
+
+  it("prefixes a simple command with sudo", () => {
+    assert.deepEqual(denied("apt install jq"), ["sudo apt install jq"]);
+  });
+
+  it("runs a compound command whole, without expanding it first", () => {
+    assert.deepEqual(denied("echo $(whoami) > /etc/x && ls"), [
+      `sudo sh -c 'echo $(whoami) > /etc/x && ls'`,
+    ]);
+    assert.deepEqual(denied(`echo "it's" | tee /etc/motd`), [
+      `sudo sh -c 'echo "it'\\''s" | tee /etc/motd'`,
+    ]);
+  });
+
+  it("leaves sudo, builtins and other failures alone", () => {
+    assert.deepEqual(denied("sudo rm /etc/x"), []);
+    assert.deepEqual(denied("cd /root"), []);
+    assert.deepEqual(
+      suggested(
+        { command: "rm /etc/x", output: "No such file", exitCode: 1 },
+        "missing-sudo"
+      ),
+      []
+    );
+  });
+});
+
+describe("rules that look at the file system", () => {
+  let tmp;
+  let originalPath;
+
+  before(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), "terminus-rules-"));
+    fs.mkdirSync(path.join(tmp, "bin"));
+    fs.writeFileSync(path.join(tmp, "bin", "git"), "", { mode: 0o755 });
+    fs.mkdirSync(path.join(tmp, "src", "components"), { recursive: true });
+    originalPath = process.env.PATH;
+    process.env.PATH = path.join(tmp, "bin");
+  });
+
+  after(() => {
+    process.env.PATH = originalPath;
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  it("corrects typos of commands on PATH", () => {
+    assert.deepEqual(
+      suggested(
+        {
+          command: "gti status",
+          output: "bash: gti: command not found",
+          exitCode: 127,
+        },
+        "path-typo"
+      ),
+      ["git status"]
+    );
+  });
+
+  it("offers npx with the command exactly as typed", () => {
+    assert.deepEqual(
+      suggested(
+        {
+          command: `eslint "src/a b.js"`,
+          output: "zsh: command not found: eslint",
+          exitCode: 127,
+        },
+        "package-hint"
+      ),
+      ["npm install -g eslint", `npx eslint "src/a b.js"`]
+    );
+  });
+
+  it("corrects cd to a near-miss directory", () => {
+    assert.deepEqual(
+      suggested(
+        {
+          command: "cd src/compnents",
+          output: "cd: no such file or directory: src/compnents",
+          exitCode: 1,
+          cwd: tmp,
+        },
+        "cd-near-miss"
+      )[0],
+      "cd src/components"
+    );
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Wrong version flags such as `node -ver` or `python --v`.
+ */
+
+// Correct ways to print the version of common tools, preferred first
+const VERSION_COMMANDS = {
+  node: ["node --version", "node -v"],
+  npm: ["npm --version"],
+  yarn: ["yarn --version"],
+  python: ["python --version", "python -V"],
+  python3: ["python3 --version", "python3 -V"],
+  pip: ["pip --version"],
+  pip3: ["pip3 --version"],
+  java: ["java -version"],
+  go: ["go version"],
+  ruby: ["ruby --version", "ruby -v"],
+  rustc: ["rustc --version"],
+  cargo: ["cargo --version"],
+  git: ["git --version"],
+  docker: ["docker --version"],
+};
+
+// Anything that looks like an attempt to ask for the version
+const VERSION_FLAG = /^(--?v|--?ver|--?vers|--?versio|--?version|-V|version)$/i;
+
+const UNKNOWN_OPTION =
+  /(bad|unknown|invalid|unrecognized|illegal) (option|flag|argument)|flag provided but not defined|unknown command/i;
+
+module.exports = {
+  name: "version-flag",
+
+  match: ({ words, output, exitCode }) =>
+    words.length === 2 &&
+    exitCode !== 0 &&
+    VERSION_FLAG.test(words[1]) &&
+    (Boolean(VERSION_COMMANDS[words[0]]) || UNKNOWN_OPTION.test(output)),
+
+  suggest: ({ command, words }) => {
+    const tool = words[0];
+    const candidates = VERSION_COMMANDS[tool] || [`${tool} --version`];
+
+    return candidates
+      .filter((candidate) => candidate !== command.trim())
+      .map((candidate) => ({
+        command: candidate,
+        description: `Show the ${tool} version`,
+      }));
+  },
+};
@@ -0,0 +1,73 @@
+/**
+ * Scrollback Buffer
+ * A size-capped ring buffer of terminal output used to replay a session's
+ * recent output when a client reattaches.
+ */
+
+class ScrollbackBuffer {
+  /**
+   * @param {number} limit Maximum number of characters to retain
+   */
+  constructor(limit) {
+    this.limit = limit;
+    this.chunks = [];
+    this.size = 0;
+    // Total characters ever written; doubles as the offset of the buffer's end
+    this.end = 0;
+  }
+
+  /**
+   * Offset of the oldest character still held in the buffer.
+   */
+  get start() {
+    return this.end - this.size;
+  }
+
+  /**
+   * Appends output, dropping the oldest chunks once over the limit.
+   *
+   * @param {string} data
+   * @returns {number} The buffer's end offset after the write
+   */
+  push(data) {
+    this.chunks.push(data);
+    this.size += data.length;
+    this.end += data.length;
+
+    while (this.size > this.limit && this.chunks.length > 1) {
+      this.size -= this.chunks.shift().length;
+    }
+
+    // A single chunk larger than the whole buffer keeps only its tail
+    if (this.size > this.limit) {
+      this.chunks[0] = this.chunks[0].slice(-this.limit);
+      this.size = this.chunks[0].length;
+    }
+
+    return this.end;
+  }
+
+  /**
+   * Returns the output written after `offset`. When `offset` is missing or
+   * has already been dropped from the buffer, everything still held is
+   * returned with `reset: true` so the client knows to start over.
+   *
+   * @param {number} [offset] End offset of the output the client already has
+   * @returns {{data: string, offset: number, reset: boolean}}
+   */
+  since(offset) {
+    const all = this.chunks.join("");
+
+    if (!Number.isInteger(offset) || offset < this.start || offset > this.end) {
+      return { data: all, offset: this.end, reset: true };
+    }
+
+    return {
+      data: all.slice(offset - this.start),
+      offset: this.end,
+      reset: false,
+    };
+  }
+}
+
+module.exports = { ScrollbackBuffer };
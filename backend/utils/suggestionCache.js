@@ -0,0 +1,172 @@
+/**
+ * Suggestion Cache
+ * Remembers LLM suggestions for a failure so the same error seen again, in
+ * another tab or after a reload, doesn't cost another model call.
+ *
+ * Entries are keyed on the command, the error with its volatile parts
+ * (paths, timestamps, PIDs, ANSI codes) normalized away, and a fingerprint
+ * of the environment. They live in a JSON file, SUGGESTION_CACHE_PATH
+ * (default suggestions.json in the cache directory, see cacheDir), and
+ * expire after SUGGESTION_CACHE_TTL_MS (24 hours by default).
+ */
+
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+const { cachePath } = require("./cacheDir");
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 500;
+
+// Applied in order; paths go last so timestamps inside them are caught first
+const VOLATILE_PATTERNS = [
+  // ANSI escape sequences
+  [/\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g, ""],
+  // ISO dates and clock times
+  [
+    /\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?/g,
+    "<time>",
+  ],
+  [/\b\d{1,2}:\d{2}:\d{2}(\.\d+)?\b/g, "<time>"],
+  // Process ids
+  [/\b(pid|process|PID)[ :=#]*\d+/g, "$1 <pid>"],
+  [/\[\d{2,}\]/g, "[<pid>]"],
+  // Memory addresses and hashes
+  [/\b0x[0-9a-f]+\b/gi, "<hex>"],
+  // Absolute and home-relative paths
+  [/(?:~|\.{1,2})?(?:\/[^\s/:'"`,;()]+)+\/?/g, "<path>"],
+  [/\b[A-Za-z]:\\[^\s:'"`,;()]*/g, "<path>"],
+];
+
+/**
+ * Reduces error output to the parts that identify the error.
+ *
+ * @param {string} text
+ * @returns {string}
+ */
+function normalizeError(text) {
+  let normalized = String(text || "");
+  for (const [pattern, replacement] of VOLATILE_PATTERNS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+  return normalized.replace(/\s+/g, " ").trim();
+}
+
+const sha256 = (value) =>
+  crypto.createHash("sha256").update(value).digest("hex");
+
+/**
+ * Builds the cache key for a failure.
+ *
+ * @param {Object} failure
+ * @param {string} failure.command - The command that failed
+ * @param {string} failure.output - Its error output
+ * @param {Object} [failure.fingerprint] - Anything else the answer depends
+ *   on (environment, model); serialized as is
+ * @returns {string}
+ */
+function suggestionCacheKey({ command, output, fingerprint = {} }) {
+  return sha256(
+    JSON.stringify([
+      String(command || "").trim(),
+      normalizeError(output),
+      fingerprint,
+    ])
+  );
+}
+
+class SuggestionCache {
+  /**
+   * @param {Object} [options]
+   * @param {string} [options.filePath] - Where entries are stored
+   * @param {number} [options.ttlMs] - How long an entry stays valid
+   * @param {number} [options.maxEntries] - Oldest entries beyond this are dropped
+   */
+  constructor(options = {}) {
+    this.filePath =
+      options.filePath ||
+      process.env.SUGGESTION_CACHE_PATH ||
+      cachePath("suggestions.json");
+    this.ttlMs =
+      options.ttlMs ??
+      (process.env.SUGGESTION_CACHE_TTL_MS
+        ? Number(process.env.SUGGESTION_CACHE_TTL_MS)
+        : DEFAULT_TTL_MS);
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.entries = null; // key -> { value, expiresAt }, loaded on first use
+    this.writing = Promise.resolve();
+  }
+
+  load() {
+    if (this.entries) return this.entries;
+
+    this.entries = new Map();
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.filePath, "utf8"));
+      const now = Date.now();
+      for (const [key, entry] of Object.entries(raw.entries || {})) {
+        if (entry && entry.expiresAt > now) this.entries.set(key, entry);
+      }
+    } catch (err) {
+      if (err.code !== "ENOENT") {
+        console.error("Ignoring unreadable suggestion cache:", err.message);
+      }
+    }
+    return this.entries;
+  }
+
+  /**
+   * Returns the cached value for a key, or undefined when missing or expired.
+   */
+  get(key) {
+    const entry = this.load().get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  /**
+   * Stores a value and writes the cache to disk in the background.
+   */
+  set(key, value) {
+    const entries = this.load();
+    entries.delete(key); // Re-insert so Map order stays oldest first
+    entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+
+    while (entries.size > this.maxEntries) {
+      entries.delete(entries.keys().next().value);
+    }
+    this.persist();
+  }
+
+  /**
+   * Writes the live entries to disk. Writes are serialized and go through a
+   * temporary file so a crash never leaves a half-written cache.
+   */
+  persist() {
+    this.writing = this.writing
+      .then(async () => {
+        const now = Date.now();
+        const live = {};
+        for (const [key, entry] of this.entries) {
+          if (entry.expiresAt > now) live[key] = entry;
+        }
+
+        await fs.promises.mkdir(path.dirname(this.filePath), {
+          recursive: true,
+        });
+        const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.promises.writeFile(tmpPath, JSON.stringify({ entries: live }));
+        await fs.promises.rename(tmpPath, this.filePath);
+      })
+      .catch((err) => {
+        console.error("Failed to write suggestion cache:", err.message);
+      });
+    return this.writing;
+  }
+}
+
+module.exports = { SuggestionCache, normalizeError, suggestionCacheKey };
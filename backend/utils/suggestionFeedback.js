@@ -0,0 +1,273 @@
+/**
+ * Suggestion feedback
+ *
+ * Records what the user did with suggestions (ran one, ignored the rest) and
+ * how the suggestions they ran turned out, then uses that history to rank
+ * new suggestions: patterns that worked for this user move up, patterns that
+ * failed or keep being ignored move down.
+ *
+ * Commands are compared by pattern, the program, its subcommand and flags
+ * with the arguments left out, so `npm install lodash` teaches something
+ * about `npm install react`. History counts fully in the project it was
+ * recorded in (the nearest directory with a .git, package.json or similar
+ * above the cwd) and at half weight everywhere else.
+ *
+ * Events are appended to a JSON Lines file, SUGGESTION_FEEDBACK_PATH
+ * (default feedback.jsonl in the cache directory, see cacheDir), and summed
+ * up in memory on first use.
+ */
+
+const fs = require("fs");
+const path = require("path");
+const { cachePath } = require("./cacheDir");
+const { findUp } = require("./fixContext");
+const { splitCommand } = require("./rules/helpers");
+
+const EVENT_TYPES = ["accepted", "ignored", "outcome"];
+const PROJECT_MARKERS = [
+  ".git",
+  "package.json",
+  "pyproject.toml",
+  "requirements.txt",
+  "Cargo.toml",
+  "go.mod",
+];
+const SHELL_OPERATORS = new Set(["|", "||", "&&", ";", "&"]);
+
+// How much a perfect track record can move a suggestion's confidence
+const OUTCOME_WEIGHT = 0.6;
+const CHOICE_WEIGHT = 0.2;
+const OTHER_PROJECTS_WEIGHT = 0.5;
+
+/**
+ * The shape of a command without its arguments: programs, subcommands and
+ * flags (without their values), and the operators between them.
+ *
+ * @param {string} command
+ * @returns {string} e.g. "git push --force" for `git push --force origin main`
+ */
+function commandPattern(command) {
+  const pattern = [];
+  let expect = "program";
+
+  for (const word of splitCommand(String(command || "").trim())) {
+    if (SHELL_OPERATORS.has(word)) {
+      pattern.push(word);
+      expect = "program";
+    } else if (expect === "program") {
+      // Environment assignments and sudo don't change what runs
+      if (/^\w+=/.test(word) || word === "sudo") continue;
+      pattern.push(path.basename(word));
+      expect = "subcommand";
+    } else if (word.startsWith("-")) {
+      pattern.push(word.split("=")[0]);
+    } else if (expect === "subcommand" && /^[a-z][a-z0-9-]{0,19}$/.test(word)) {
+      pattern.push(word);
+      expect = "arguments";
+    } else {
+      expect = "arguments";
+    }
+  }
+  return pattern.join(" ");
+}
+
+/**
+ * The project a directory belongs to, for grouping feedback.
+ *
+ * @param {string} [cwd]
+ * @returns {string|null}
+ */
+function projectOf(cwd) {
+  if (!cwd) return null;
+  const hit = findUp(cwd, PROJECT_MARKERS);
+  return hit ? hit.dir : cwd;
+}
+
+const emptyStats = () => ({ accepted: 0, ignored: 0, worked: 0, failed: 0 });
+
+function addEvent(stats, event) {
+  if (event.type === "accepted") stats.accepted++;
+  else if (event.type === "ignored") stats.ignored++;
+  else if (event.exitCode === 0) stats.worked++;
+  else stats.failed++;
+}
+
+/**
+ * How far a track record moves a suggestion, roughly -0.4 to 0.4. Rates are
+ * smoothed so a single run can't outweigh the model's own confidence.
+ */
+function scoreStats(stats) {
+  const worked = (stats.worked + 1) / (stats.worked + stats.failed + 2) - 0.5;
+  const chosen =
+    (stats.accepted + 1) / (stats.accepted + stats.ignored + 2) - 0.5;
+  return worked * OUTCOME_WEIGHT + chosen * CHOICE_WEIGHT;
+}
+
+class SuggestionFeedback {
+  /**
+   * @param {Object} [options]
+   * @param {string} [options.filePath] - Where events are stored
+   */
+  constructor(options = {}) {
+    this.filePath =
+      options.filePath ||
+      process.env.SUGGESTION_FEEDBACK_PATH ||
+      cachePath("feedback.jsonl");
+    this.stats = null; // pattern -> project -> stats, loaded on first use
+    this.writing = Promise.resolve();
+  }
+
+  load() {
+    if (this.stats) return this.stats;
+
+    this.stats = new Map();
+    let raw = "";
+    try {
+      raw = fs.readFileSync(this.filePath, "utf8");
+    } catch (err) {
+      if (err.code !== "ENOENT") {
+        console.error("Ignoring unreadable suggestion feedback:", err.message);
+      }
+    }
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        this.count(JSON.parse(line));
+      } catch (err) {
+        // A line cut short by a crash; the rest are still good
+      }
+    }
+    return this.stats;
+  }
+
+  count(event) {
+    if (!EVENT_TYPES.includes(event.type) || !event.pattern) return;
+
+    let byProject = this.stats.get(event.pattern);
+    if (!byProject) {
+      byProject = new Map();
+      this.stats.set(event.pattern, byProject);
+    }
+    const key = event.project || "";
+    if (!byProject.has(key)) byProject.set(key, emptyStats());
+    addEvent(byProject.get(key), event);
+  }
+
+  /**
+   * Records what the user did with suggestions.
+   *
+   * @param {Array<Object>} events - `type` ("accepted", "ignored" or
+   *   "outcome"), `command`, and `exitCode` for outcomes
+   * @param {Object} [where] - `cwd` and `sessionId` the events happened in
+   * @returns {number} How many events were valid and recorded
+   */
+  record(events, { cwd, sessionId } = {}) {
+    this.load();
+    const project = projectOf(cwd);
+    const at = new Date().toISOString();
+
+    const lines = [];
+    for (const event of Array.isArray(events) ? events : []) {
+      if (!event || !EVENT_TYPES.includes(event.type)) continue;
+      if (typeof event.command !== "string" || !event.command.trim()) continue;
+      if (event.type === "outcome" && !Number.isInteger(event.exitCode)) {
+        continue;
+      }
+
+      const entry = {
+        type: event.type,
+        command: event.command.trim(),
+        pattern: commandPattern(event.command),
+        ...(event.type === "outcome" ? { exitCode: event.exitCode } : {}),
+        project,
+        sessionId,
+        at,
+      };
+      this.count(entry);
+      lines.push(JSON.stringify(entry));
+    }
+
+    if (lines.length > 0) this.append(`${lines.join("\n")}\n`);
+    return lines.length;
+  }
+
+  /**
+   * Appends to the events file. Writes are serialized so lines never
+   * interleave.
+   */
+  append(text) {
+    this.writing = this.writing
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(this.filePath), {
+          recursive: true,
+        });
+        await fs.promises.appendFile(this.filePath, text);
+      })
+      .catch((err) => {
+        console.error("Failed to write suggestion feedback:", err.message);
+      });
+    return this.writing;
+  }
+
+  /**
+   * The user's history with a command's pattern: in the given project and
+   * across all projects.
+   */
+  history(command, cwd) {
+    const byProject = this.load().get(commandPattern(command));
+    const here = emptyStats();
+    const everywhere = emptyStats();
+    if (!byProject) return { here, everywhere };
+
+    const project = projectOf(cwd) || "";
+    for (const [key, stats] of byProject) {
+      for (const field of Object.keys(everywhere)) {
+        everywhere[field] += stats[field];
+        if (key === project) here[field] += stats[field];
+      }
+    }
+    return { here, everywhere };
+  }
+
+  /**
+   * Orders suggestions by their confidence adjusted for the user's history.
+   * Suggestions with history get `feedback`: how often the pattern worked
+   * and failed, and how far it moved.
+   *
+   * @param {Array<Object>} suggestions
+   * @param {string} [cwd] - Where the suggestions would run
+   * @returns {Array<Object>} A new, reordered array
+   */
+  rank(suggestions, cwd) {
+    return suggestions
+      .map((suggestion, index) => {
+        const { here, everywhere } = this.history(suggestion.command, cwd);
+        const elsewhere = {};
+        for (const field of Object.keys(everywhere)) {
+          elsewhere[field] = everywhere[field] - here[field];
+        }
+        const boost =
+          scoreStats(here) + scoreStats(elsewhere) * OTHER_PROJECTS_WEIGHT;
+        const seen = Object.values(everywhere).some((n) => n > 0);
+
+        return {
+          index,
+          score: (suggestion.confidence ?? 0.5) + boost,
+          suggestion: seen
+            ? {
+                ...suggestion,
+                feedback: {
+                  worked: everywhere.worked,
+                  failed: everywhere.failed,
+                  boost: Math.round(boost * 100) / 100,
+                },
+              }
+            : suggestion,
+        };
+      })
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(({ suggestion }) => suggestion);
+  }
+}
+
+module.exports = { SuggestionFeedback, commandPattern };
@@ -0,0 +1,205 @@
+/**
+ * Asks the LLM for suggestions in the JSON format of utils/suggestionSchema,
+ * with one round of repair when the reply doesn't validate. Shared by the
+ * command fixer and the natural-language command agent; the repair loop
+ * itself is also used for other JSON replies (explanations).
+ */
+
+const { complete } = require("./llm");
+const {
+  SUGGESTION_SCHEMA,
+  extractJson,
+  validateSuggestionPayload,
+  validateSuggestionItem,
+  completedSuggestionItems,
+} = require("./suggestionSchema");
+
+// Extra round trips allowed to fix a reply that fails validation
+const MAX_REPAIR_ATTEMPTS = 1;
+
+/**
+ * The reply format section of a prompt.
+ *
+ * @param {Object} meanings - What `confidence` and `addresses` mean for this
+ *   kind of request
+ * @param {string} meanings.confidence
+ * @param {string} meanings.addresses
+ * @returns {string}
+ */
+const responseFormat = ({ confidence, addresses }) =>
+  `Respond with a single JSON object and nothing else (no markdown, no explanation) matching this JSON schema:
+${JSON.stringify(SUGGESTION_SCHEMA)}
+
+Field meanings:
+- command: the command, exactly as it should be typed
+- description: a short description of what it does
+- confidence: 0 to 1, ${confidence}
+- riskLevel: "low", "medium" or "high"; use "high" for anything that deletes data, needs sudo or changes system state
+- addresses: ${addresses}
+- steps: only when several commands are needed in order; each step has its own command and description`;
+
+/**
+ * Asks the model to fix a reply that failed validation
+ */
+const repairPrompt = (errors) =>
+  `Your reply could not be used:
+${errors
+  .slice(0, 10)
+  .map((error) => `- ${error}`)
+  .join("\n")}
+
+Reply again with only the corrected JSON object, matching the schema above.`;
+
+/**
+ * Parses the model's JSON reply into suggestion objects.
+ *
+ * @param {string} text The raw text of the LLM response
+ * @returns {{suggestions: Array, errors: string[]}} The suggestions that
+ *   validated, and what was wrong with the rest
+ */
+function parseSuggestions(text) {
+  let payload;
+  try {
+    payload = extractJson(text);
+  } catch (err) {
+    return {
+      suggestions: [],
+      errors: [`reply is not valid JSON: ${err.message}`],
+    };
+  }
+
+  const { errors, suggestions } = validateSuggestionPayload(payload);
+  return {
+    suggestions: suggestions.map((suggestion) => ({
+      ...suggestion,
+      source: "llm",
+    })),
+    errors,
+  };
+}
+
+/**
+ * Sends a prompt and parses the reply, showing the model its own reply and
+ * the validation errors when it needs repair.
+ *
+ * @param {string} prompt - Should describe the JSON reply it expects
+ * @param {Function} parse - Turns the reply text into `{result, errors}`;
+ *   `result` is whatever validated, or null when nothing is usable
+ * @param {Object} [llmOptions] - Per-request provider settings; see utils/llm
+ * @param {Object} [stream] - To stream the reply: onToken(text) for each
+ *   piece, onRestart() when a repair round starts a new reply, and signal
+ *   to cancel
+ * @param {Array} [history] - Earlier messages of the conversation, sent
+ *   before the prompt; see utils/conversationStore
+ * @returns {Promise<*>} The parsed result
+ * @throws {Error} When the reply is still unusable after repair
+ */
+async function requestWithRepair(
+  prompt,
+  parse,
+  llmOptions = {},
+  stream = {},
+  history = []
+) {
+  const messages = [...history, { role: "user", content: prompt }];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    if (attempt > 0 && stream.onRestart) stream.onRestart();
+    const response = await complete(messages, llmOptions, {
+      onToken: stream.onToken,
+      signal: stream.signal,
+    });
+    console.log(`✅ Received ${response.provider} response successfully!`);
+
+    const replyText = response.text;
+    console.log("Raw reply text:", replyText);
+
+    const { result, errors } = parse(replyText);
+    if (errors.length === 0) return result;
+
+    console.warn(
+      `⚠️ Reply failed validation (attempt ${attempt + 1}):`,
+      errors
+    );
+    if (attempt === MAX_REPAIR_ATTEMPTS) {
+      // Keep whatever did validate rather than nothing at all
+      if (result) return result;
+      throw new Error(
+        `The model did not return a valid reply: ${errors
+          .slice(0, 3)
+          .join("; ")}`
+      );
+    }
+
+    messages.push(
+      { role: "assistant", content: replyText },
+      { role: "user", content: repairPrompt(errors) }
+    );
+  }
+}
+
+/**
+ * Wraps stream callbacks so `onSuggestion` is called with each suggestion
+ * as soon as the model has finished writing it.
+ */
+function streamSuggestions(stream) {
+  if (!stream.onSuggestion) return stream;
+
+  let replyText = "";
+  let seen = 0;
+  return {
+    signal: stream.signal,
+    onToken: (text) => {
+      if (stream.onToken) stream.onToken(text);
+      replyText += text;
+      const items = completedSuggestionItems(replyText);
+      for (; seen < items.length; seen++) {
+        const suggestion = validateSuggestionItem(items[seen]);
+        if (suggestion) stream.onSuggestion({ ...suggestion, source: "llm" });
+      }
+    },
+    onRestart: () => {
+      replyText = "";
+      seen = 0;
+      if (stream.onRestart) stream.onRestart();
+    },
+  };
+}
+
+/**
+ * Sends a prompt and returns the suggestions from the reply.
+ *
+ * @param {string} prompt - Should end with responseFormat(...)
+ * @param {Object} [llmOptions] - Per-request provider settings; see utils/llm
+ * @param {Object} [stream] - As for requestWithRepair, plus
+ *   onSuggestion(suggestion) for each suggestion as it completes. The
+ *   returned list is what counts; streamed ones are a preview
+ * @param {Array} [history] - Earlier messages of the conversation
+ * @returns {Promise<Array>} The validated suggestions, possibly empty
+ * @throws {Error} When the reply still has no valid suggestions after repair
+ */
+async function requestSuggestions(
+  prompt,
+  llmOptions = {},
+  stream = {},
+  history = []
+) {
+  const suggestions = await requestWithRepair(
+    prompt,
+    (text) => {
+      const { suggestions, errors } = parseSuggestions(text);
+      return {
+        result:
+          errors.length === 0 || suggestions.length > 0 ? suggestions : null,
+        errors,
+      };
+    },
+    llmOptions,
+    streamSuggestions(stream),
+    history
+  );
+  console.log("Parsed suggestions:", suggestions);
+  return suggestions;
+}
+
+module.exports = { responseFormat, requestWithRepair, requestSuggestions };
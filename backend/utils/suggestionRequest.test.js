@@ -0,0 +1,82 @@
+const { describe, it, before, after } = require("node:test");
+const assert = require("node:assert/strict");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { requestSuggestions } = require("./suggestionRequest");
+
+const VALID = {
+  suggestions: [
+    {
+      command: "ls -la",
+      description: "List all files",
+      confidence: 0.8,
+      riskLevel: "low",
+      addresses: "hidden files",
+    },
+  ],
+};
+
+// Mock provider replies: the first prompt by its text, repairs by theirs
+const fixtures = (first, repair) => ({
+  responses: [
+    { match: "could not be used", response: repair },
+    { match: "^FIRST", response: first },
+  ],
+  default: "",
+});
+
+describe("requestSuggestions", () => {
+  let tmp;
+  let fixturesPath;
+  const mock = { provider: "mock" };
+
+  before(() => {
+    tmp = fs.mkdtempSync(path.join(os.tmpdir(), "terminus-request-"));
+    fixturesPath = path.join(tmp, "responses.json");
+    process.env.LLM_MOCK_FIXTURES = fixturesPath;
+  });
+
+  after(() => {
+    delete process.env.LLM_MOCK_FIXTURES;
+    fs.rmSync(tmp, { recursive: true, force: true });
+  });
+
+  const reply = (first, repair) =>
+    fs.writeFileSync(fixturesPath, JSON.stringify(fixtures(first, repair)));
+
+  it("returns the suggestions of a valid reply", async () => {
+    reply(VALID, "");
+    const suggestions = await requestSuggestions("FIRST", mock);
+    assert.deepEqual(suggestions, [{ ...VALID.suggestions[0], source: "llm" }]);
+  });
+
+  it("asks again when the reply doesn't validate", async () => {
+    reply("Sorry, I don't know", VALID);
+    const suggestions = await requestSuggestions("FIRST", mock);
+    assert.deepEqual(
+      suggestions.map((s) => s.command),
+      ["ls -la"]
+    );
+  });
+
+  it("keeps what validated when the repair is still wrong", async () => {
+    const partial = {
+      suggestions: [...VALID.suggestions, { command: "rm -rf /" }],
+    };
+    reply(partial, partial);
+    const suggestions = await requestSuggestions("FIRST", mock);
+    assert.deepEqual(
+      suggestions.map((s) => s.command),
+      ["ls -la"]
+    );
+  });
+
+  it("gives up when nothing validates after the repair", async () => {
+    reply("not JSON", "still not JSON");
+    await assert.rejects(
+      requestSuggestions("FIRST", mock),
+      /did not return a valid reply: reply is not valid JSON/
+    );
+  });
+});
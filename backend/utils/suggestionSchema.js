@@ -0,0 +1,258 @@
+/**
+ * JSON format of command suggestions
+ *
+ * The model is asked to reply with a JSON object matching SUGGESTION_SCHEMA;
+ * validateSuggestionPayload checks a reply against it. Rule-based and LLM
+ * suggestions share this shape:
+ *
+ *   {
+ *     "command": "git push --set-upstream origin main",
+ *     "description": "Push and track the remote branch",
+ *     "confidence": 0.9,             // 0..1, how likely this fixes the error
+ *     "riskLevel": "low",            // "low" | "medium" | "high"
+ *     "addresses": "has no upstream branch",
+ *     "steps": [{ "command": "...", "description": "..." }]   // optional
+ *   }
+ *
+ * When `steps` is given, `command` runs them all in order (joined with &&).
+ */
+
+const RISK_LEVELS = ["low", "medium", "high"];
+const MAX_SUGGESTIONS = 8;
+const MAX_STEPS = 6;
+
+const SUGGESTION_SCHEMA = {
+  type: "object",
+  required: ["suggestions"],
+  properties: {
+    suggestions: {
+      type: "array",
+      maxItems: MAX_SUGGESTIONS,
+      items: {
+        type: "object",
+        required: [
+          "command",
+          "description",
+          "confidence",
+          "riskLevel",
+          "addresses",
+        ],
+        properties: {
+          command: { type: "string", minLength: 1 },
+          description: { type: "string" },
+          confidence: { type: "number", minimum: 0, maximum: 1 },
+          riskLevel: { type: "string", enum: RISK_LEVELS },
+          addresses: { type: "string" },
+          steps: {
+            type: "array",
+            maxItems: MAX_STEPS,
+            items: {
+              type: "object",
+              required: ["command", "description"],
+              properties: {
+                command: { type: "string", minLength: 1 },
+                description: { type: "string" },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+const isNonEmptyString = (value) =>
+  typeof value === "string" && value.trim().length > 0;
+
+/**
+ * Pulls the JSON object out of a model reply, tolerating Markdown code
+ * fences and chatter around it.
+ *
+ * @returns {*} The parsed value
+ * @throws {SyntaxError} When no JSON can be parsed
+ */
+function extractJson(text) {
+  const trimmed = String(text || "").trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1].trim() : trimmed;
+
+  try {
+    return JSON.parse(candidate);
+  } catch (err) {
+    // Fall back to the outermost {...} in the reply
+    const start = candidate.indexOf("{");
+    const end = candidate.lastIndexOf("}");
+    if (start === -1 || end <= start) throw err;
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+}
+
+function validateStep(step, where, errors) {
+  if (!step || typeof step !== "object") {
+    errors.push(`${where} must be an object`);
+    return null;
+  }
+  if (!isNonEmptyString(step.command)) {
+    errors.push(`${where}.command must be a non-empty string`);
+    return null;
+  }
+  return {
+    command: step.command.trim(),
+    description: typeof step.description === "string" ? step.description : "",
+  };
+}
+
+function validateSuggestion(item, where, errors) {
+  const before = errors.length;
+
+  if (!item || typeof item !== "object" || Array.isArray(item)) {
+    errors.push(`${where} must be an object`);
+    return null;
+  }
+
+  let steps;
+  if (item.steps !== undefined) {
+    if (!Array.isArray(item.steps) || item.steps.length === 0) {
+      errors.push(`${where}.steps must be a non-empty array when present`);
+    } else if (item.steps.length > MAX_STEPS) {
+      errors.push(`${where}.steps must have at most ${MAX_STEPS} items`);
+    } else {
+      steps = item.steps.map((step, i) =>
+        validateStep(step, `${where}.steps[${i}]`, errors)
+      );
+    }
+  }
+
+  // A multi-step fix may leave out the combined command
+  const command = isNonEmptyString(item.command)
+    ? item.command.trim()
+    : steps && steps.every(Boolean)
+    ? steps.map((step) => step.command).join(" && ")
+    : null;
+  if (!command) errors.push(`${where}.command must be a non-empty string`);
+
+  if (typeof item.description !== "string") {
+    errors.push(`${where}.description must be a string`);
+  }
+  if (
+    typeof item.confidence !== "number" ||
+    !(item.confidence >= 0 && item.confidence <= 1)
+  ) {
+    errors.push(`${where}.confidence must be a number between 0 and 1`);
+  }
+  if (!RISK_LEVELS.includes(item.riskLevel)) {
+    errors.push(`${where}.riskLevel must be one of ${RISK_LEVELS.join(", ")}`);
+  }
+  if (typeof item.addresses !== "string") {
+    errors.push(`${where}.addresses must be a string`);
+  }
+
+  if (errors.length > before) return null;
+
+  return {
+    command,
+    description: item.description,
+    confidence: item.confidence,
+    riskLevel: item.riskLevel,
+    addresses: item.addresses,
+    ...(steps ? { steps } : {}),
+  };
+}
+
+/**
+ * Validates a parsed model reply against SUGGESTION_SCHEMA.
+ *
+ * @param {*} payload
+ * @returns {{valid: boolean, errors: string[], suggestions: Array}} The
+ *   suggestions that passed validation, even when others did not
+ */
+function validateSuggestionPayload(payload) {
+  const errors = [];
+
+  if (!payload || typeof payload !== "object" || Array.isArray(payload)) {
+    return {
+      valid: false,
+      errors: ["reply must be a JSON object with a `suggestions` array"],
+      suggestions: [],
+    };
+  }
+  if (!Array.isArray(payload.suggestions)) {
+    return {
+      valid: false,
+      errors: ["`suggestions` must be an array"],
+      suggestions: [],
+    };
+  }
+  if (payload.suggestions.length > MAX_SUGGESTIONS) {
+    errors.push(`\`suggestions\` must have at most ${MAX_SUGGESTIONS} items`);
+  }
+
+  const suggestions = payload.suggestions
+    .slice(0, MAX_SUGGESTIONS)
+    .map((item, i) => validateSuggestion(item, `suggestions[${i}]`, errors))
+    .filter(Boolean);
+
+  return { valid: errors.length === 0, errors, suggestions };
+}
+
+/**
+ * Validates a single suggestion object.
+ *
+ * @returns {Object|null} The suggestion, or null when it doesn't validate
+ */
+const validateSuggestionItem = (item) =>
+  validateSuggestion(item, "suggestion", []);
+
+/**
+ * The items of the `suggestions` array that are already complete in a reply
+ * still being streamed, parsed. Strings are tracked so braces inside
+ * commands don't throw the count off; items that don't parse are skipped.
+ *
+ * @param {string} text - The reply so far
+ * @returns {Array} Parsed items, in order
+ */
+function completedSuggestionItems(text) {
+  const items = [];
+  const key = text.search(/"suggestions"\s*:\s*\[/);
+  if (key === -1) return items;
+
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+  for (let i = text.indexOf("[", key) + 1; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === "{") {
+      if (depth === 0) start = i;
+      depth += 1;
+    } else if (ch === "}") {
+      depth -= 1;
+      if (depth === 0 && start !== -1) {
+        try {
+          items.push(JSON.parse(text.slice(start, i + 1)));
+        } catch (err) {
+          // Leave malformed items to the validation of the whole reply
+        }
+        start = -1;
+      }
+    } else if (ch === "]" && depth === 0) {
+      break;
+    }
+  }
+  return items;
+}
+
+module.exports = {
+  SUGGESTION_SCHEMA,
+  RISK_LEVELS,
+  extractJson,
+  validateSuggestionPayload,
+  validateSuggestionItem,
+  completedSuggestionItems,
+};
@@ -0,0 +1,122 @@
+const { describe, it } = require("node:test");
+const assert = require("node:assert/strict");
+const {
+  extractJson,
+  validateSuggestionPayload,
+  validateSuggestionItem,
+  completedSuggestionItems,
+} = require("./suggestionSchema");
+
+const suggestion = (overrides = {}) => ({
+  command: "git push --set-upstream origin main",
+  description: "Push and track the remote branch",
+  confidence: 0.9,
+  riskLevel: "low",
+  addresses: "has no upstream branch",
+  ...overrides,
+});
+
+describe("extractJson", () => {
+  it("reads plain, fenced and chatty replies", () => {
+    assert.deepEqual(extractJson('{"a": 1}'), { a: 1 });
+    assert.deepEqual(extractJson('```json\n{"a": 1}\n```'), { a: 1 });
+    assert.deepEqual(extractJson('Here: {"a": {"b": 2}} Hope it helps'), {
+      a: { b: 2 },
+    });
+  });
+
+  it("throws when there is no JSON", () => {
+    assert.throws(() => extractJson("I can't help with that"), SyntaxError);
+    assert.throws(() => extractJson(""), SyntaxError);
+  });
+});
+
+describe("validateSuggestionPayload", () => {
+  it("accepts a valid reply", () => {
+    const result = validateSuggestionPayload({ suggestions: [suggestion()] });
+    assert.deepEqual(result, {
+      valid: true,
+      errors: [],
+      suggestions: [suggestion()],
+    });
+  });
+
+  it("rejects replies without a suggestions array", () => {
+    assert.equal(validateSuggestionPayload([]).valid, false);
+    assert.deepEqual(validateSuggestionPayload({ suggestions: "ls" }).errors, [
+      "`suggestions` must be an array",
+    ]);
+  });
+
+  it("keeps the suggestions that validate and says what's wrong with the rest", () => {
+    const result = validateSuggestionPayload({
+      suggestions: [
+        suggestion({ confidence: 2, riskLevel: "extreme" }),
+        suggestion({ command: "  ls -la  " }),
+        "ls",
+      ],
+    });
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.errors, [
+      "suggestions[0].confidence must be a number between 0 and 1",
+      "suggestions[0].riskLevel must be one of low, medium, high",
+      "suggestions[2] must be an object",
+    ]);
+    assert.deepEqual(
+      result.suggestions.map((s) => s.command),
+      ["ls -la"]
+    );
+  });
+
+  it("joins the steps when a multi-step fix leaves out the command", () => {
+    const [fix] = validateSuggestionPayload({
+      suggestions: [
+        suggestion({
+          command: undefined,
+          steps: [
+            { command: "git stash", description: "Put changes aside" },
+            { command: "git pull", description: "" },
+          ],
+        }),
+      ],
+    }).suggestions;
+    assert.equal(fix.command, "git stash && git pull");
+    assert.equal(fix.steps.length, 2);
+  });
+
+  it("caps the number of suggestions", () => {
+    const result = validateSuggestionPayload({
+      suggestions: Array.from({ length: 10 }, () => suggestion()),
+    });
+    assert.equal(result.valid, false);
+    assert.equal(result.suggestions.length, 8);
+  });
+});
+
+describe("validateSuggestionItem", () => {
+  it("returns the suggestion or null", () => {
+    assert.deepEqual(validateSuggestionItem(suggestion()), suggestion());
+    assert.equal(validateSuggestionItem(suggestion({ command: "" })), null);
+  });
+});
+
+describe("completedSuggestionItems", () => {
+  it("returns only the items the model has finished writing", () => {
+    const reply = `{"suggestions": [{"command": "echo '{'", "n": 1}, {"command": "ls", "n": {"x": 2}}, {"command": "pw`;
+    assert.deepEqual(completedSuggestionItems(reply), [
+      { command: "echo '{'", n: 1 },
+      { command: "ls", n: { x: 2 } },
+    ]);
+  });
+
+  it("handles escaped quotes and stops at the end of the array", () => {
+    const reply = `{"suggestions": [{"command": "echo \\"}\\""}], "other": [{"a": 1}]}`;
+    assert.deepEqual(completedSuggestionItems(reply), [
+      { command: 'echo "}"' },
+    ]);
+  });
+
+  it("returns nothing before the suggestions array starts", () => {
+    assert.deepEqual(completedSuggestionItems('{"sugg'), []);
+  });
+});
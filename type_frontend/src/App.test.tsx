@@ -2,8 +2,10 @@ import React from 'react';
 import { render, screen } from '@testing-library/react';
 import App from './App';
 
-test('renders learn react link', () => {
+test('asks for the password before opening a terminal', async () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+  expect(await screen.findByText(/terminal login/i)).toBeInTheDocument();
+  expect(
+    screen.getByPlaceholderText(/password or access token/i)
+  ).toBeInTheDocument();
 });
@@ -1,118 +1,919 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect, useRef } from "react";
+import { Socket } from "socket.io-client";
 import "./App.css";
-import Terminal from "./components/Terminal";
+import TerminalTabs from "./components/TerminalTabs";
 import ChatPanel from "./components/ChatPanel";
-import { CommandSuggestion } from "./utils/commandFixerAgent";
-
-interface Message {
-  id: number;
-  text: string;
-  isError: boolean;
-  timestamp: Date;
-  suggestions?: CommandSuggestion[];
-  isSuggestion?: boolean;
-}
+import RecordingsDialog from "./components/RecordingsDialog";
+import Login from "./components/Login";
+import { CommandFailure, CommandSuggestion } from "./utils/commandFixerAgent";
+import {
+  BackgroundExit,
+  BackgroundOutputChunk,
+  Recording,
+  SuggestionFeedbackEvent,
+  SuggestionStream,
+  SuggestionStreamEnd,
+  TerminalSession,
+  appendBackgroundOutput,
+  cancelBackgroundCommand,
+  cancelSuggestionStream,
+  closeSession,
+  createSession,
+  createTerminalSocket,
+  fetchShellProfiles,
+  listSessions,
+  randomId,
+  recordHistory,
+  ShellProfile,
+  renameSession,
+  reportSuggestionFeedback,
+  reportSuggestionRun,
+  resetConversation,
+  startBackgroundCommand,
+  startRecording,
+  stopRecording,
+  streamFixSuggestions,
+  suggestCommands,
+} from "./utils/terminalSessions";
+import { ExplainKind, requestExplanation } from "./utils/explain";
+import { listRecordings } from "./utils/recordings";
+import {
+  RunResult,
+  TerminalController,
+  TerminalControllerContext,
+  TerminalControllerError,
+} from "./utils/terminalController";
+import {
+  ChatMessage,
+  loadChatHistory,
+  newMessageId,
+  saveChatMessages,
+} from "./utils/chatHistory";
+import { ChatExportFormat, downloadFile, exportChat } from "./utils/chatExport";
+import {
+  clearAuthToken,
+  getAuthToken,
+  installAuthInterceptors,
+  logout,
+} from "./utils/auth";
+
+const WELCOME_MESSAGE_ID = "welcome";
+// How long the chat has to be quiet before changed messages are saved
+const HISTORY_SAVE_DELAY_MS = 500;
+
+const NO_SUGGESTIONS_TEXT =
+  "Couldn't generate specific suggestions for this error. Try a different command.";
+
+/**
+ * The final form of a streamed suggestion message once its stream ended.
+ * A cancelled stream keeps the suggestions that arrived before the cancel.
+ */
+const finishSuggestionStream = (
+  message: ChatMessage,
+  end: SuggestionStreamEnd
+): ChatMessage => {
+  const { stream, ...finished } = message;
+  const suggestions = end.cancelled
+    ? finished.suggestions || []
+    : end.suggestions || [];
+
+  if (suggestions.length > 0) return { ...finished, suggestions };
+
+  let text = NO_SUGGESTIONS_TEXT;
+  if (end.cancelled) text = "Suggestion request cancelled.";
+  else if (end.error) {
+    text = `Error getting command suggestions: ${end.error}`;
+  } else if (end.fixerError) {
+    text = `Command suggestions unavailable: ${end.fixerError}`;
+  }
+  return {
+    ...finished,
+    text,
+    isError: !end.cancelled,
+    isSuggestion: false,
+    suggestions: undefined,
+  };
+};
 
 function App() {
-  const [messages, setMessages] = useState<Message[]>([
+  const [messages, setMessages] = useState<ChatMessage[]>([
     {
-      id: 1,
+      id: WELCOME_MESSAGE_ID,
       text: "Welcome to the terminal. Error messages will appear here.",
       isError: false,
       timestamp: new Date(),
     },
   ]);
+  const [socket, setSocket] = useState<Socket | null>(null);
+  const [sessions, setSessions] = useState<TerminalSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<ShellProfile[]>([]);
+  const [authToken, setAuthToken] = useState<string | null>(getAuthToken);
+  const [loginNotice, setLoginNotice] = useState<string | undefined>();
+  const [terminalController] = useState(() => new TerminalController());
+  // Recordings in progress, by session id
+  const [recordings, setRecordings] = useState<Record<string, Recording>>({});
+  const [recordingsOpen, setRecordingsOpen] = useState(false);
+  // Suggestions run in the terminal, by session, whose outcome is feedback
+  const acceptedRunsRef = useRef<Record<string, string>>({});
+  // Suggestion sets on screen that the user hasn't acted on yet, by message
+  const openSuggestionsRef = useRef<
+    Record<string, { sessionId: string; commands: string[] }>
+  >({});
+  const seenSuggestionsRef = useRef(new Set<string>());
+  const [historyLoaded, setHistoryLoaded] = useState(false);
+  // Messages as they were last saved, so only changed ones are written
+  const savedMessagesRef = useRef(new Map<string, ChatMessage>());
+
+  // Bring back the chat from before the reload. Suggestion streams the
+  // reload cut off end as cancelled, and old suggestion sets aren't offered
+  // for feedback again
+  useEffect(() => {
+    loadChatHistory()
+      .then((history) => {
+        history.forEach((m) => {
+          savedMessagesRef.current.set(m.id, m);
+          seenSuggestionsRef.current.add(m.id);
+        });
+        if (history.length === 0) return;
+        const restored = history.map((m) =>
+          m.stream
+            ? finishSuggestionStream(m, {
+                streamId: m.stream.id,
+                cancelled: true,
+              })
+            : m
+        );
+        setMessages((prev) => [
+          ...restored,
+          ...prev.filter((m) => m.id !== WELCOME_MESSAGE_ID),
+        ]);
+      })
+      .catch((err) => console.error("Error loading chat history:", err))
+      .finally(() => setHistoryLoaded(true));
+  }, []);
+
+  // Save new and changed messages once the chat is quiet for a moment, so a
+  // streaming reply isn't written on every token
+  useEffect(() => {
+    if (!historyLoaded) return;
+    const timer = setTimeout(() => {
+      const changed = messages.filter(
+        (m) =>
+          m.id !== WELCOME_MESSAGE_ID &&
+          savedMessagesRef.current.get(m.id) !== m
+      );
+      changed.forEach((m) => savedMessagesRef.current.set(m.id, m));
+      saveChatMessages(changed).catch((err) =>
+        console.error("Error saving chat history:", err)
+      );
+    }, HISTORY_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [messages, historyLoaded]);
 
-  // Memoize addMessage to prevent unnecessary re-renders
-  const addMessage = useCallback((text: string, isError: boolean) => {
-    setMessages((prevMessages) => [
-      ...prevMessages,
-      {
-        id: Date.now(),
-        text,
-        isError,
-        timestamp: new Date(),
-      },
-    ]);
+  // Back to the login screen when the server rejects our session token
+  const handleUnauthorized = useCallback(() => {
+    clearAuthToken();
+    setAuthToken(null);
+    setLoginNotice("Your session has expired. Please log in again.");
   }, []);
 
+  useEffect(
+    () => installAuthInterceptors(handleUnauthorized),
+    [handleUnauthorized]
+  );
+
+  const handleLogin = useCallback((token: string) => {
+    setLoginNotice(undefined);
+    setAuthToken(token);
+  }, []);
+
+  const handleLogout = useCallback(async () => {
+    await logout();
+    setAuthToken(null);
+  }, []);
+
+  // Memoize addMessage to prevent unnecessary re-renders. Returns the new
+  // message's id
+  const addMessage = useCallback(
+    (text: string, isError: boolean, sessionId?: string) => {
+      const id = newMessageId();
+      setMessages((prevMessages) => [
+        ...prevMessages,
+        {
+          id,
+          text,
+          isError,
+          timestamp: new Date(),
+          sessionId,
+        },
+      ]);
+      return id;
+    },
+    []
+  );
+
   // Memoize addErrorMessage for Terminal component
   const addErrorMessage = useCallback(
-    (message: string) => {
-      addMessage(message, true);
+    (message: string, sessionId?: string) => {
+      addMessage(message, true, sessionId);
     },
     [addMessage]
   );
 
-  // Add command suggestions to the chat panel
-  const addSuggestions = useCallback(
-    (
-      originalCommand: string,
-      errorMessage: string,
-      suggestions: CommandSuggestion[]
+  // Analyze a failure, growing its suggestion message in place as the
+  // model's reply streams in
+  const analyzeFailure = useCallback(
+    async (
+      failure: CommandFailure,
+      sessionId?: string,
+      options: { more?: boolean; refresh?: boolean } = {}
     ) => {
+      if (!socket) return;
+
+      const streamId = randomId();
       setMessages((prevMessages) => [
         ...prevMessages,
         {
-          id: Date.now(),
-          text: `Suggestions for: ${originalCommand}`,
+          id: newMessageId(),
+          text: `Suggestions for: ${failure.command}`,
           isError: false,
           isSuggestion: true,
-          suggestions,
+          suggestions: [],
           timestamp: new Date(),
+          sessionId,
+          failure,
+          stream: { id: streamId, text: "" },
         },
       ]);
+
+      try {
+        await streamFixSuggestions(socket, streamId, failure, {
+          ...options,
+          sessionId,
+        });
+      } catch (err: any) {
+        console.error("Error starting suggestion stream:", err);
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.stream?.id === streamId
+              ? finishSuggestionStream(m, {
+                  streamId,
+                  error: err?.message || String(err),
+                })
+              : m
+          )
+        );
+      }
     },
-    []
+    [socket]
+  );
+
+  // Ask the LLM for suggestions beyond the ones the offline rules gave
+  const requestMoreSuggestions = useCallback(
+    (failure: CommandFailure, sessionId?: string) =>
+      analyzeFailure(failure, sessionId, { more: true }),
+    [analyzeFailure]
+  );
+
+  // Ask again, bypassing the backend's suggestion cache
+  const refreshSuggestions = useCallback(
+    (failure: CommandFailure, sessionId?: string) =>
+      analyzeFailure(failure, sessionId, { refresh: true }),
+    [analyzeFailure]
   );
 
-  // Run a command in the terminal
+  const cancelSuggestions = useCallback(
+    (streamId: string) => {
+      if (!socket) return;
+      cancelSuggestionStream(socket, streamId).catch((err) =>
+        console.error("Error cancelling suggestions:", err)
+      );
+    },
+    [socket]
+  );
+
+  const openSession = useCallback(
+    async (target: Socket, profile?: string) => {
+      try {
+        const session = await createSession(target, { profile });
+        setSessions((prev) => [...prev, session]);
+        setActiveSessionId(session.id);
+
+        if (session.fallbackFrom) {
+          addMessage(
+            `${session.fallbackFrom} is not installed; ${session.name} is using ${session.shell} instead.`,
+            true,
+            session.id
+          );
+        }
+      } catch (err) {
+        console.error("Error creating terminal session:", err);
+        addMessage("Unable to open a new terminal session.", true);
+      }
+    },
+    [addMessage]
+  );
+
+  // One socket per browser window, shared by every terminal tab
+  useEffect(() => {
+    if (!authToken) return;
+
+    const newSocket = createTerminalSocket(authToken);
+
+    newSocket.on("connect_error", (err: Error) => {
+      if (err.message === "Unauthorized") {
+        newSocket.disconnect();
+        handleUnauthorized();
+      }
+    });
+
+    newSocket.on("auth:expired", handleUnauthorized);
+
+    newSocket.on(
+      "session:exit",
+      ({ sessionId }: { sessionId: string; exitCode: number }) => {
+        setSessions((prev) => prev.filter((s) => s.id !== sessionId));
+        setRecordings(({ [sessionId]: _, ...rest }) => rest);
+      }
+    );
+
+    // A recording that stopped by itself, at the size limit
+    newSocket.on(
+      "recording:stopped",
+      ({
+        sessionId,
+        recording,
+      }: {
+        sessionId: string;
+        recording: Recording;
+      }) => {
+        setRecordings(({ [sessionId]: _, ...rest }) => rest);
+        addMessage(
+          `Recording of ${recording.title} stopped: it reached the size limit.`,
+          true,
+          sessionId
+        );
+      }
+    );
+
+    // Live output of background commands, grown in place in their message
+    newSocket.on(
+      "exec:output",
+      ({ execId, ...chunk }: BackgroundOutputChunk & { execId: string }) => {
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.exec?.run.id === execId
+              ? { ...m, exec: appendBackgroundOutput(m.exec, chunk) }
+              : m
+          )
+        );
+      }
+    );
+
+    newSocket.on("exec:exit", (exit: BackgroundExit) => {
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.exec?.run.id === exit.execId
+            ? { ...m, exec: { ...m.exec, exit } }
+            : m
+        )
+      );
+    });
+
+    // Streamed suggestions: the raw reply and each suggestion as it completes
+    const updateStream = (
+      streamId: string,
+      update: (message: ChatMessage, stream: SuggestionStream) => ChatMessage
+    ) =>
+      setMessages((prev) =>
+        prev.map((m) => (m.stream?.id === streamId ? update(m, m.stream) : m))
+      );
+
+    newSocket.on(
+      "assist:token",
+      ({ streamId, text }: { streamId: string; text: string }) =>
+        updateStream(streamId, (m, stream) => ({
+          ...m,
+          stream: { ...stream, text: stream.text + text },
+        }))
+    );
+
+    newSocket.on(
+      "assist:suggestion",
+      ({
+        streamId,
+        suggestion,
+      }: {
+        streamId: string;
+        suggestion: CommandSuggestion;
+      }) =>
+        updateStream(streamId, (m) => ({
+          ...m,
+          suggestions: [...(m.suggestions || []), suggestion],
+        }))
+    );
+
+    // A repair round replaces the reply streamed so far
+    newSocket.on("assist:restart", ({ streamId }: { streamId: string }) =>
+      updateStream(streamId, (m, stream) => ({
+        ...m,
+        suggestions: [],
+        stream: { ...stream, text: "" },
+      }))
+    );
+
+    newSocket.on("assist:end", (end: SuggestionStreamEnd) =>
+      updateStream(end.streamId, (m) => finishSuggestionStream(m, end))
+    );
+
+    // On every (re)connect, adopt the sessions that survived a page reload or
+    // a dropped connection; open a fresh one if none are left
+    const syncSessions = async () => {
+      try {
+        const existing = await listSessions(newSocket);
+        if (existing.length > 0) {
+          setSessions(existing);
+        } else {
+          setSessions([]);
+          openSession(newSocket);
+        }
+      } catch (err) {
+        console.error("Error listing terminal sessions:", err);
+      }
+      try {
+        const inProgress: Record<string, Recording> = {};
+        for (const recording of await listRecordings()) {
+          if (recording.sessionId) inProgress[recording.sessionId] = recording;
+        }
+        setRecordings(inProgress);
+      } catch (err) {
+        console.error("Error listing recordings:", err);
+      }
+    };
+
+    newSocket.on("connect", syncSessions);
+    setSocket(newSocket);
+
+    return () => {
+      newSocket.disconnect();
+      setSocket(null);
+      setSessions([]);
+      setRecordings({});
+    };
+  }, [authToken, addMessage, openSession, handleUnauthorized]);
+
+  // Shell profiles offered when opening a new tab
+  useEffect(() => {
+    if (!authToken) return;
+    fetchShellProfiles()
+      .then((config) => setProfiles(config.profiles))
+      .catch((err) => console.error("Error loading shell profiles:", err));
+  }, [authToken]);
+
+  // Keep a valid tab selected when sessions come and go
+  useEffect(() => {
+    if (!sessions.some((s) => s.id === activeSessionId)) {
+      setActiveSessionId(sessions.length > 0 ? sessions[0].id : null);
+    }
+  }, [sessions, activeSessionId]);
+
+  useEffect(() => {
+    terminalController.setActiveSession(activeSessionId);
+  }, [terminalController, activeSessionId]);
+
+  const handleRename = useCallback(
+    async (sessionId: string, name: string) => {
+      if (!socket) return;
+      try {
+        const renamed = await renameSession(socket, sessionId, name);
+        setSessions((prev) =>
+          prev.map((s) => (s.id === sessionId ? renamed : s))
+        );
+      } catch (err) {
+        console.error("Error renaming session:", err);
+      }
+    },
+    [socket]
+  );
+
+  const handleClose = useCallback(
+    async (sessionId: string) => {
+      if (!socket) return;
+      try {
+        await closeSession(socket, sessionId);
+      } catch (err) {
+        console.error("Error closing session:", err);
+      }
+      setSessions((prev) => prev.filter((s) => s.id !== sessionId));
+    },
+    [socket]
+  );
+
+  const handleStartRecording = useCallback(
+    async (sessionId: string, input: boolean) => {
+      if (!socket) return;
+      try {
+        const recording = await startRecording(socket, sessionId, { input });
+        setRecordings((prev) => ({ ...prev, [sessionId]: recording }));
+      } catch (err: any) {
+        addMessage(
+          `Unable to start recording: ${err.message}`,
+          true,
+          sessionId
+        );
+      }
+    },
+    [socket, addMessage]
+  );
+
+  const handleStopRecording = useCallback(
+    async (sessionId: string) => {
+      if (!socket) return;
+      try {
+        const recording = await stopRecording(socket, sessionId);
+        if (recording) {
+          addMessage(
+            `Recording of ${recording.title} saved. Open 🎞 to play or download it.`,
+            false,
+            sessionId
+          );
+        }
+      } catch (err) {
+        console.error("Error stopping recording:", err);
+      }
+      setRecordings(({ [sessionId]: _, ...rest }) => rest);
+    },
+    [socket, addMessage]
+  );
+
+  // Run a command in the terminal of the given session (or the active tab),
+  // or with `insertOnly` put it at the prompt for the user to finish.
+  // Resolves with how it went once the shell reports it finished; the
+  // assistant is told about it too
   const runCommand = useCallback(
-    (command: string) => {
+    async (
+      command: string,
+      sessionId?: string,
+      { insertOnly = false }: { insertOnly?: boolean } = {}
+    ): Promise<RunResult | undefined> => {
       if (!command || typeof command !== "string") {
         console.warn("Invalid command passed to runCommand:", command);
         return;
       }
 
-      // The terminal component will expose this function globally
-      if ((window as any).runTerminalCommand) {
-        try {
-          (window as any).runTerminalCommand(command);
-          // Also add the command as a message to show what was executed
-          addMessage(`Executed: ${command}`, false);
-        } catch (e) {
-          console.error("Error running command:", e);
-          // Add an error message if the command execution fails
-          addMessage(`Failed to execute: ${command}. Please try again.`, true);
-        }
-      } else {
-        console.warn("runTerminalCommand function not available");
+      const targetId =
+        sessionId && sessions.some((s) => s.id === sessionId)
+          ? sessionId
+          : activeSessionId;
+      if (!targetId || !terminalController.hasTerminal(targetId)) {
+        console.warn("No terminal available for session:", targetId);
         addMessage(`Unable to run command: Terminal not ready`, true);
+        return;
+      }
+
+      setActiveSessionId(targetId);
+      // Also add the command as a message to show what was executed
+      const messageId = addMessage(
+        insertOnly
+          ? `Inserted into the prompt: ${command}`
+          : `Executed: ${command}`,
+        false,
+        targetId
+      );
+      try {
+        const result = await terminalController.run(command, {
+          sessionId: targetId,
+          insertOnly,
+        });
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.id === messageId
+              ? {
+                  ...m,
+                  outcome: {
+                    exitCode: result.exitCode,
+                    durationMs: result.durationMs,
+                  },
+                }
+              : m
+          )
+        );
+        if (socket) {
+          reportSuggestionRun(socket, targetId, result).catch((err) =>
+            console.error("Error reporting suggestion outcome:", err)
+          );
+        }
+        return result;
+      } catch (err) {
+        // Shells without integration run it all the same; we just can't
+        // tell how it went
+        if (
+          !(err instanceof TerminalControllerError && err.code === "untracked")
+        ) {
+          console.error("Error running command:", err);
+        }
       }
     },
-    [addMessage]
+    [addMessage, sessions, activeSessionId, terminalController, socket]
+  );
+
+  // Run a command in the background, outside the terminal; its output
+  // streams into the chat
+  const runInBackground = useCallback(
+    async (command: string, sessionId?: string) => {
+      if (!socket) return;
+      try {
+        const run = await startBackgroundCommand(socket, {
+          command,
+          sessionId,
+        });
+        setMessages((prevMessages) => [
+          ...prevMessages,
+          {
+            id: newMessageId(),
+            text: `Run in background: ${command}`,
+            isError: false,
+            timestamp: new Date(),
+            sessionId,
+            exec: { run, output: [] },
+          },
+        ]);
+      } catch (err: any) {
+        addMessage(
+          `Unable to run in the background: ${err?.message || err}`,
+          true,
+          sessionId
+        );
+      }
+    },
+    [socket, addMessage]
   );
 
+  // Ask the backend for commands that do what the user typed in the chat,
+  // tailored to the active session
+  const askForCommands = useCallback(
+    async (text: string) => {
+      if (!socket) return;
+      const sessionId = activeSessionId || undefined;
+      addMessage("Looking for commands...", false, sessionId);
+      try {
+        const suggestions = await suggestCommands(socket, text, sessionId);
+        if (suggestions.length === 0) {
+          addMessage("No command found for that request.", true, sessionId);
+          return;
+        }
+        setMessages((prevMessages) => [
+          ...prevMessages,
+          {
+            id: newMessageId(),
+            text: `Commands for: ${text}`,
+            isError: false,
+            isSuggestion: true,
+            suggestions,
+            timestamp: new Date(),
+            sessionId,
+            request: text,
+          },
+        ]);
+      } catch (err: any) {
+        addMessage(
+          `Unable to suggest commands: ${err?.message || err}`,
+          true,
+          sessionId
+        );
+      }
+    },
+    [socket, activeSessionId, addMessage]
+  );
+
+  // Explain a command or output selected in a terminal or the chat
+  const explainText = useCallback(
+    async (text: string, kind: ExplainKind, sessionId?: string) => {
+      const shell = sessions.find((s) => s.id === sessionId)?.shell;
+      addMessage(
+        kind === "command" ? "Explaining command..." : "Explaining output...",
+        false,
+        sessionId
+      );
+      try {
+        const explanation = await requestExplanation(text, kind, shell);
+        setMessages((prevMessages) => [
+          ...prevMessages,
+          {
+            id: newMessageId(),
+            text: explanation.summary,
+            isError: false,
+            timestamp: new Date(),
+            sessionId,
+            explanation,
+          },
+        ]);
+      } catch (err: any) {
+        addMessage(
+          `Unable to explain: ${
+            err?.response?.data?.error || err?.message || err
+          }`,
+          true,
+          sessionId
+        );
+      }
+    },
+    [sessions, addMessage]
+  );
+
+  // A suggestion set is open for feedback once it has finished streaming
+  useEffect(() => {
+    messages.forEach((m) => {
+      if (!m.suggestions?.length || m.stream || !m.sessionId) return;
+      if (seenSuggestionsRef.current.has(m.id)) return;
+      seenSuggestionsRef.current.add(m.id);
+      openSuggestionsRef.current[m.id] = {
+        sessionId: m.sessionId,
+        commands: m.suggestions.map((s) => s.command),
+      };
+    });
+  }, [messages]);
+
+  const sendFeedback = useCallback(
+    (sessionId: string, events: SuggestionFeedbackEvent[]) => {
+      if (!socket || events.length === 0) return;
+      reportSuggestionFeedback(socket, sessionId, events).catch((err) =>
+        console.error("Error recording suggestion feedback:", err)
+      );
+    },
+    [socket]
+  );
+
+  // The user ran one suggestion of a set, passing over the others
+  const chooseSuggestion = useCallback(
+    (
+      messageId: string,
+      suggestion: CommandSuggestion,
+      sessionId: string | undefined,
+      background: boolean,
+      command = suggestion.command
+    ) => {
+      const open = openSuggestionsRef.current[messageId];
+      delete openSuggestionsRef.current[messageId];
+      const targetId = sessionId || open?.sessionId;
+      if (!targetId) return;
+
+      // The outcome that comes back is for the command as it was sent
+      if (!background) {
+        acceptedRunsRef.current[targetId] = command.trim();
+      }
+      sendFeedback(targetId, [
+        { type: "accepted", command: suggestion.command },
+        ...(open?.commands || [])
+          .filter((command) => command !== suggestion.command)
+          .map((command) => ({ type: "ignored" as const, command })),
+      ]);
+    },
+    [sendFeedback]
+  );
+
+  // Record how a suggestion run in the terminal went. A command the user
+  // typed themselves passes over the suggestions on screen for that session
+  useEffect(
+    () =>
+      terminalController.subscribe(({ sessionId, result, requested }) => {
+        const command = result.command.trim();
+        if (acceptedRunsRef.current[sessionId] === command) {
+          delete acceptedRunsRef.current[sessionId];
+          sendFeedback(sessionId, [
+            { type: "outcome", command, exitCode: result.exitCode },
+          ]);
+          return;
+        }
+        if (requested) return;
+
+        const ignored: SuggestionFeedbackEvent[] = [];
+        Object.entries(openSuggestionsRef.current).forEach(([id, open]) => {
+          if (open.sessionId !== sessionId) return;
+          delete openSuggestionsRef.current[id];
+          open.commands.forEach((c) =>
+            ignored.push({ type: "ignored", command: c })
+          );
+        });
+        sendFeedback(sessionId, ignored);
+      }),
+    [terminalController, sendFeedback]
+  );
+
+  // Every command the shells report finishing goes into the command history
+  useEffect(() => {
+    if (!socket) return;
+    return terminalController.subscribe(({ sessionId, result }) => {
+      recordHistory(socket, sessionId, result).catch((err) =>
+        console.error("Error recording command history:", err)
+      );
+    });
+  }, [socket, terminalController]);
+
+  // Start the active tab's conversation with the assistant over
+  const startNewConversation = useCallback(async () => {
+    if (!socket || !activeSessionId) return;
+    try {
+      await resetConversation(socket, activeSessionId);
+      addMessage(
+        "Started a new conversation. The assistant no longer remembers earlier requests in this tab.",
+        false,
+        activeSessionId
+      );
+    } catch (err: any) {
+      addMessage(
+        `Unable to reset the conversation: ${err?.message || err}`,
+        true,
+        activeSessionId
+      );
+    }
+  }, [socket, activeSessionId, addMessage]);
+
+  // Download the active tab's chat, e.g. for incident notes
+  const exportActiveChat = useCallback(
+    (format: ChatExportFormat) => {
+      const session = sessions.find((s) => s.id === activeSessionId);
+      if (!session) return;
+      const { filename, content, type } = exportChat(
+        messages.filter((m) => m.sessionId === session.id),
+        session.name,
+        format
+      );
+      downloadFile(filename, content, type);
+    },
+    [messages, sessions, activeSessionId]
+  );
+
+  const cancelBackgroundRun = useCallback(
+    (execId: string) => {
+      if (!socket) return;
+      cancelBackgroundCommand(socket, execId).catch((err) =>
+        console.error("Error cancelling background command:", err)
+      );
+    },
+    [socket]
+  );
+
+  if (!authToken) {
+    return (
+      <div className="App">
+        <Login onLogin={handleLogin} notice={loginNotice} />
+      </div>
+    );
+  }
+
   return (
-    <div className="App">
-      <div className="split-screen">
-        <div className="chat-side">
-          <ChatPanel
-            messages={messages}
-            addMessage={addMessage}
-            runCommand={runCommand}
-          />
-        </div>
-        <div className="terminal-side">
-          <Terminal
-            addErrorMessage={addErrorMessage}
-            addMessage={addMessage}
-            addSuggestions={addSuggestions}
-            runCommand={runCommand}
-          />
+    <TerminalControllerContext.Provider value={terminalController}>
+      <div className="App">
+        <div className="split-screen">
+          <div className="chat-side">
+            <ChatPanel
+              messages={messages}
+              sessions={sessions}
+              addMessage={addMessage}
+              runCommand={runCommand}
+              runInBackground={runInBackground}
+              requestMoreSuggestions={requestMoreSuggestions}
+              refreshSuggestions={refreshSuggestions}
+              cancelSuggestions={cancelSuggestions}
+              askForCommands={askForCommands}
+              explainText={explainText}
+              cancelBackgroundRun={cancelBackgroundRun}
+              resetConversation={startNewConversation}
+              onSuggestionChosen={chooseSuggestion}
+              onExport={exportActiveChat}
+              onLogout={handleLogout}
+            />
+          </div>
+          <div className="terminal-side">
+            {socket && (
+              <TerminalTabs
+                socket={socket}
+                sessions={sessions}
+                profiles={profiles}
+                activeSessionId={activeSessionId}
+                onSelect={setActiveSessionId}
+                onCreate={(profile) => openSession(socket, profile)}
+                onRename={handleRename}
+                onClose={handleClose}
+                recordings={recordings}
+                onStartRecording={handleStartRecording}
+                onStopRecording={handleStopRecording}
+                onOpenRecordings={() => setRecordingsOpen(true)}
+                addErrorMessage={addErrorMessage}
+                addMessage={addMessage}
+                analyzeFailure={analyzeFailure}
+                explainText={explainText}
+              />
+            )}
+          </div>
         </div>
+        {recordingsOpen && (
+          <RecordingsDialog onClose={() => setRecordingsOpen(false)} />
+        )}
       </div>
-    </div>
+    </TerminalControllerContext.Provider>
   );
 }
 
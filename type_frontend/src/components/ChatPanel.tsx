@@ -1,44 +1,353 @@
-import React, { useState, useRef, useEffect } from "react";
+import React, { useState, useRef, useEffect, useCallback } from "react";
 import "./ChatPanel.css";
-import { CommandSuggestion } from "../utils/commandFixerAgent";
-
-interface Message {
-  id: number;
-  text: string;
-  isError: boolean;
-  timestamp: Date;
-  suggestions?: CommandSuggestion[];
-  isSuggestion?: boolean;
-}
+import ConfirmCommandDialog from "./ConfirmCommandDialog";
+import SuggestionEditor from "./SuggestionEditor";
+import {
+  CommandFailure,
+  CommandSuggestion,
+  RiskLevel,
+  checkCommandRisk,
+} from "../utils/commandFixerAgent";
+import { BackgroundExit, TerminalSession } from "../utils/terminalSessions";
+import { stripAnsi } from "../utils/shellIntegration";
+import { ExplainKind } from "../utils/explain";
+import { ChatMessage } from "../utils/chatHistory";
+import { ChatExportFormat } from "../utils/chatExport";
+
+// How much of a streaming reply is shown while it comes in
+const STREAM_PREVIEW_CHARS = 600;
+
+// Keyboard shortcuts for the latest suggestion set; they work from the
+// terminal too
+const SHORTCUT_HELP = [
+  "Alt+Shift+1…9 or ↑/↓: pick a suggestion",
+  "Alt+Shift+R or Enter: run it",
+  "Alt+Shift+I: insert it into the prompt",
+  "Alt+Shift+E: edit it",
+  "Alt+Shift+C: copy it",
+].join("\n");
+
+// Tooltip with everything known about a suggestion
+const describeSuggestion = (suggestion: CommandSuggestion) => {
+  const lines = [suggestion.description];
+  if (suggestion.addresses) lines.push(`Fixes: ${suggestion.addresses}`);
+  if (suggestion.steps) {
+    suggestion.steps.forEach((step, index) =>
+      lines.push(`${index + 1}. ${step.command} (${step.description})`)
+    );
+  }
+  if (suggestion.riskReasons && suggestion.riskReasons.length > 0) {
+    lines.push(`Risk: ${suggestion.riskReasons.join("; ")}`);
+  }
+  if (suggestion.feedback) {
+    lines.push(
+      `Commands like this worked ${suggestion.feedback.worked}× and failed ${suggestion.feedback.failed}× for you`
+    );
+  }
+  if (suggestion.confidence !== undefined) {
+    lines.push(`Confidence: ${Math.round(suggestion.confidence * 100)}%`);
+  }
+  if (suggestion.source === "rule") {
+    lines.push(`Offline rule: ${suggestion.rule}`);
+  }
+  return lines.filter(Boolean).join("\n");
+};
+
+type ChatFilter = "all" | "errors" | "suggestions";
+
+// Everything in a message the search box looks at
+const searchableText = (message: ChatMessage) =>
+  [
+    message.text,
+    message.failure?.command,
+    message.exec?.run.command,
+    message.explanation?.text,
+    message.explanation?.summary,
+    ...(message.suggestions || []).flatMap((s) => [s.command, s.description]),
+  ]
+    .filter(Boolean)
+    .join("\n")
+    .toLowerCase();
+
+const matchesFilter = (message: ChatMessage, filter: ChatFilter) => {
+  if (filter === "errors") {
+    return (
+      message.isError ||
+      (message.exec?.exit !== undefined && !message.exec.exit.success) ||
+      (message.outcome !== undefined && message.outcome.exitCode !== 0)
+    );
+  }
+  if (filter === "suggestions") return !!message.isSuggestion;
+  return true;
+};
+
+// Short status line for a finished background command
+const describeExit = (exit: BackgroundExit) => {
+  const seconds = `${(exit.durationMs / 1000).toFixed(1)}s`;
+  let status = `exit ${exit.exitCode} · ${seconds}`;
+  if (exit.cancelled) status = `cancelled after ${seconds}`;
+  else if (exit.timedOut) status = `timed out after ${seconds}`;
+  if (exit.stdoutTruncated || exit.stderrTruncated) {
+    status += " · output limit reached";
+  }
+  return status;
+};
 
 interface ChatPanelProps {
-  messages: Message[];
-  addMessage: (text: string, isError: boolean) => void;
-  runCommand?: (command: string) => void;
+  messages: ChatMessage[];
+  sessions: TerminalSession[];
+  addMessage: (text: string, isError: boolean, sessionId?: string) => void;
+  runCommand?: (
+    command: string,
+    sessionId?: string,
+    options?: { insertOnly?: boolean }
+  ) => void;
+  runInBackground?: (command: string, sessionId?: string) => void;
+  cancelBackgroundRun?: (execId: string) => void;
+  requestMoreSuggestions?: (
+    failure: CommandFailure,
+    sessionId?: string
+  ) => void;
+  refreshSuggestions?: (failure: CommandFailure, sessionId?: string) => void;
+  /** Stops a suggestion reply that is still streaming in */
+  cancelSuggestions?: (streamId: string) => void;
+  /** Turns a natural-language request into command suggestions */
+  askForCommands?: (text: string) => void;
+  /** Explains a command or a piece of output */
+  explainText?: (text: string, kind: ExplainKind, sessionId?: string) => void;
+  /**
+   * Called when the user runs a suggestion, for feedback on the set.
+   * `command` is what actually runs, the suggestion as the user edited it
+   */
+  onSuggestionChosen?: (
+    messageId: string,
+    suggestion: CommandSuggestion,
+    sessionId: string | undefined,
+    background: boolean,
+    command: string
+  ) => void;
+  /** Makes the assistant forget the active tab's conversation */
+  resetConversation?: () => void;
+  /** Downloads the active tab's chat */
+  onExport?: (format: ChatExportFormat) => void;
+  onLogout?: () => void;
 }
 
 const ChatPanel: React.FC<ChatPanelProps> = ({
   messages,
+  sessions,
   addMessage,
   runCommand,
+  runInBackground,
+  cancelBackgroundRun,
+  requestMoreSuggestions,
+  refreshSuggestions,
+  cancelSuggestions,
+  askForCommands,
+  explainText,
+  resetConversation,
+  onSuggestionChosen,
+  onExport,
+  onLogout,
 }) => {
   const [inputValue, setInputValue] = useState("");
+  const [query, setQuery] = useState("");
+  const [filter, setFilter] = useState<ChatFilter>("all");
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (inputValue.trim()) {
-      addMessage(inputValue, false);
-      setInputValue("");
+    const text = inputValue.trim();
+    if (!text) return;
+
+    addMessage(text, false);
+    setInputValue("");
+    askForCommands?.(text);
+  };
+
+  // A high-risk suggestion waiting for the user to confirm it
+  const [pendingRun, setPendingRun] = useState<{
+    messageId: string;
+    suggestion: CommandSuggestion;
+    command: string;
+    sessionId?: string;
+    background: boolean;
+    /** The risk of `command`, which differs from the suggestion's if edited */
+    riskLevel?: RiskLevel;
+    riskReasons?: string[];
+  } | null>(null);
+
+  // The suggestion open in the inline editor
+  const [editing, setEditing] = useState<{
+    messageId: string;
+    index: number;
+  } | null>(null);
+
+  // The pill whose command was just copied, as "messageId:index"
+  const [copied, setCopied] = useState<string | null>(null);
+
+  // The suggestion the keyboard shortcuts act on, in the latest set
+  const [selected, setSelected] = useState({ messageId: "", index: 0 });
+
+  // Suggestions run in the session they came from. `command` is the
+  // suggestion as the user edited it, if they did
+  const runSuggestion = (
+    messageId: string,
+    suggestion: CommandSuggestion,
+    sessionId: string | undefined,
+    background: boolean,
+    command = suggestion.command
+  ) => {
+    onSuggestionChosen?.(messageId, suggestion, sessionId, background, command);
+    if (background) runInBackground?.(command, sessionId);
+    else runCommand?.(command, sessionId);
+  };
+
+  // High-risk suggestions only run after an explicit confirmation. An
+  // edited command isn't the one the backend classified, so it is checked
+  // again, and treated as high risk when the check fails
+  const handleRunSuggestion = async (
+    messageId: string,
+    suggestion: CommandSuggestion,
+    sessionId: string | undefined,
+    background = false,
+    command = suggestion.command
+  ) => {
+    let { riskLevel, riskReasons } = suggestion;
+    if (command.trim() !== suggestion.command.trim()) {
+      try {
+        const risk = await checkCommandRisk(command);
+        riskLevel = risk.level;
+        riskReasons = risk.reasons;
+      } catch (err) {
+        console.error("Error checking the edited command's risk:", err);
+        riskLevel = "high";
+        riskReasons = ["The edited command's risk couldn't be checked"];
+      }
+    }
+
+    if (riskLevel === "high") {
+      setPendingRun({
+        messageId,
+        suggestion,
+        command,
+        sessionId,
+        background,
+        riskLevel,
+        riskReasons,
+      });
+    } else {
+      runSuggestion(messageId, suggestion, sessionId, background, command);
     }
   };
 
-  const handleRunCommand = (command: string) => {
-    if (runCommand) {
-      runCommand(command);
+  // Inserted commands wait at the prompt for Enter, so they need no
+  // confirmation
+  const insertSuggestion = (
+    messageId: string,
+    suggestion: CommandSuggestion,
+    sessionId: string | undefined,
+    command = suggestion.command
+  ) => {
+    onSuggestionChosen?.(messageId, suggestion, sessionId, false, command);
+    runCommand?.(command, sessionId, { insertOnly: true });
+  };
+
+  const copyCommand = (command: string, key: string) => {
+    if (!navigator.clipboard) {
+      addMessage("Copying to the clipboard needs a secure (https) page", true);
+      return;
     }
+    navigator.clipboard.writeText(command).then(
+      () => {
+        setCopied(key);
+        setTimeout(
+          () => setCopied((current) => (current === key ? null : current)),
+          1500
+        );
+      },
+      (err) => {
+        console.error("Error copying command:", err);
+        addMessage("Couldn't copy the command to the clipboard", true);
+      }
+    );
   };
 
+  const latestSet = [...messages]
+    .reverse()
+    .find((m) => m.isSuggestion && m.suggestions && m.suggestions.length > 0);
+  const selectedIndex =
+    latestSet && selected.messageId === latestSet.id ? selected.index : 0;
+
+  // Returns whether the key press was one of the suggestion shortcuts
+  const handleShortcut = (e: KeyboardEvent) => {
+    if (!e.altKey || !e.shiftKey || e.ctrlKey || e.metaKey) return false;
+    if (!latestSet || pendingRun || editing) return false;
+
+    const suggestions = latestSet.suggestions!;
+    const suggestion = suggestions[selectedIndex];
+    const digit = e.code.match(/^Digit([1-9])$/);
+    if (digit) {
+      const index = Number(digit[1]) - 1;
+      if (index >= suggestions.length) return false;
+      setSelected({ messageId: latestSet.id, index });
+      return true;
+    }
+
+    switch (e.code) {
+      case "ArrowUp":
+      case "ArrowDown": {
+        const step = e.code === "ArrowUp" ? -1 : 1;
+        setSelected({
+          messageId: latestSet.id,
+          index:
+            (selectedIndex + step + suggestions.length) % suggestions.length,
+        });
+        return true;
+      }
+      case "Enter":
+      case "KeyR":
+        handleRunSuggestion(latestSet.id, suggestion, latestSet.sessionId);
+        return true;
+      case "KeyI":
+        insertSuggestion(latestSet.id, suggestion, latestSet.sessionId);
+        return true;
+      case "KeyE":
+        setEditing({ messageId: latestSet.id, index: selectedIndex });
+        return true;
+      case "KeyC":
+        copyCommand(suggestion.command, `${latestSet.id}:${selectedIndex}`);
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  // Listen while capturing so the shortcuts win over a focused terminal
+  const shortcutRef = useRef(handleShortcut);
+  shortcutRef.current = handleShortcut;
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!shortcutRef.current(e)) return;
+      e.preventDefault();
+      e.stopPropagation();
+    };
+    window.addEventListener("keydown", onKeyDown, true);
+    return () => window.removeEventListener("keydown", onKeyDown, true);
+  }, []);
+
+  const cancelPendingRun = useCallback(() => setPendingRun(null), []);
+
+  const sessionName = (sessionId?: string) =>
+    sessionId ? sessions.find((s) => s.id === sessionId)?.name : undefined;
+
+  const search = query.trim().toLowerCase();
+  const visibleMessages = messages.filter(
+    (m) =>
+      matchesFilter(m, filter) &&
+      (!search || searchableText(m).includes(search))
+  );
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -48,76 +357,440 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
     <div className="chat-panel">
       <div className="chat-header">
         <h2>Terminal Messages</h2>
+        <div className="chat-header-actions">
+          {resetConversation && (
+            <button
+              className="logout-btn"
+              title="Make the assistant forget this tab's earlier requests, fixes and outcomes"
+              onClick={resetConversation}
+            >
+              New conversation
+            </button>
+          )}
+          {onLogout && (
+            <button className="logout-btn" onClick={onLogout}>
+              Log out
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="chat-toolbar">
+        <input
+          type="search"
+          className="chat-search"
+          placeholder="Search messages"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <select
+          className="chat-filter"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as ChatFilter)}
+        >
+          <option value="all">All</option>
+          <option value="errors">Errors</option>
+          <option value="suggestions">Suggestions</option>
+        </select>
+        {onExport && (
+          <>
+            <button
+              className="refresh-suggestions-btn"
+              title="Download this tab's chat as Markdown"
+              onClick={() => onExport("markdown")}
+            >
+              ⬇ MD
+            </button>
+            <button
+              className="refresh-suggestions-btn"
+              title="Download this tab's chat as JSON"
+              onClick={() => onExport("json")}
+            >
+              ⬇ JSON
+            </button>
+          </>
+        )}
       </div>
 
       <div className="messages-container">
-        {messages.map((message) => {
+        {visibleMessages.length === 0 && (
+          <div className="chat-no-matches">No messages match.</div>
+        )}
+        {visibleMessages.map((message) => {
           const messageDate = new Date(message.timestamp);
           const timeString = messageDate.toLocaleTimeString([], {
             hour: "2-digit",
             minute: "2-digit",
           });
 
+          const tabName = sessionName(message.sessionId);
+
           return (
             <React.Fragment key={message.id}>
-              <div className="message-time-header">{timeString}</div>
+              <div className="message-time-header">
+                {timeString}
+                {tabName && (
+                  <span className="message-session"> · {tabName}</span>
+                )}
+              </div>
 
-              {message.isSuggestion ? (
+              {message.explanation ? (
+                <div className="message explanation-message">
+                  <div className="explanation-title">
+                    🔎{" "}
+                    {message.explanation.kind === "command"
+                      ? "Command"
+                      : "Output"}
+                    {message.explanation.risk &&
+                      message.explanation.risk.level !== "low" && (
+                        <span
+                          className={`pill-risk risk-${message.explanation.risk.level}`}
+                          title={message.explanation.risk.reasons.join("\n")}
+                        >
+                          {message.explanation.risk.level} risk
+                        </span>
+                      )}
+                  </div>
+                  <pre className="explanation-text">
+                    {message.explanation.text}
+                  </pre>
+                  <div className="message-text">
+                    {message.explanation.summary}
+                  </div>
+                  {message.explanation.parts.length > 0 && (
+                    <dl className="explanation-parts">
+                      {message.explanation.parts.map((part, index) => (
+                        <React.Fragment key={index}>
+                          <dt>
+                            <code>{part.text}</code>
+                          </dt>
+                          <dd>{part.explanation}</dd>
+                        </React.Fragment>
+                      ))}
+                    </dl>
+                  )}
+                  {message.explanation.sideEffects.length > 0 && (
+                    <div className="explanation-side-effects">
+                      <div className="explanation-heading">
+                        {message.explanation.kind === "command"
+                          ? "Side effects"
+                          : "What changed"}
+                      </div>
+                      <ul>
+                        {message.explanation.sideEffects.map(
+                          (effect, index) => (
+                            <li key={index}>{effect}</li>
+                          )
+                        )}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              ) : message.exec ? (
+                <div className="message exec-message">
+                  <div className="exec-header">
+                    <span className="exec-command">
+                      $ {message.exec.run.command}
+                    </span>
+                    {message.exec.exit ? (
+                      <span className="exec-header-actions">
+                        {explainText && message.exec.output.length > 0 && (
+                          <button
+                            className="exec-cancel-btn"
+                            title="Explain this output"
+                            onClick={() =>
+                              explainText(
+                                stripAnsi(
+                                  message
+                                    .exec!.output.map((chunk) => chunk.data)
+                                    .join("")
+                                ),
+                                "output",
+                                message.sessionId
+                              )
+                            }
+                          >
+                            Explain
+                          </button>
+                        )}
+                        <span
+                          className={`exec-status ${
+                            message.exec.exit.success ? "succeeded" : "failed"
+                          }`}
+                        >
+                          {describeExit(message.exec.exit)}
+                        </span>
+                      </span>
+                    ) : (
+                      <button
+                        className="exec-cancel-btn"
+                        onClick={() =>
+                          cancelBackgroundRun?.(message.exec!.run.id)
+                        }
+                      >
+                        Cancel
+                      </button>
+                    )}
+                  </div>
+                  {message.exec.run.cwd && (
+                    <div className="exec-cwd">{message.exec.run.cwd}</div>
+                  )}
+                  {message.exec.output.length > 0 && (
+                    <pre className="exec-output">
+                      {message.exec.output.map((chunk, index) => (
+                        <span
+                          key={index}
+                          className={
+                            chunk.stream === "stderr"
+                              ? "exec-stderr"
+                              : undefined
+                          }
+                        >
+                          {stripAnsi(chunk.data)}
+                        </span>
+                      ))}
+                    </pre>
+                  )}
+                </div>
+              ) : message.isSuggestion ? (
                 <div className="message suggestion-message">
                   <div className="message-text">
                     <div className="suggestion-title">
-                      💡 Suggestions:
-                      {message.suggestions &&
-                        message.suggestions.length > 0 && (
+                      <span>
+                        💡 Suggestions:
+                        {message === latestSet && (
+                          <span
+                            className="suggestion-shortcuts"
+                            title={SHORTCUT_HELP}
+                          >
+                            ⌨
+                          </span>
+                        )}
+                      </span>
+                      <span className="suggestion-actions">
+                        {message.stream && cancelSuggestions && (
                           <button
                             className="refresh-suggestions-btn"
-                            onClick={() => {
-                              // Force refresh all suggestions by clearing cache
-                              console.log(
-                                "Force refresh suggestions requested"
-                              );
-                              addMessage("🔄 Refreshing suggestions...", false);
-                              // Run the command again to trigger new suggestions
-                              if (
-                                runCommand &&
-                                message.suggestions &&
-                                message.suggestions[0]
-                              ) {
-                                // Get original command by extracting from the message
-                                const originalCmd = message.text.includes(
-                                  "Error after:"
-                                )
-                                  ? message.text
-                                      .split("Error after:")[1]
-                                      ?.split("\n")[0]
-                                      ?.trim()
-                                  : message.suggestions[0].command;
-
-                                if (originalCmd) {
-                                  runCommand(originalCmd);
-                                }
-                              }
-                            }}
+                            title="Stop waiting and cancel the request"
+                            onClick={() =>
+                              cancelSuggestions(message.stream!.id)
+                            }
                           >
-                            🔄 Refresh
+                            ✕ Cancel
                           </button>
                         )}
+                        {!message.stream &&
+                          message.failure &&
+                          requestMoreSuggestions && (
+                            <button
+                              className="refresh-suggestions-btn"
+                              title="Ask the AI for suggestions beyond the built-in rules"
+                              onClick={() =>
+                                requestMoreSuggestions(
+                                  message.failure!,
+                                  message.sessionId
+                                )
+                              }
+                            >
+                              ✨ More
+                            </button>
+                          )}
+                        {!message.stream &&
+                          message.suggestions &&
+                          message.suggestions.length > 0 &&
+                          ((message.request && askForCommands) ||
+                            (message.failure && refreshSuggestions)) && (
+                            <button
+                              className="refresh-suggestions-btn"
+                              title="Ask again for a fresh answer instead of the cached one"
+                              onClick={() => {
+                                // Natural-language answers are asked for
+                                // again; known failures are re-analyzed
+                                // without the cache. Nothing is run
+                                if (message.request && askForCommands) {
+                                  askForCommands(message.request);
+                                } else if (
+                                  message.failure &&
+                                  refreshSuggestions
+                                ) {
+                                  refreshSuggestions(
+                                    message.failure,
+                                    message.sessionId
+                                  );
+                                }
+                              }}
+                            >
+                              🔄 Refresh
+                            </button>
+                          )}
+                      </span>
                     </div>
                     <div className="suggestion-pills">
                       {message.suggestions?.map((suggestion, index) => (
                         <div
                           key={index}
-                          className="suggestion-pill"
-                          title={suggestion.description}
-                          onClick={() => handleRunCommand(suggestion.command)}
+                          className={`suggestion-pill${
+                            suggestion.riskLevel
+                              ? ` risk-${suggestion.riskLevel}`
+                              : ""
+                          }${
+                            message === latestSet && index === selectedIndex
+                              ? " selected"
+                              : ""
+                          }`}
+                          title={describeSuggestion(suggestion)}
+                          onClick={() =>
+                            handleRunSuggestion(
+                              message.id,
+                              suggestion,
+                              message.sessionId
+                            )
+                          }
                         >
+                          {suggestion.source === "rule" && (
+                            <span className="pill-source">rule</span>
+                          )}
+                          {suggestion.feedback &&
+                            suggestion.feedback.worked !==
+                              suggestion.feedback.failed && (
+                              <span className="pill-source">
+                                {suggestion.feedback.worked >
+                                suggestion.feedback.failed
+                                  ? "worked before"
+                                  : "failed before"}
+                              </span>
+                            )}
+                          {suggestion.steps && (
+                            <span className="pill-source">
+                              {suggestion.steps.length} steps
+                            </span>
+                          )}
+                          {suggestion.riskLevel && (
+                            <span
+                              className={`pill-risk risk-${suggestion.riskLevel}`}
+                            >
+                              {suggestion.riskLevel} risk
+                            </span>
+                          )}
                           <span className="pill-command">
                             {suggestion.command}
                           </span>
                           <span className="pill-run-icon">▶</span>
+                          {runInBackground && (
+                            <button
+                              className="pill-action-btn"
+                              title="Run in the background, outside the terminal, and show the output here"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleRunSuggestion(
+                                  message.id,
+                                  suggestion,
+                                  message.sessionId,
+                                  true
+                                );
+                              }}
+                            >
+                              ⚙️
+                            </button>
+                          )}
+                          {explainText && (
+                            <button
+                              className="pill-action-btn"
+                              title="Explain what this command does"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                explainText(
+                                  suggestion.command,
+                                  "command",
+                                  message.sessionId
+                                );
+                              }}
+                            >
+                              ❓
+                            </button>
+                          )}
+                          {runCommand && (
+                            <button
+                              className="pill-action-btn"
+                              title="Insert into the prompt without running it"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                insertSuggestion(
+                                  message.id,
+                                  suggestion,
+                                  message.sessionId
+                                );
+                              }}
+                            >
+                              ⤵
+                            </button>
+                          )}
+                          <button
+                            className="pill-action-btn"
+                            title="Edit before running"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setEditing({ messageId: message.id, index });
+                            }}
+                          >
+                            ✏️
+                          </button>
+                          <button
+                            className="pill-action-btn"
+                            title="Copy to the clipboard"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              copyCommand(
+                                suggestion.command,
+                                `${message.id}:${index}`
+                              );
+                            }}
+                          >
+                            {copied === `${message.id}:${index}` ? "✓" : "📋"}
+                          </button>
                         </div>
                       ))}
                     </div>
+                    {editing?.messageId === message.id &&
+                      message.suggestions?.[editing.index] && (
+                        <SuggestionEditor
+                          key={`${message.id}:${editing.index}`}
+                          command={message.suggestions[editing.index].command}
+                          failedCommand={message.failure?.command}
+                          onRun={(command) => {
+                            handleRunSuggestion(
+                              message.id,
+                              message.suggestions![editing.index],
+                              message.sessionId,
+                              false,
+                              command
+                            );
+                            setEditing(null);
+                          }}
+                          onInsert={
+                            runCommand
+                              ? (command) => {
+                                  insertSuggestion(
+                                    message.id,
+                                    message.suggestions![editing.index],
+                                    message.sessionId,
+                                    command
+                                  );
+                                  setEditing(null);
+                                }
+                              : undefined
+                          }
+                          onCancel={() => setEditing(null)}
+                        />
+                      )}
+                    {message.stream && (
+                      <pre className="stream-preview">
+                        {message.stream.text
+                          ? message.stream.text.slice(-STREAM_PREVIEW_CHARS)
+                          : "Getting command suggestions..."}
+                        <span className="stream-cursor">▍</span>
+                      </pre>
+                    )}
                   </div>
                 </div>
               ) : (
@@ -127,6 +800,27 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
                   }`}
                 >
                   <div className="message-text">{message.text}</div>
+                  {message.outcome && (
+                    <span
+                      className={`exec-status ${
+                        message.outcome.exitCode === 0 ? "succeeded" : "failed"
+                      }`}
+                    >
+                      exit {message.outcome.exitCode} ·{" "}
+                      {(message.outcome.durationMs / 1000).toFixed(1)}s
+                    </span>
+                  )}
+                  {message.isError && explainText && (
+                    <button
+                      className="message-explain-btn"
+                      title="Explain this output"
+                      onClick={() =>
+                        explainText(message.text, "output", message.sessionId)
+                      }
+                    >
+                      Explain
+                    </button>
+                  )}
                 </div>
               )}
             </React.Fragment>
@@ -135,12 +829,35 @@ const ChatPanel: React.FC<ChatPanelProps> = ({
         <div ref={messagesEndRef} />
       </div>
 
+      {pendingRun && (
+        <ConfirmCommandDialog
+          suggestion={{
+            ...pendingRun.suggestion,
+            command: pendingRun.command,
+            riskLevel: pendingRun.riskLevel,
+            riskReasons: pendingRun.riskReasons,
+          }}
+          background={pendingRun.background}
+          onConfirm={() => {
+            runSuggestion(
+              pendingRun.messageId,
+              pendingRun.suggestion,
+              pendingRun.sessionId,
+              pendingRun.background,
+              pendingRun.command
+            );
+            setPendingRun(null);
+          }}
+          onCancel={cancelPendingRun}
+        />
+      )}
+
       <form className="chat-input-form" onSubmit={handleSubmit}>
         <input
           type="text"
           value={inputValue}
           onChange={(e) => setInputValue(e.target.value)}
-          placeholder="Type a message..."
+          placeholder="Describe a command, e.g. find files over 100MB changed this week"
           className="chat-input"
         />
         <button type="submit" className="send-button">
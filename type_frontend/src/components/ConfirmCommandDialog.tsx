@@ -0,0 +1,67 @@
+import React, { useEffect, useRef } from "react";
+import { CommandSuggestion } from "../utils/commandFixerAgent";
+import "./ConfirmCommandDialog.css";
+
+interface ConfirmCommandDialogProps {
+  suggestion: CommandSuggestion;
+  /** Whether the command will run in the background rather than the terminal */
+  background?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Asks before running a high-risk suggestion, showing the exact command and
+ * why it was flagged. Cancel has the focus so Enter never runs it by accident.
+ */
+const ConfirmCommandDialog: React.FC<ConfirmCommandDialogProps> = ({
+  suggestion,
+  background,
+  onConfirm,
+  onCancel,
+}) => {
+  const cancelRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    cancelRef.current?.focus();
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onCancel();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onCancel]);
+
+  return (
+    <div className="confirm-overlay" onClick={onCancel}>
+      <div
+        className="confirm-dialog"
+        role="alertdialog"
+        aria-labelledby="confirm-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 id="confirm-title">⚠️ Run a high-risk command?</h3>
+        <pre className="confirm-command">{suggestion.command}</pre>
+        {suggestion.riskReasons && suggestion.riskReasons.length > 0 && (
+          <ul className="confirm-reasons">
+            {suggestion.riskReasons.map((reason) => (
+              <li key={reason}>{reason}</li>
+            ))}
+          </ul>
+        )}
+        {suggestion.description && (
+          <p className="confirm-description">{suggestion.description}</p>
+        )}
+        <div className="confirm-actions">
+          <button ref={cancelRef} className="confirm-cancel" onClick={onCancel}>
+            Cancel
+          </button>
+          <button className="confirm-run" onClick={onConfirm}>
+            {background ? "Run in background anyway" : "Run anyway"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConfirmCommandDialog;
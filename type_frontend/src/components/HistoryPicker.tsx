@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Socket } from "socket.io-client";
+import {
+  HistoryEntry,
+  HistoryQuery,
+  deleteHistory,
+  queryHistory,
+} from "../utils/terminalSessions";
+import "./HistoryPicker.css";
+
+// Wait for a pause in typing before asking the backend
+const SEARCH_DELAY_MS = 150;
+
+type Scope = "all" | "cwd" | "session";
+type Status = "all" | "succeeded" | "failed";
+
+interface HistoryPickerProps {
+  socket: Socket;
+  sessionId: string;
+  /** The session's working directory, for the "this directory" scope */
+  cwd?: string;
+  /** Puts the command at the prompt, and runs it when `execute` is set */
+  onPick: (command: string, execute: boolean) => void;
+  /** Closes the picker; with `native` the shell's own search takes over */
+  onClose: (native?: boolean) => void;
+}
+
+const formatAge = (startedAt: string) => {
+  const seconds = (Date.now() - Date.parse(startedAt)) / 1000;
+  if (seconds < 60) return "just now";
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  if (seconds < 7 * 86400) return `${Math.floor(seconds / 86400)}d ago`;
+  return new Date(startedAt).toLocaleDateString();
+};
+
+/**
+ * Ctrl+R-style search over the command history of every terminal. Typing
+ * filters fuzzily; Enter runs the selected command, Shift+Enter puts it at
+ * the prompt, Shift+Delete forgets it, and Ctrl+R again hands over to the
+ * shell's own reverse search.
+ */
+const HistoryPicker: React.FC<HistoryPickerProps> = ({
+  socket,
+  sessionId,
+  cwd,
+  onPick,
+  onClose,
+}) => {
+  const [query, setQuery] = useState("");
+  const [scope, setScope] = useState<Scope>("all");
+  const [status, setStatus] = useState<Status>("all");
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to search again after a delete
+  const [revision, setRevision] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    let stale = false;
+    const filters: HistoryQuery = { q: query, limit: 100 };
+    if (scope === "cwd" && cwd) filters.cwd = cwd;
+    if (scope === "session") filters.sessionId = sessionId;
+    if (status !== "all") filters.status = status;
+
+    const timer = setTimeout(() => {
+      queryHistory(socket, filters)
+        .then((found) => {
+          if (stale) return;
+          setEntries(found);
+          setSelected(0);
+          setError(null);
+        })
+        .catch((err) => {
+          if (!stale) setError(err?.message || String(err));
+        });
+    }, SEARCH_DELAY_MS);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [socket, sessionId, cwd, query, scope, status, revision]);
+
+  // Keep the selected entry in view while moving through the list
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: "nearest" });
+  }, [selected]);
+
+  const forget = (entry: HistoryEntry) => {
+    deleteHistory(socket, { command: entry.command })
+      .then(() => setRevision((r) => r + 1))
+      .catch((err) => setError(err?.message || String(err)));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const entry = entries[selected];
+    if (e.key === "Escape") {
+      onClose();
+    } else if (e.ctrlKey && e.code === "KeyR") {
+      onClose(true);
+    } else if (e.key === "ArrowDown") {
+      setSelected((i) => Math.min(i + 1, entries.length - 1));
+    } else if (e.key === "ArrowUp") {
+      setSelected((i) => Math.max(i - 1, 0));
+    } else if (e.key === "Enter" && entry) {
+      onPick(entry.command, !e.shiftKey);
+    } else if (e.key === "Delete" && e.shiftKey && entry) {
+      forget(entry);
+    } else {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  return (
+    <div className="history-picker" onKeyDown={handleKeyDown}>
+      <div className="history-picker-filters">
+        <input
+          ref={inputRef}
+          className="history-picker-search"
+          placeholder="Search command history"
+          spellCheck={false}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <select
+          value={scope}
+          onChange={(e) => setScope(e.target.value as Scope)}
+        >
+          <option value="all">All terminals</option>
+          <option value="session">This terminal</option>
+          {cwd && <option value="cwd">This directory</option>}
+        </select>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as Status)}
+        >
+          <option value="all">Any exit</option>
+          <option value="succeeded">Succeeded</option>
+          <option value="failed">Failed</option>
+        </select>
+      </div>
+      {error && <div className="history-picker-error">{error}</div>}
+      <ul ref={listRef} className="history-picker-list">
+        {entries.map((entry, index) => (
+          <li
+            key={entry.id}
+            className={index === selected ? "selected" : undefined}
+            title={[entry.cwd, entry.sessionName].filter(Boolean).join(" · ")}
+            onMouseEnter={() => setSelected(index)}
+            onClick={() => onPick(entry.command, false)}
+          >
+            <span className="history-picker-command">{entry.command}</span>
+            <span className="history-picker-meta">
+              {entry.count !== undefined && entry.count > 1 && (
+                <span>×{entry.count}</span>
+              )}
+              {entry.exitCode !== null && (
+                <span className={entry.exitCode === 0 ? "succeeded" : "failed"}>
+                  exit {entry.exitCode}
+                </span>
+              )}
+              <span>{formatAge(entry.startedAt)}</span>
+              <button
+                className="history-picker-delete"
+                title="Forget this command (Shift+Delete)"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  forget(entry);
+                }}
+              >
+                ✕
+              </button>
+            </span>
+          </li>
+        ))}
+        {entries.length === 0 && !error && (
+          <li className="history-picker-empty">No matching commands</li>
+        )}
+      </ul>
+      <div className="history-picker-hint">
+        Enter run · Shift+Enter insert · Shift+Del forget · Ctrl+R shell search
+        · Esc close
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPicker;
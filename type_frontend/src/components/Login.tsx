@@ -0,0 +1,61 @@
+import React, { useState } from "react";
+import { login } from "../utils/auth";
+import "./Login.css";
+
+interface LoginProps {
+  onLogin: (token: string) => void;
+  notice?: string;
+}
+
+const Login: React.FC<LoginProps> = ({ onLogin, notice }) => {
+  const [secret, setSecret] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!secret.trim()) return;
+
+    setSubmitting(true);
+    setError(null);
+    try {
+      const token = await login(secret.trim());
+      setSecret("");
+      onLogin(token);
+    } catch (err: any) {
+      setError(
+        err?.response?.data?.error ||
+          "Unable to reach the terminal server. Is the backend running?"
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="login-screen">
+      <form className="login-form" onSubmit={handleSubmit}>
+        <h2>Terminal login</h2>
+        <p className="login-hint">
+          Enter the server password or the access token printed in the backend
+          console.
+        </p>
+        {notice && <div className="login-notice">{notice}</div>}
+        <input
+          type="password"
+          className="login-input"
+          value={secret}
+          onChange={(e) => setSecret(e.target.value)}
+          placeholder="Password or access token"
+          autoFocus
+        />
+        {error && <div className="login-error">{error}</div>}
+        <button type="submit" className="login-button" disabled={submitting}>
+          {submitting ? "Logging in…" : "Log in"}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default Login;
@@ -0,0 +1,185 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Terminal as XTerm } from "xterm";
+import { Cast, parseCastSize } from "../utils/recordings";
+import "xterm/css/xterm.css";
+import "./RecordingPlayer.css";
+
+const SPEEDS = [0.5, 1, 2, 4];
+// How far the arrow keys skip, in seconds
+const SKIP_SECONDS = 5;
+// RIS, which clears the screen and scrollback
+const FULL_RESET = "\x1bc";
+
+interface RecordingPlayerProps {
+  cast: Cast;
+}
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+};
+
+/**
+ * Plays a recording back in a read-only terminal the size it was recorded
+ * at, with play/pause, speed and seek. Space toggles playback and the arrow
+ * keys skip; keyboard input events are not replayed, only output and
+ * resizes.
+ */
+const RecordingPlayer: React.FC<RecordingPlayerProps> = ({ cast }) => {
+  const { header, events, duration } = cast;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const termRef = useRef<XTerm | null>(null);
+  // Playback state the animation loop reads without re-rendering
+  const positionRef = useRef(0);
+  const nextEventRef = useRef(0);
+  const [position, setPosition] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const term = new XTerm({
+      cols: header.width,
+      rows: header.height,
+      disableStdin: true,
+      cursorBlink: false,
+      theme: {
+        background: "#1e1e1e",
+        foreground: "#f0f0f0",
+      },
+      fontFamily: "monospace",
+      fontSize: 14,
+      scrollback: 1000,
+    });
+    term.open(containerRef.current);
+    termRef.current = term;
+    nextEventRef.current = 0;
+    positionRef.current = 0;
+    setPosition(0);
+    return () => {
+      term.dispose();
+      termRef.current = null;
+    };
+  }, [header.width, header.height]);
+
+  // Applies the events up to `until`, writing their output in one go
+  const playUntil = useCallback(
+    (until: number) => {
+      const term = termRef.current;
+      if (!term) return;
+      let output = "";
+      let index = nextEventRef.current;
+      for (; index < events.length && events[index].time <= until; index++) {
+        const event = events[index];
+        if (event.code === "o") {
+          output += event.data;
+        } else if (event.code === "r") {
+          const size = parseCastSize(event.data);
+          // Writes are queued; resize once the output before it is shown
+          if (size) {
+            term.write(output, () => term.resize(size.cols, size.rows));
+            output = "";
+          }
+        }
+      }
+      if (output) term.write(output);
+      nextEventRef.current = index;
+      positionRef.current = until;
+      setPosition(until);
+    },
+    [events]
+  );
+
+  // Jumping back means replaying from the start on a cleared terminal. The
+  // reset goes through the write queue too, behind any output still in it
+  const seek = useCallback(
+    (to: number) => {
+      const target = Math.min(Math.max(to, 0), duration);
+      const term = termRef.current;
+      if (term && target < positionRef.current) {
+        term.write(FULL_RESET, () => term.resize(header.width, header.height));
+        nextEventRef.current = 0;
+      }
+      playUntil(target);
+    },
+    [duration, header.width, header.height, playUntil]
+  );
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const next = positionRef.current + ((now - last) / 1000) * speed;
+      last = now;
+      if (next >= duration) {
+        playUntil(duration);
+        setPlaying(false);
+        return;
+      }
+      playUntil(next);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, speed, duration, playUntil]);
+
+  const togglePlaying = () => {
+    // Playing again from the end starts over
+    if (!playing && positionRef.current >= duration) seek(0);
+    setPlaying(!playing);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === " ") {
+      togglePlaying();
+    } else if (e.key === "ArrowLeft") {
+      seek(positionRef.current - SKIP_SECONDS);
+    } else if (e.key === "ArrowRight") {
+      seek(positionRef.current + SKIP_SECONDS);
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <div className="recording-player" tabIndex={0} onKeyDown={handleKeyDown}>
+      <div className="recording-player-screen" ref={containerRef} />
+      <div className="recording-player-controls">
+        <button
+          className="recording-player-play"
+          title={playing ? "Pause (Space)" : "Play (Space)"}
+          onClick={togglePlaying}
+        >
+          {playing ? "⏸" : "▶"}
+        </button>
+        <input
+          className="recording-player-seek"
+          type="range"
+          min={0}
+          max={duration}
+          step={0.1}
+          value={position}
+          onChange={(e) => seek(Number(e.target.value))}
+        />
+        <span className="recording-player-time">
+          {formatTime(position)} / {formatTime(duration)}
+        </span>
+        <select
+          title="Playback speed"
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+        >
+          {SPEEDS.map((s) => (
+            <option key={s} value={s}>
+              {s}×
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default RecordingPlayer;
@@ -0,0 +1,196 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Recording } from "../utils/terminalSessions";
+import {
+  Cast,
+  deleteRecording,
+  fetchRecording,
+  listRecordings,
+  parseCast,
+} from "../utils/recordings";
+import { downloadFile } from "../utils/chatExport";
+import RecordingPlayer from "./RecordingPlayer";
+import "./RecordingsDialog.css";
+
+interface RecordingsDialogProps {
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024
+    ? `${bytes} B`
+    : bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const formatLength = (recording: Recording) => {
+  if (!recording.endedAt) return "recording…";
+  const seconds = Math.round(
+    (Date.parse(recording.endedAt) - Date.parse(recording.startedAt)) / 1000
+  );
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// Names the downloads after the tab and when it was recorded
+const fileName = (recording: Recording, extension: string) => {
+  const slug =
+    recording.title.replace(/[^\w.-]+/g, "-").toLowerCase() || "recording";
+  const time = recording.startedAt.slice(0, 19).replace(/:/g, "");
+  return `terminus-${slug}-${time}.${extension}`;
+};
+
+/**
+ * The session recordings on the backend: played back in place, downloaded
+ * as asciicast files for asciinema, or as plain text for bug reports.
+ */
+const RecordingsDialog: React.FC<RecordingsDialogProps> = ({ onClose }) => {
+  const [recordings, setRecordings] = useState<Recording[] | null>(null);
+  const [playing, setPlaying] = useState<{
+    recording: Recording;
+    cast: Cast;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(() => {
+    listRecordings()
+      .then((found) => {
+        setRecordings(found);
+        setError(null);
+      })
+      .catch((err) => setError(err?.message || String(err)));
+  }, []);
+
+  useEffect(reload, [reload]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  const play = async (recording: Recording) => {
+    try {
+      const cast = parseCast(await fetchRecording(recording.id, "cast"));
+      setPlaying({ recording, cast });
+      setError(null);
+    } catch (err: any) {
+      setError(err?.message || String(err));
+    }
+  };
+
+  const download = async (recording: Recording, format: "cast" | "text") => {
+    try {
+      const content = await fetchRecording(recording.id, format);
+      downloadFile(
+        fileName(recording, format === "cast" ? "cast" : "txt"),
+        content,
+        format === "cast" ? "application/x-asciicast" : "text/plain"
+      );
+    } catch (err: any) {
+      setError(err?.message || String(err));
+    }
+  };
+
+  const remove = async (recording: Recording) => {
+    if (!window.confirm(`Delete the recording of "${recording.title}"?`)) {
+      return;
+    }
+    try {
+      await deleteRecording(recording.id);
+      reload();
+    } catch (err: any) {
+      setError(err?.response?.data?.error || err?.message || String(err));
+    }
+  };
+
+  return (
+    <div className="recordings-overlay" onClick={onClose}>
+      <div
+        className="recordings-dialog"
+        role="dialog"
+        aria-labelledby="recordings-title"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="recordings-header">
+          <h3 id="recordings-title">
+            {playing ? `🎞 ${playing.recording.title}` : "🎞 Recordings"}
+          </h3>
+          {playing && (
+            <button onClick={() => setPlaying(null)}>← All recordings</button>
+          )}
+          <button title="Close (Esc)" onClick={onClose}>
+            ×
+          </button>
+        </div>
+        {error && <div className="recordings-error">{error}</div>}
+
+        {playing ? (
+          <RecordingPlayer key={playing.recording.id} cast={playing.cast} />
+        ) : (
+          <ul className="recordings-list">
+            {recordings?.map((recording) => (
+              <li key={recording.id}>
+                <div className="recordings-info">
+                  <span className="recordings-title">
+                    {recording.active && (
+                      <span
+                        className="recordings-live"
+                        title="Still recording"
+                      />
+                    )}
+                    {recording.title}
+                  </span>
+                  <span className="recordings-meta">
+                    {new Date(recording.startedAt).toLocaleString()} ·{" "}
+                    {formatLength(recording)} · {formatSize(recording.size)}
+                    {recording.input && " · with keystrokes"}
+                  </span>
+                </div>
+                <div className="recordings-actions">
+                  <button
+                    title="Play"
+                    disabled={recording.active}
+                    onClick={() => play(recording)}
+                  >
+                    ▶
+                  </button>
+                  <button
+                    title="Download as asciicast (.cast)"
+                    onClick={() => download(recording, "cast")}
+                  >
+                    ⬇ .cast
+                  </button>
+                  <button
+                    title="Download the output as plain text"
+                    onClick={() => download(recording, "text")}
+                  >
+                    ⬇ .txt
+                  </button>
+                  <button
+                    title={
+                      recording.active
+                        ? "Stop the recording to delete it"
+                        : "Delete"
+                    }
+                    disabled={recording.active}
+                    onClick={() => remove(recording)}
+                  >
+                    🗑
+                  </button>
+                </div>
+              </li>
+            ))}
+            {recordings?.length === 0 && (
+              <li className="recordings-empty">
+                No recordings yet. Start one with ⏺ in the tab bar.
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecordingsDialog;
@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from "react";
+import { diffCommands } from "../utils/commandDiff";
+import "./SuggestionEditor.css";
+
+interface SuggestionEditorProps {
+  /** The suggested command the editor starts with */
+  command: string;
+  /** The failed command the suggestion fixes, when there is one */
+  failedCommand?: string;
+  onRun: (command: string) => void;
+  onInsert?: (command: string) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Inline editor for a suggestion, shown in its chat bubble. The diff under
+ * the input compares the edit with the command that failed (or with the
+ * suggestion itself when nothing failed). Enter runs the command,
+ * Shift+Enter puts it at the prompt instead and Escape closes the editor.
+ */
+const SuggestionEditor: React.FC<SuggestionEditorProps> = ({
+  command,
+  failedCommand,
+  onRun,
+  onInsert,
+  onCancel,
+}) => {
+  const [value, setValue] = useState(command);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  const edited = value.trim();
+  const original = failedCommand || command;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Escape") {
+      e.preventDefault();
+      onCancel();
+    } else if (e.key === "Enter" && edited) {
+      e.preventDefault();
+      if (e.shiftKey && onInsert) onInsert(edited);
+      else if (!e.shiftKey) onRun(edited);
+    }
+  };
+
+  return (
+    <div className="suggestion-editor">
+      <input
+        ref={inputRef}
+        className="suggestion-editor-input"
+        value={value}
+        spellCheck={false}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={handleKeyDown}
+      />
+      <div className="suggestion-editor-label">
+        {failedCommand ? "Compared with the failed command" : "Your changes"}
+      </div>
+      <pre className="suggestion-editor-diff">
+        {diffCommands(original, edited).map((part, index) =>
+          part.change === "added" ? (
+            <ins key={index}>{part.text}</ins>
+          ) : part.change === "removed" ? (
+            <del key={index}>{part.text}</del>
+          ) : (
+            <span key={index}>{part.text}</span>
+          )
+        )}
+      </pre>
+      <div className="suggestion-editor-actions">
+        <button className="suggestion-editor-cancel" onClick={onCancel}>
+          Cancel
+        </button>
+        {onInsert && (
+          <button
+            className="suggestion-editor-insert"
+            title="Shift+Enter"
+            disabled={!edited}
+            onClick={() => onInsert(edited)}
+          >
+            Insert into prompt
+          </button>
+        )}
+        <button
+          className="suggestion-editor-run"
+          title="Enter"
+          disabled={!edited}
+          onClick={() => onRun(edited)}
+        >
+          Run
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SuggestionEditor;
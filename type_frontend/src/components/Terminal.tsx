@@ -1,918 +1,278 @@
-import React, { useEffect, useRef, useCallback } from "react";
+import React, { useEffect, useRef, useCallback, useState } from "react";
 import { Terminal as XTerm } from "xterm";
 import { FitAddon } from "xterm-addon-fit";
 import { WebLinksAddon } from "xterm-addon-web-links";
-import { Socket, io } from "socket.io-client";
-import axios from "axios";
-import { CommandSuggestion } from "../utils/commandFixerAgent";
+import { Socket } from "socket.io-client";
+import { CommandFailure } from "../utils/commandFixerAgent";
+import {
+  Diagnostic,
+  formatDiagnostic,
+  parseDiagnostics,
+} from "../utils/diagnostics";
+import {
+  CommandBlock,
+  ShellIntegrationParser,
+  stripAnsi,
+} from "../utils/shellIntegration";
+import { attachSession } from "../utils/terminalSessions";
+import {
+  promptInput,
+  useTerminalController,
+} from "../utils/terminalController";
+import { ExplainKind, guessExplainKind } from "../utils/explain";
+import HistoryPicker from "./HistoryPicker";
 import "xterm/css/xterm.css";
 import "./Terminal.css";
 
+// Exit status of a command interrupted with Ctrl+C; not worth fixing
+const SIGINT_EXIT_CODE = 130;
+
+// Chat line for a failed command: its first diagnostic with the hint, or the
+// last line of its output when no parser recognized it
+const describeFailure = (
+  command: string,
+  exitCode: number,
+  output: string,
+  diagnostics: Diagnostic[]
+) => {
+  const [first] = diagnostics;
+  const lastLine = output
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .pop();
+  const detail = first
+    ? `${formatDiagnostic(first)}${first.hint ? `\nHint: ${first.hint}` : ""}`
+    : lastLine || "No output";
+  return `Error after: ${command} (exit ${exitCode})\n→ ${detail}`;
+};
+
 interface TerminalProps {
-  addErrorMessage: (message: string) => void;
-  addMessage: (text: string, isError: boolean) => void;
-  addSuggestions: (
-    originalCommand: string,
-    errorMessage: string,
-    suggestions: CommandSuggestion[]
-  ) => void;
-  runCommand?: (command: string) => void;
+  socket: Socket;
+  sessionId: string;
+  shell: string;
+  active: boolean;
+  addErrorMessage: (message: string, sessionId?: string) => void;
+  addMessage: (text: string, isError: boolean, sessionId?: string) => void;
+  /** Streams suggestions for a failure into the chat */
+  analyzeFailure: (failure: CommandFailure, sessionId?: string) => void;
+  explainText?: (text: string, kind: ExplainKind, sessionId?: string) => void;
 }
 
+type ConnectionStatus = "connected" | "reconnecting" | "disconnected";
+
 const Terminal: React.FC<TerminalProps> = ({
-  addErrorMessage,
-  addMessage,
-  addSuggestions,
-  runCommand,
+  socket,
+  sessionId,
+  shell,
+  active,
+  addErrorMessage: addSessionErrorMessage,
+  addMessage: addSessionMessage,
+  analyzeFailure: analyzeSessionFailure,
+  explainText,
 }) => {
+  // Tag everything this terminal posts to the chat with its session
+  const addErrorMessage = useCallback(
+    (message: string) => addSessionErrorMessage(message, sessionId),
+    [addSessionErrorMessage, sessionId]
+  );
+  const addMessage = useCallback(
+    (text: string, isError: boolean) =>
+      addSessionMessage(text, isError, sessionId),
+    [addSessionMessage, sessionId]
+  );
+  const analyzeFailure = useCallback(
+    (failure: CommandFailure) => analyzeSessionFailure(failure, sessionId),
+    [analyzeSessionFailure, sessionId]
+  );
+
+  const controller = useTerminalController();
   const terminalRef = useRef<HTMLDivElement>(null);
   const terminalInstance = useRef<XTerm | null>(null);
   const socketRef = useRef<Socket | null>(null);
   const fitAddonRef = useRef<FitAddon | null>(null);
-  const processingErrorRef = useRef<boolean>(false);
   const lastCommandRef = useRef<string>("");
   const currentCommandRef = useRef<string>("");
-  const lastErrorRef = useRef<string>(""); // Track the last error we processed
   const commandHistoryRef = useRef<string[]>([]); // Track recent commands
-  const processedPairsRef = useRef<Set<string>>(new Set()); // Track command+error pairs we've already processed
+  const reportedErrorsRef = useRef<Set<string>>(new Set()); // Errors already reported for the last command
   const timeoutIdsRef = useRef<NodeJS.Timeout[]>([]); // Store all timeout IDs for cleanup
   const resizeObserverRef = useRef<ResizeObserver | null>(null); // Track ResizeObserver for cleanup
-
-  // Execute a command in the terminal
-  const executeCommand = useCallback((command: string) => {
-    if (!command) {
-      console.warn("Attempted to execute empty command");
-      return;
-    }
-
-    if (socketRef.current && terminalInstance.current) {
-      try {
-        // Write the command to terminal
-        terminalInstance.current.write(command);
-        // Send command to server
-        socketRef.current.emit("input", command);
-        // Also send an Enter key to execute
-        socketRef.current.emit("input", "\r");
-      } catch (e) {
-        console.error("Error executing command:", e);
-        // Try to recover if possible
-        const recoveryTimeout = setTimeout(() => {
-          // Check if references are still valid
-          if (socketRef.current && command) {
-            try {
-              socketRef.current.emit("input", command + "\r");
-            } catch (innerE) {
-              console.error("Retry command execution failed:", innerE);
-            }
-          }
-        }, 100);
-
-        // Add to timeout tracking for cleanup
-        timeoutIdsRef.current.push(recoveryTimeout);
-      }
-    } else {
-      console.error("Cannot execute command: terminal or socket not available");
-    }
-  }, []);
-
-  // Memoize the error detection function to prevent re-creating it on each render
-  const detectAndHandleError = useCallback(
+  const integrationParserRef = useRef(new ShellIntegrationParser()); // Parses OSC 133 / OSC 7 markers
+  const integrationActiveRef = useRef<boolean>(false); // True once the shell has sent a marker
+  const shellRef = useRef<string>(shell); // Shell this session runs
+  const outputOffsetRef = useRef<number | undefined>(undefined); // Scrollback offset of the last output we have
+  const attachingRef = useRef<boolean>(false); // True while a reattach handshake is in flight
+  const pendingInputRef = useRef<string[]>([]); // Keystrokes typed while offline
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>(
+    socket.connected ? "connected" : "reconnecting"
+  );
+  // Context menu offered for a selection, positioned inside the wrapper
+  const [selectionMenu, setSelectionMenu] = useState<{
+    x: number;
+    y: number;
+    text: string;
+  } | null>(null);
+
+  const [historyOpen, setHistoryOpen] = useState(false);
+
+  // Latest explain callback, for the key handler installed with the terminal
+  const explainSelectionRef = useRef<(kind?: ExplainKind) => boolean>(
+    () => false
+  );
+  explainSelectionRef.current = (kind?: ExplainKind) => {
+    const text = terminalInstance.current?.getSelection().trim();
+    if (!text || !explainText) return false;
+    explainText(text, kind || guessExplainKind(text), sessionId);
+    return true;
+  };
+
+  // Send input to the session, queueing it while the socket is offline or
+  // still reattaching so nothing typed during a network drop is lost
+  const sendInput = useCallback(
     (data: string) => {
-      // Don't process if we're already handling an error
-      if (processingErrorRef.current) return;
-
-      console.log(
-        "Checking terminal output for errors:",
-        data.substring(0, 100) + "..."
-      );
-
-      try {
-        // Detect exit codes with enhanced pattern recognition
-        const exitCodePattern = /exit (\d+)/i;
-        const exitCodeMatch = data.match(exitCodePattern);
-        let exitCodeValue = 0;
-
-        // Check if we found an exit code and it's not zero
-        if (exitCodeMatch && exitCodeMatch[1] !== "0") {
-          exitCodeValue = parseInt(exitCodeMatch[1], 10);
-          console.log(`Detected explicit non-zero exit code: ${exitCodeValue}`);
-        }
-
-        // Consider it an error if we have a non-zero exit code
-        const isNonZeroExit =
-          exitCodeValue > 0 ||
-          (data.includes("exit ") && !data.includes("exit 0"));
-
-        // Also check for common error indicator words when no exit code is available
-        // This is a simplified approach compared to the previous regex patterns
-        const hasErrorText = [
-          "error",
-          "command not found",
-          "permission denied",
-          "failed",
-          "invalid",
-          "not recognized",
-          "unexpected",
-          "traceback",
-          "exception",
-        ].some((errorText) => data.toLowerCase().includes(errorText));
-
-        if (isNonZeroExit || hasErrorText) {
-          // Set processing flag to prevent re-entrancy
-          processingErrorRef.current = true;
-          console.log(
-            hasErrorText
-              ? "Error text detected in terminal output!"
-              : `Non-zero exit code detected (${exitCodeValue || "unknown"})!`
-          );
-
-          // Split by both \n and \r\n to handle different line endings
-          const lines = data.split(/\r?\n/).filter((line) => line.trim());
-
-          // Find the specific line containing an error indicator
-          const errorKeywords = [
-            "error",
-            "command not found",
-            "permission denied",
-            "failed",
-            "invalid",
-            "not recognized",
-            "unexpected",
-            "traceback",
-            "exception",
-          ];
-
-          let errorMessage = lines.find((line) =>
-            errorKeywords.some((keyword) =>
-              line.toLowerCase().includes(keyword)
-            )
-          );
-
-          // Specific handling for common CLI tools where errors often appear in stdout
-          // even if they don't match our regular error patterns
-          const commonCliTools = [
-            "npm",
-            "yarn",
-            "npx",
-            "pnpm",
-            "cargo",
-            "pip",
-            "git",
-            "docker",
-          ];
-          const isCommonCliToolOutput = commonCliTools.some((tool) =>
-            lastCommandRef.current.trim().startsWith(tool)
-          );
-
-          if (isCommonCliToolOutput && !errorMessage) {
-            console.log("Checking CLI tool output for error indications");
-
-            // For CLI tools, look for lines containing keywords that suggest errors
-            const cliErrorKeywords = [
-              "error",
-              "fail",
-              "invalid",
-              "not found",
-              "not recognized",
-              "cannot",
-              "couldn't",
-              "missing",
-              "command not found",
-            ];
-
-            // Look for lines containing error keywords
-            errorMessage = lines.find((line) =>
-              cliErrorKeywords.some((keyword) =>
-                line.toLowerCase().includes(keyword)
-              )
-            );
-
-            // Specific handling for Yarn/NPM errors which often have a specific format
-            if (!errorMessage) {
-              // Look for patterns like "error Command "test" not found"
-              const yarnErrorLine = lines.find((line) =>
-                line.match(/error\s+Command\s+".*"\s+not found/i)
-              );
-
-              if (yarnErrorLine) {
-                errorMessage = yarnErrorLine;
-                console.log(
-                  "Found Yarn command not found error:",
-                  errorMessage
-                );
-              }
-
-              // Look for package.json not found errors
-              const packageJsonErrorLine = lines.find(
-                (line) =>
-                  line.includes("package.json") &&
-                  line.toLowerCase().includes("couldn't find")
-              );
-
-              if (packageJsonErrorLine) {
-                errorMessage = packageJsonErrorLine;
-                console.log("Found package.json error:", errorMessage);
-              }
-            }
+      if (
+        socketRef.current &&
+        socketRef.current.connected &&
+        !attachingRef.current
+      ) {
+        socketRef.current.emit("input", { sessionId, data });
+      } else {
+        pendingInputRef.current.push(data);
+      }
+    },
+    [sessionId]
+  );
 
-            if (errorMessage) {
-              console.log("Found CLI tool error message:", errorMessage);
-            }
-          }
+  // Write a command to the prompt, and run it unless `execute` is false.
+  // A command that is only inserted replaces whatever was typed there
+  const executeCommand = useCallback(
+    (command: string, execute = true) => {
+      if (!command) {
+        console.warn("Attempted to execute empty command");
+        return;
+      }
 
-          // If no specific error message was identified but we have a non-zero exit code
-          if (!errorMessage && isNonZeroExit) {
-            console.log("Using non-zero exit code as primary error indicator");
-
-            // Use a fallback error message
-            if (lines.length > 0) {
-              // Extract the exit code value if available
-              const exitCodeMatch = data.match(/exit (\d+)/i);
-              const exitCodeValue = exitCodeMatch
-                ? parseInt(exitCodeMatch[1], 10)
-                : 1;
-
-              // Use the first non-empty line as the error message (could be stdout instead of stderr)
-              errorMessage =
-                lines[0].trim() ||
-                `Non-zero exit code (${exitCodeValue}) with no matched error pattern`;
-              console.log("Using first line as error message:", errorMessage);
-            } else {
-              const exitCodeMatch = data.match(/exit (\d+)/i);
-              const exitCodeValue = exitCodeMatch
-                ? parseInt(exitCodeMatch[1], 10)
-                : 1;
-              errorMessage = `Non-zero exit code (${exitCodeValue}) with no output`;
-            }
+      if (socketRef.current && terminalInstance.current) {
+        try {
+          if (!execute) {
+            // The shell echoes the line back, ready to be edited
+            sendInput(promptInput(command, false));
+            terminalInstance.current.focus();
+            return;
           }
-
-          if (errorMessage) {
-            // Check if this is the same error we just processed
-            if (lastErrorRef.current === errorMessage) {
-              console.log("Skipping duplicate error:", errorMessage);
-              processingErrorRef.current = false;
-              return;
-            }
-
-            // Update our tracking of the last error we processed
-            lastErrorRef.current = errorMessage;
-
-            console.log("Error message identified:", errorMessage);
-            console.log("Last command was:", lastCommandRef.current);
-
-            // Analyze compound commands (commands with pipes or chains)
-            const isCompoundCommand =
-              lastCommandRef.current.includes("|") ||
-              lastCommandRef.current.includes("&&") ||
-              lastCommandRef.current.includes(";");
-
-            if (isCompoundCommand) {
-              console.log(
-                "Detected compound command with potential for partial failure"
-              );
-              // For compound commands, we need to be careful about which part failed
-              // This is handled by more detailed error analysis below
-            }
-
-            // Specific error type detection logging
-            if (
-              errorMessage === "unknown option --v" ||
-              errorMessage.includes("unknown option --v")
-            ) {
-              console.log(
-                "🐍 Python version flag error detected specifically:",
-                errorMessage
-              );
-            }
-
-            // Check for common CLI tools where errors often appear in stdout
-            const commonCliTools = [
-              "npm",
-              "yarn",
-              "npx",
-              "pnpm",
-              "cargo",
-              "pip",
-            ];
-
-            // Detect if this is a CLI tool error
-            const isCommonCliToolError = commonCliTools.some((tool) => {
-              // Check if command starts with the tool name
-              const startsWithTool = lastCommandRef.current.startsWith(tool);
-
-              // Look for error patterns in the output lines
-              const hasErrorIndication = lines.some(
-                (line) =>
-                  line.toLowerCase().includes("error") ||
-                  line.toLowerCase().includes("not found") ||
-                  line.toLowerCase().includes("couldn't find")
-              );
-
-              return startsWithTool && hasErrorIndication;
-            });
-
-            if (isCommonCliToolError) {
-              console.log(
-                "Detected error in common CLI tool output:",
-                lastCommandRef.current
-              );
-
-              // For CLI tool errors, make sure we include the most relevant error line
-              if (!errorMessage || errorMessage.trim() === "") {
-                // Find the most relevant error line
-                const errorLines = lines.filter(
-                  (line) =>
-                    line.toLowerCase().includes("error") ||
-                    line.toLowerCase().includes("not found") ||
-                    line.toLowerCase().includes("couldn't find")
-                );
-
-                if (errorLines.length > 0) {
-                  errorMessage = errorLines[0];
-                  console.log("Using detected CLI error line:", errorMessage);
-                }
-              }
-            }
-
-            // Special handling for various error types
-
-            // 0. Command not found errors - always use the exact command that caused the error
-            if (errorMessage.includes("command not found")) {
-              // First try the more specific shell error format (zsh: command not found: mk)
-              const shellErrorMatch = errorMessage.match(
-                /\w+:\s+command not found:\s+(\w+)/i
-              );
-              let commandName: string | undefined;
-
-              if (shellErrorMatch && shellErrorMatch[1]) {
-                // This matches patterns like "zsh: command not found: mk"
-                commandName = shellErrorMatch[1].trim();
-                console.log("📍 Shell command not found:", commandName);
-              } else {
-                // Fall back to the original pattern for errors like "command: command not found"
-                const commandMatch = errorMessage.match(
-                  /([^\s:]+):\s+command not found/
-                );
-                if (commandMatch && commandMatch[1]) {
-                  commandName = commandMatch[1].trim();
-                  console.log("📍 Basic command not found for:", commandName);
-                }
-              }
-
-              if (commandName) {
-                // Check command history to see if this command was recently used
-                const recentCommand = commandHistoryRef.current.find(
-                  (cmd) =>
-                    cmd === commandName || cmd.startsWith(commandName + " ")
-                );
-
-                if (recentCommand) {
-                  console.log(
-                    "Found matching command in history:",
-                    recentCommand
-                  );
-                  lastCommandRef.current = recentCommand;
-                }
-                // If the last command doesn't match what the error says, update it
-                else if (
-                  !lastCommandRef.current.startsWith(commandName + " ") &&
-                  lastCommandRef.current !== commandName
-                ) {
-                  console.log(
-                    "Updating lastCommandRef to match the failed command:",
-                    commandName
-                  );
-                  lastCommandRef.current = commandName;
-                }
-
-                // For command not found errors, we want to ensure we get fresh suggestions
-                // each time, so completely reset all processed pairs
-                console.log(
-                  "Command not found - completely resetting processed pairs"
-                );
-                processedPairsRef.current = new Set();
-              }
-            }
-
-            // 1. Node version errors
-            const isNodeVersionError =
-              (errorMessage.includes("bad option") &&
-                errorMessage.includes("-ver")) ||
-              errorMessage.match(/\/.*node:.*bad option/i) !== null;
-
-            if (
-              isNodeVersionError &&
-              !lastCommandRef.current.includes("node")
-            ) {
-              console.log(
-                "🔄 Detected node version error but command doesn't match. Setting command to 'node -ver'"
-              );
-              lastCommandRef.current = "node -ver";
-            }
-
-            // 2. Python errors
-            const isPythonError =
-              (errorMessage.includes("python") ||
-                errorMessage === "unknown option --v") &&
-              (errorMessage.includes("unknown option") ||
-                errorMessage.includes("invalid option"));
-
-            if (isPythonError && !lastCommandRef.current.includes("python")) {
-              console.log(
-                "🔄 Detected Python error but command doesn't match. Setting command appropriately"
-              );
-              // Check if it's likely a version check error
-              if (
-                errorMessage.includes("--v") ||
-                errorMessage.includes("-ver") ||
-                errorMessage === "unknown option --v"
-              ) {
-                lastCommandRef.current = "python --v";
-              }
-            }
-
-            // Debug log for specific error patterns
-            if (
-              lastCommandRef.current.includes("node") &&
-              (errorMessage.includes("bad option") ||
-                errorMessage.includes("-ver"))
-            ) {
-              console.log("🚨 Detected node command with bad option error!");
-            }
-
-            if (
-              lastCommandRef.current.includes("python") &&
-              (errorMessage.includes("unknown option") ||
-                errorMessage.includes("invalid option"))
-            ) {
-              console.log("🚨 Detected Python command with option error!");
-            }
-
-            // Format error to include the last command
-            let formattedError: string;
-
-            // Special handling for package manager errors
-            if (
-              lastCommandRef.current.startsWith("yarn") ||
-              lastCommandRef.current.startsWith("npm")
-            ) {
-              const cmdParts = lastCommandRef.current.split(" ");
-              const packageManager = cmdParts[0]; // yarn or npm
-
-              // Check if error indicates package.json not found
-              if (
-                errorMessage &&
-                errorMessage.toLowerCase().includes("package.json")
-              ) {
-                formattedError = `${errorMessage.trim()}\nTry: cd into a directory with a package.json file before running ${packageManager} commands`;
-              }
-              // Check if error indicates command not found
-              else if (
-                errorMessage &&
-                errorMessage.toLowerCase().includes("command") &&
-                errorMessage.toLowerCase().includes("not found")
-              ) {
-                formattedError = `${errorMessage.trim()}\nTry checking available scripts in package.json`;
-              }
-              // Default formatting
-              else {
-                formattedError = lastCommandRef.current
-                  ? `Error after: ${lastCommandRef.current}\n→ ${
-                      errorMessage?.trim() || "Unknown error"
-                    }`
-                  : errorMessage?.trim() || "Unknown error";
+          // Write the command to terminal
+          terminalInstance.current.write(command);
+          // Send command to server, with Enter to execute it
+          sendInput(promptInput(command, true));
+        } catch (e) {
+          console.error("Error executing command:", e);
+          // Try to recover if possible
+          const recoveryTimeout = setTimeout(() => {
+            // Check if references are still valid
+            if (socketRef.current && command) {
+              try {
+                sendInput(execute ? command + "\r" : command);
+              } catch (innerE) {
+                console.error("Retry command execution failed:", innerE);
               }
             }
-            // Default formatting for other commands
-            else {
-              formattedError = lastCommandRef.current
-                ? `Error after: ${lastCommandRef.current}\n→ ${
-                    errorMessage?.trim() || "Unknown error"
-                  }`
-                : errorMessage?.trim() || "Unknown error";
-            }
-
-            // Use requestAnimationFrame to avoid blocking the UI
-            requestAnimationFrame(async () => {
-              // Add the error message to the chat panel
-              addErrorMessage(formattedError);
-
-              // Try to suggest a fixed command if there's a last command
-              if (lastCommandRef.current) {
-                try {
-                  // Check if we've already processed this exact command+error pair
-                  // Add timestamp to avoid permanent caching (reset after 30 seconds)
-                  const currentTime = Math.floor(Date.now() / 1000);
-                  const commandErrorPair = `${lastCommandRef.current}|||${
-                    errorMessage?.trim() || "unknown-error"
-                  }|||${Math.floor(currentTime / 30)}`;
-
-                  if (processedPairsRef.current.has(commandErrorPair)) {
-                    console.log(
-                      "🔄 Skipping duplicate command+error pair:",
-                      commandErrorPair
-                    );
-                    processingErrorRef.current = false;
-                    return;
-                  }
-
-                  // Track that we're processing this command+error pair
-                  processedPairsRef.current.add(commandErrorPair);
+          }, 100);
 
-                  // Save the current command for history
-                  if (
-                    lastCommandRef.current &&
-                    !commandHistoryRef.current.includes(lastCommandRef.current)
-                  ) {
-                    commandHistoryRef.current.push(lastCommandRef.current);
-                    // Keep only the last 10 commands
-                    if (commandHistoryRef.current.length > 10) {
-                      commandHistoryRef.current.shift();
-                    }
-                  }
+          // Add to timeout tracking for cleanup
+          timeoutIdsRef.current.push(recoveryTimeout);
+        }
+      } else {
+        console.error(
+          "Cannot execute command: terminal or socket not available"
+        );
+      }
+    },
+    [sendInput]
+  );
 
-                  console.log(
-                    "Requesting command suggestions for:",
-                    lastCommandRef.current
-                  );
-
-                  // Add a loading message in the chat panel
-                  addMessage("Getting command suggestions...", false);
-
-                  // Get suggested fixes from the command fixer agent
-                  try {
-                    console.log(
-                      "Requesting command suggestions for:",
-                      lastCommandRef.current
-                    );
-
-                    // Add a loading message in the chat panel
-                    addMessage("Getting command suggestions...", false);
-
-                    let suggestions = [];
-                    try {
-                      // Try to extract the actual exit code from the terminal output
-                      // This will be our primary error detection mechanism
-                      const exitCodeMatch = data.match(/exit (\d+)/i);
-                      const exitCode =
-                        exitCodeMatch && exitCodeMatch[1] !== "0"
-                          ? parseInt(exitCodeMatch[1], 10)
-                          : isNonZeroExit
-                          ? 1
-                          : 0; // Use exit code 1 for errors without explicit code
-
-                      // Use error message if available, otherwise provide a detailed fallback
-                      const errorContent =
-                        errorMessage?.trim() ||
-                        (exitCode > 0
-                          ? `Non-zero exit code ${exitCode} detected with command: ${lastCommandRef.current}`
-                          : "");
-
-                      console.log(
-                        `Calling backend fix-command API with: command="${
-                          lastCommandRef.current
-                        }", exitCode=${exitCode}, error="${errorContent.substring(
-                          0,
-                          50
-                        )}..."`
-                      );
-
-                      // Call our backend API instead of direct command fixer
-                      const response = await axios.post(
-                        "http://localhost:3001/api/fix-command",
-                        {
-                          command: lastCommandRef.current,
-                        }
-                      );
-
-                      console.log("Backend API response:", response.data);
-
-                      if (response.data && response.data.suggestions) {
-                        suggestions = response.data.suggestions;
-                      } else {
-                        // If no suggestions were returned, create a default message
-                        suggestions = [
-                          {
-                            command: "echo 'Command failed'",
-                            description:
-                              response.data.stderr ||
-                              "Command execution failed",
-                          },
-                        ];
-                      }
-
-                      console.log(suggestions, " hello");
-                    } catch (apiError) {
-                      console.warn("Initial API call failed:", apiError);
-                      addMessage("Retrying with simplified command...", false);
-
-                      // If the original command fails, try with a simplified version
-                      // This is useful for complex commands with multiple arguments
-                      const simplifiedCommand =
-                        lastCommandRef.current.split(" ")[0];
-                      if (
-                        simplifiedCommand &&
-                        simplifiedCommand !== lastCommandRef.current
-                      ) {
-                        try {
-                          // Extract exit code from the original attempt if possible
-                          const exitCodeMatch = data.match(/exit (\d+)/i);
-                          const exitCode =
-                            exitCodeMatch && exitCodeMatch[1] !== "0"
-                              ? parseInt(exitCodeMatch[1], 10)
-                              : isNonZeroExit
-                              ? 1
-                              : 0;
-
-                          console.log(
-                            `Retrying with simplified command: "${simplifiedCommand}", exitCode=${exitCode}`
-                          );
-
-                          // Call our backend API with the simplified command
-                          const response = await axios.post(
-                            "http://localhost:3001/api/fix-command",
-                            {
-                              command: simplifiedCommand,
-                            }
-                          );
-
-                          if (response.data && response.data.suggestions) {
-                            suggestions = response.data.suggestions;
-                          } else {
-                            // If no suggestions were returned, create a default message
-                            suggestions = [
-                              {
-                                command: "echo 'Command failed'",
-                                description:
-                                  response.data.stderr ||
-                                  "Command execution failed",
-                              },
-                            ];
-                          }
-                        } catch (retryError) {
-                          console.error(
-                            "Retry API call also failed:",
-                            retryError
-                          );
-                          throw retryError; // Re-throw to be handled by outer catch
-                        }
-                      } else {
-                        throw apiError; // Re-throw the original error
-                      }
-                    }
+  // Handle a finished command reported by the shell integration markers.
+  // These carry the exact command, exit status and cwd, so nothing is guessed.
+  const handleCommandBlock = useCallback(
+    (block: CommandBlock) => {
+      if (!block.command) return;
 
-                    // If we have no suggestions, we can try one more time with a simplified approach
-                    if (suggestions.length === 0) {
-                      console.log(
-                        "No suggestions found. Trying a more generic approach."
-                      );
-
-                      try {
-                        // Extract exit code from the output if possible
-                        const exitCodeMatch = data.match(/exit (\d+)/i);
-                        const exitCode =
-                          exitCodeMatch && exitCodeMatch[1] !== "0"
-                            ? parseInt(exitCodeMatch[1], 10)
-                            : isNonZeroExit
-                            ? 1
-                            : 0; // Use exit code 1 for errors without explicit code
-
-                        // Log what we're attempting
-                        console.log(
-                          `Making final generic attempt with exitCode=${exitCode}`
-                        );
-
-                        // Make one final call to the backend API
-                        const response = await axios.post(
-                          "http://localhost:3001/api/fix-command",
-                          {
-                            command: lastCommandRef.current,
-                          }
-                        );
-
-                        if (response.data && response.data.suggestions) {
-                          suggestions = response.data.suggestions;
-                        } else {
-                          // If no suggestions were returned, create a simple fallback
-                          suggestions = [
-                            {
-                              command: `${
-                                lastCommandRef.current.split(" ")[0]
-                              } --help`,
-                              description: "Get help for this command",
-                            },
-                          ];
-                        }
-                      } catch (genericError) {
-                        console.error(
-                          "Generic fallback API call failed:",
-                          genericError
-                        );
-                        // Continue with whatever suggestions we have
-                      }
-                    }
+      lastCommandRef.current = block.command;
+      // What ran before this command, for the fixer's context
+      const recentCommands = commandHistoryRef.current.filter(
+        (entry) => entry !== block.command
+      );
+      if (!commandHistoryRef.current.includes(block.command)) {
+        commandHistoryRef.current.push(block.command);
+        if (commandHistoryRef.current.length > 10) {
+          commandHistoryRef.current.shift();
+        }
+      }
 
-                    console.log({
-                      lastCommandRef: lastCommandRef.current,
-                      errorMessage:
-                        errorMessage?.trim() || "No specific error message",
-                      suggestionsReceived: suggestions.length,
-                    });
-
-                    if (suggestions.length > 0) {
-                      console.log(
-                        "Command suggestions received: ====",
-                        suggestions
-                      );
-                      addSuggestions(
-                        lastCommandRef.current,
-                        errorMessage?.trim() || "Command execution error",
-                        suggestions
-                      );
-                    } else {
-                      // If we couldn't get any suggestions, inform the user
-                      addMessage(
-                        "Couldn't generate specific suggestions for this error. Try a different command.",
-                        true
-                      );
-                    }
-                  } catch (error: unknown) {
-                    console.error("Error getting command suggestions:", error);
-
-                    // Safely extract error message if it exists
-                    const errorMessage =
-                      error instanceof Error
-                        ? error.message
-                        : typeof error === "string"
-                        ? error
-                        : "Unknown error";
-
-                    // Provide helpful feedback based on the type of error
-                    if (errorMessage.includes("API key")) {
-                      addMessage(
-                        "Command suggestions unavailable: API key not configured.",
-                        true
-                      );
-                      addMessage(
-                        "Please contact the administrator to set up the API key.",
-                        false
-                      );
-                    } else if (errorMessage.includes("timeout")) {
-                      addMessage(
-                        "Command suggestions timed out. The API server might be busy.",
-                        true
-                      );
-                      addMessage("Try again in a moment.", false);
-                    } else {
-                      // Generic error handling for any type of command or language
-                      const baseCommand = lastCommandRef.current.split(" ")[0];
-                      const simplifiedSuggestions = [];
-
-                      if (baseCommand) {
-                        // Generic help suggestion works for many command-line tools
-                        simplifiedSuggestions.push({
-                          command: `${baseCommand} --help`,
-                          description: "Show help for this command",
-                        });
-
-                        // Adding version check as it's common across many tools
-                        simplifiedSuggestions.push({
-                          command: `${baseCommand} --version`,
-                          description: "Check version of this tool",
-                        });
-
-                        // General troubleshooting suggestions
-                        if (
-                          errorMessage
-                            .toLowerCase()
-                            .includes("command not found")
-                        ) {
-                          simplifiedSuggestions.push({
-                            command: `which ${baseCommand}`,
-                            description: "Check if this command is installed",
-                          });
-                          simplifiedSuggestions.push({
-                            command: `echo $PATH`,
-                            description: "Check your PATH environment variable",
-                          });
-
-                          // Add installation suggestions for common tools
-                          if (
-                            ["npm", "yarn", "node", "python", "pip"].includes(
-                              baseCommand
-                            )
-                          ) {
-                            simplifiedSuggestions.push({
-                              command: `brew install ${baseCommand}`,
-                              description: `Try installing ${baseCommand} with Homebrew`,
-                            });
-                          }
-                        }
-
-                        // Permission denied errors
-                        if (
-                          errorMessage
-                            .toLowerCase()
-                            .includes("permission denied")
-                        ) {
-                          simplifiedSuggestions.push({
-                            command: `chmod +x ${
-                              lastCommandRef.current.split(" ")[1] || "filename"
-                            }`,
-                            description:
-                              "Make the file executable if it's a script",
-                          });
-                        }
-                      }
-
-                      if (simplifiedSuggestions.length > 0) {
-                        addMessage(
-                          "API call failed, but here are some general suggestions:",
-                          true
-                        );
-                        addSuggestions(
-                          lastCommandRef.current,
-                          errorMessage.trim(),
-                          simplifiedSuggestions
-                        );
-                      } else {
-                        addMessage(
-                          "Couldn't generate suggestions. The command suggestion service is unavailable.",
-                          true
-                        );
-                        addMessage(
-                          "Please try again later or modify your command.",
-                          false
-                        );
-                      }
-                    }
-                  }
-                } catch (err) {
-                  console.error("Error getting command suggestions:", err);
-                  // Even on error, try to provide some fallback suggestions
-                  // but don't force any hardcoded suggestions
-                  addMessage(
-                    "Error getting command suggestions. The API might be unavailable.",
-                    true
-                  );
-
-                  // Provide minimal guidance based on the command pattern
-                  const fallbackGuidance = [];
-
-                  if (lastCommandRef.current) {
-                    const cmdParts = lastCommandRef.current.split(" ");
-                    const baseCmd = cmdParts[0];
-
-                    if (baseCmd) {
-                      fallbackGuidance.push({
-                        command: `man ${baseCmd}`,
-                        description: "Check the manual for this command",
-                      });
+      const output = stripAnsi(block.output).trim();
+      controller.commandFinished(sessionId, block, output.slice(-4000));
 
-                      fallbackGuidance.push({
-                        command: `${baseCmd} --help`,
-                        description: "Show help for this command",
-                      });
-                    }
-                  }
+      if (block.exitCode === 0 || block.exitCode === SIGINT_EXIT_CODE) return;
 
-                  if (fallbackGuidance.length > 0) {
-                    addSuggestions(
-                      lastCommandRef.current,
-                      errorMessage?.trim() || "Command execution error",
-                      fallbackGuidance
-                    );
-                  }
-                }
-              }
+      const diagnostics = parseDiagnostics(output, block.command);
+      addErrorMessage(
+        describeFailure(block.command, block.exitCode, output, diagnostics)
+      );
 
-              // Reset the processing flag after a small delay
-              const errorResetTimeout = setTimeout(() => {
-                // Check if component is still mounted before updating refs
-                if (processingErrorRef.current !== undefined) {
-                  processingErrorRef.current = false;
+      const failure: CommandFailure = {
+        command: block.command,
+        exitCode: block.exitCode,
+        // The tail of the output is where the error usually is
+        output: output.slice(-4000),
+        cwd: block.cwd,
+        shell: shellRef.current,
+        recentCommands: recentCommands.slice(-5),
+        diagnostics,
+      };
+
+      analyzeFailure(failure);
+    },
+    [addErrorMessage, analyzeFailure, controller, sessionId]
+  );
 
-                  // Also reset the current command ref to ensure we don't
-                  // track commands incorrectly after errors
-                  if (currentCommandRef.current === lastCommandRef.current) {
-                    currentCommandRef.current = "";
-                  }
-                }
-              }, 300);
+  // Fallback error detection for shells without integration markers: the
+  // output is run through the diagnostics parsers, and a chunk with an error
+  // in it is taken as the failure of the last command typed
+  const detectAndHandleError = useCallback(
+    (data: string) => {
+      const command = lastCommandRef.current;
+      if (!command) return;
 
-              // Store the timeout ID for cleanup
-              timeoutIdsRef.current.push(errorResetTimeout);
-            });
-          } else {
-            processingErrorRef.current = false;
-          }
-        }
-      } catch (err) {
-        console.error("Error in terminal error detection:", err);
-        processingErrorRef.current = false;
-      }
+      const diagnostics = parseDiagnostics(data, command).filter(
+        (d) => d.severity === "error"
+      );
+      if (diagnostics.length === 0) return;
+
+      // Output arrives in chunks; report each problem once per run
+      const key = formatDiagnostic(diagnostics[0]);
+      if (reportedErrorsRef.current.has(key)) return;
+      reportedErrorsRef.current.add(key);
+
+      // Without markers the exit status is only known if something printed it
+      const exitCodeMatch = data.match(/exit (\d+)/i);
+      const exitCode =
+        exitCodeMatch && exitCodeMatch[1] !== "0"
+          ? parseInt(exitCodeMatch[1], 10)
+          : 1;
+      const output = stripAnsi(data).trim();
+
+      addErrorMessage(describeFailure(command, exitCode, output, diagnostics));
+      analyzeFailure({
+        command,
+        exitCode,
+        output: output.slice(-4000),
+        shell: shellRef.current,
+        recentCommands: commandHistoryRef.current
+          .filter((entry) => entry !== command)
+          .slice(-5),
+        diagnostics,
+      });
     },
-    [addErrorMessage, addMessage, addSuggestions]
+    [addErrorMessage, analyzeFailure]
   );
   useEffect(() => {
     console.log("Initializing terminal component");
@@ -951,6 +311,7 @@ const Terminal: React.FC<TerminalProps> = ({
 
               if (socketRef.current) {
                 socketRef.current.emit("resize", {
+                  sessionId,
                   cols: terminalInstance.current.cols,
                   rows: terminalInstance.current.rows,
                 });
@@ -972,13 +333,8 @@ const Terminal: React.FC<TerminalProps> = ({
       }
     };
 
-    // Initialize socket connection
-    try {
-      socketRef.current = io("http://localhost:3001");
-      console.log("Socket connection initialized");
-    } catch (err) {
-      console.error("Error initializing socket connection:", err);
-    }
+    // Use the socket shared by all terminal sessions
+    socketRef.current = socket;
 
     // Properly clean up any existing terminal instance
     if (terminalInstance.current) {
@@ -1078,6 +434,7 @@ const Terminal: React.FC<TerminalProps> = ({
                   ) {
                     if (socketRef.current) {
                       socketRef.current.emit("resize", {
+                        sessionId,
                         cols: terminalInstance.current.cols,
                         rows: terminalInstance.current.rows,
                       });
@@ -1114,42 +471,166 @@ const Terminal: React.FC<TerminalProps> = ({
     }
 
     // Handle terminal output from server and detect errors
-    if (socketRef.current) {
-      socketRef.current.on("output", (data: string) => {
-        if (terminalInstance.current) {
-          terminalInstance.current.write(data);
-          // Process error detection in an optimized way
+    const handleOutput = (payload: {
+      sessionId: string;
+      data: string;
+      offset: number;
+    }) => {
+      if (payload.sessionId !== sessionId) return;
+      // The reattach reply already contains everything sent before it
+      if (attachingRef.current) return;
+      // Skip output we already have from a replay
+      if (
+        outputOffsetRef.current !== undefined &&
+        payload.offset <= outputOffsetRef.current
+      ) {
+        return;
+      }
+      const data =
+        outputOffsetRef.current !== undefined &&
+        payload.offset - payload.data.length < outputOffsetRef.current
+          ? payload.data.slice(
+              payload.data.length - (payload.offset - outputOffsetRef.current)
+            )
+          : payload.data;
+      outputOffsetRef.current = payload.offset;
+
+      if (terminalInstance.current) {
+        terminalInstance.current.write(data);
+
+        const events = integrationParserRef.current.feed(data);
+        if (events.length > 0) {
+          integrationActiveRef.current = true;
+        }
+
+        if (integrationActiveRef.current) {
+          events.forEach((event) => {
+            if (event.type === "command-end") {
+              handleCommandBlock(event.block);
+            }
+          });
+        } else {
+          // No markers from this shell; fall back to output heuristics
           detectAndHandleError(data);
         }
+      }
+    };
+
+    // Reattach to the session and replay whatever output we missed: the
+    // whole scrollback after a page reload, only the gap after a reconnect
+    const attach = async () => {
+      if (!socketRef.current) return;
+      attachingRef.current = true;
+
+      try {
+        const attached = await attachSession(
+          socketRef.current,
+          sessionId,
+          outputOffsetRef.current
+        );
+
+        if (terminalInstance.current) {
+          if (attached.reset && outputOffsetRef.current !== undefined) {
+            terminalInstance.current.reset();
+          }
+          terminalInstance.current.write(attached.data);
+        }
+
+        // Keep the parser's state in sync, but don't re-report old failures
+        const events = integrationParserRef.current.feed(attached.data);
+        if (events.length > 0) {
+          integrationActiveRef.current = true;
+        }
+        outputOffsetRef.current = attached.offset;
+        attachingRef.current = false;
+        setConnectionStatus("connected");
+
+        // Deliver keystrokes typed while we were offline
+        const pending = pendingInputRef.current;
+        pendingInputRef.current = [];
+        pending.forEach((data) => sendInput(data));
+      } catch (err) {
+        attachingRef.current = false;
+        console.error("Error reattaching to session:", err);
+        addMessage(
+          "This terminal session has ended and could not be reattached.",
+          true
+        );
+      }
+    };
+
+    const handleConnect = () => {
+      attach();
+    };
+
+    const handleDisconnect = () => {
+      setConnectionStatus("disconnected");
+    };
+
+    const handleReconnectAttempt = () => {
+      setConnectionStatus("reconnecting");
+    };
+
+    if (socketRef.current) {
+      socketRef.current.on("output", handleOutput);
+      socketRef.current.on("connect", handleConnect);
+      socketRef.current.on("disconnect", handleDisconnect);
+      socketRef.current.io.on("reconnect_attempt", handleReconnectAttempt);
+
+      if (socketRef.current.connected) {
+        attach();
+      }
+    }
+
+    // Ctrl+Shift+E explains the selection instead of reaching the shell,
+    // and Ctrl+R opens the history picker in place of the shell's search
+    if (terminalInstance.current) {
+      terminalInstance.current.attachCustomKeyEventHandler((event) => {
+        if (
+          event.type === "keydown" &&
+          event.ctrlKey &&
+          !event.shiftKey &&
+          !event.altKey &&
+          !event.metaKey &&
+          event.code === "KeyR"
+        ) {
+          event.preventDefault();
+          setHistoryOpen(true);
+          return false;
+        }
+        if (
+          event.type === "keydown" &&
+          event.ctrlKey &&
+          event.shiftKey &&
+          event.code === "KeyE" &&
+          explainSelectionRef.current()
+        ) {
+          event.preventDefault();
+          return false;
+        }
+        return true;
       });
+      terminalInstance.current.onSelectionChange(() => setSelectionMenu(null));
     }
 
     // Handle user input
     if (terminalInstance.current) {
       terminalInstance.current.onData((data: string) => {
         if (socketRef.current) {
-          socketRef.current.emit("input", data); // Track command as user types - improved tracking
+          sendInput(data);
+
+          // With shell integration the shell reports commands itself
+          if (integrationActiveRef.current) return;
+
+          // Track command as user types - improved tracking
           if (data === "\r") {
             // Enter key pressed - save the current command as the last command and reset
             const trimmedCommand = currentCommandRef.current.trim();
             if (trimmedCommand) {
               console.log("Command executed:", trimmedCommand);
 
-              // Reset the processed pairs set when executing a new command that doesn't match the last command
-              // This ensures we generate new suggestions for the same error with different commands
-              if (lastCommandRef.current !== trimmedCommand) {
-                // Only reset the processed pairs related to the previous command
-                const newProcessedPairs = new Set<string>();
-                processedPairsRef.current.forEach((pair) => {
-                  if (!pair.startsWith(lastCommandRef.current + "|||")) {
-                    newProcessedPairs.add(pair);
-                  }
-                });
-                processedPairsRef.current = newProcessedPairs;
-
-                // When the command changes, clear the last error to ensure fresh processing
-                lastErrorRef.current = "";
-              }
+              // A new run gets its errors reported again
+              reportedErrorsRef.current.clear();
 
               // Update the last command reference with the current command
               lastCommandRef.current = trimmedCommand;
@@ -1165,58 +646,6 @@ const Terminal: React.FC<TerminalProps> = ({
                   commandHistoryRef.current
                 );
               }
-
-              // Enhanced tracking for specific commands known to cause errors
-              if (
-                trimmedCommand.match(/node\s+-ver\b/) ||
-                trimmedCommand.match(/node\s+--ver\b/)
-              ) {
-                console.log(
-                  "⚠️ Detected potentially problematic command pattern: node -ver or --ver"
-                );
-                // Pre-emptively notify the user this may cause an error
-                addMessage(
-                  "Note: The command you entered might be using an incorrect version flag. Watching for errors...",
-                  false
-                );
-              }
-
-              // Python-specific command tracking
-              if (
-                trimmedCommand.match(/python\s+--v\b/) ||
-                trimmedCommand.match(/python3\s+--v\b/) ||
-                trimmedCommand.match(/python\s+-ver\b/) ||
-                trimmedCommand.match(/python3\s+-ver\b/)
-              ) {
-                console.log(
-                  "⚠️ Detected potentially problematic Python command:",
-                  trimmedCommand
-                );
-                // Store this explicitly as the last command to ensure it's tracked properly
-                lastCommandRef.current = trimmedCommand;
-                // Clear the processed pairs to ensure we get fresh suggestions
-                processedPairsRef.current.clear();
-                console.log(
-                  "Python command stored in lastCommandRef:",
-                  lastCommandRef.current
-                );
-
-                addMessage(
-                  "Note: Python uses -V (capital V) or --version for checking version. Watching for errors...",
-                  false
-                );
-              }
-
-              // Other node commands that might cause errors
-              if (
-                trimmedCommand.match(/node\s+-[a-z]{3,}\b/) &&
-                !trimmedCommand.includes("--")
-              ) {
-                console.log(
-                  "⚠️ Detected potentially invalid node flag:",
-                  trimmedCommand
-                );
-              }
             }
             currentCommandRef.current = "";
           } else if (data === "\u007F" || data === "\b") {
@@ -1275,15 +704,13 @@ const Terminal: React.FC<TerminalProps> = ({
         timeoutIdsRef.current = [];
       }
 
-      // Cleanup socket connection
+      // Stop listening on the shared socket; it outlives this terminal
       if (socketRef.current) {
-        try {
-          socketRef.current.disconnect();
-          socketRef.current = null;
-          console.log("Socket disconnected");
-        } catch (socketErr) {
-          console.error("Error disconnecting socket:", socketErr);
-        }
+        socketRef.current.off("output", handleOutput);
+        socketRef.current.off("connect", handleConnect);
+        socketRef.current.off("disconnect", handleDisconnect);
+        socketRef.current.io.off("reconnect_attempt", handleReconnectAttempt);
+        socketRef.current = null;
       }
 
       // Cleanup fit addon
@@ -1308,24 +735,136 @@ const Terminal: React.FC<TerminalProps> = ({
         }
       }
 
-      // Reset any remaining references as a safety measure
-      processingErrorRef.current = false;
-
       console.log("Terminal cleanup complete");
     };
-  }, [addErrorMessage, addSuggestions, detectAndHandleError, addMessage]);
+  }, [
+    socket,
+    sessionId,
+    addErrorMessage,
+    detectAndHandleError,
+    handleCommandBlock,
+    addMessage,
+    sendInput,
+  ]);
+
+  useEffect(() => {
+    shellRef.current = shell;
+  }, [shell]);
 
-  // Expose the ability to run commands from outside the terminal component
-  React.useEffect(() => {
-    if (runCommand) {
-      (window as any).runTerminalCommand = executeCommand;
+  // Give the keyboard to the terminal whenever its tab is selected
+  useEffect(() => {
+    if (active && terminalInstance.current) {
+      terminalInstance.current.focus();
     }
+  }, [active]);
+
+  // Let the rest of the app run commands here and wait for them to finish
+  useEffect(
+    () =>
+      controller.register(sessionId, {
+        write: executeCommand,
+        tracksCommands: () => integrationActiveRef.current,
+      }),
+    [controller, executeCommand, sessionId]
+  );
+
+  // Right-clicking a selection offers to explain it; without one the
+  // browser's own menu stays available
+  const handleContextMenu = (event: React.MouseEvent<HTMLDivElement>) => {
+    const text = terminalInstance.current?.getSelection().trim();
+    if (!text || !explainText) return;
+
+    event.preventDefault();
+    const bounds = event.currentTarget.getBoundingClientRect();
+    setSelectionMenu({
+      x: event.clientX - bounds.left,
+      y: event.clientY - bounds.top,
+      text,
+    });
+  };
+
+  // Close the menu on any click elsewhere or Escape
+  useEffect(() => {
+    if (!selectionMenu) return;
+    const close = () => setSelectionMenu(null);
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") close();
+    };
+    window.addEventListener("mousedown", close);
+    window.addEventListener("keydown", onKeyDown);
     return () => {
-      delete (window as any).runTerminalCommand;
+      window.removeEventListener("mousedown", close);
+      window.removeEventListener("keydown", onKeyDown);
     };
-  }, [runCommand, executeCommand]);
-
-  return <div ref={terminalRef} className="terminal-container" />;
+  }, [selectionMenu]);
+
+  // Close the history picker, handing over to the shell's own reverse
+  // search when asked
+  const closeHistory = (native?: boolean) => {
+    setHistoryOpen(false);
+    if (native) sendInput("\x12");
+    terminalInstance.current?.focus();
+  };
+
+  // A command picked from the history replaces the line being typed
+  const pickFromHistory = (command: string, execute: boolean) => {
+    setHistoryOpen(false);
+    executeCommand(command, false);
+    if (execute) sendInput("\r");
+  };
+
+  const explainFromMenu = (kind: ExplainKind) => {
+    if (selectionMenu) explainText?.(selectionMenu.text, kind, sessionId);
+    setSelectionMenu(null);
+    terminalInstance.current?.focus();
+  };
+
+  return (
+    <div
+      className={`terminal-wrapper ${active ? "" : "terminal-hidden"}`}
+      onContextMenu={handleContextMenu}
+    >
+      <div
+        className={`connection-status ${connectionStatus}`}
+        title={`Connection: ${connectionStatus}`}
+      >
+        <span className="connection-dot" />
+        {connectionStatus !== "connected" && (
+          <span className="connection-label">
+            {connectionStatus === "reconnecting"
+              ? "Reconnecting…"
+              : "Offline - input is queued"}
+          </span>
+        )}
+      </div>
+      <div ref={terminalRef} className="terminal-container" />
+      {historyOpen && (
+        <HistoryPicker
+          socket={socket}
+          sessionId={sessionId}
+          cwd={integrationParserRef.current.currentCwd}
+          onPick={pickFromHistory}
+          onClose={closeHistory}
+        />
+      )}
+      {selectionMenu && (
+        <div
+          className="selection-menu"
+          style={{ left: selectionMenu.x, top: selectionMenu.y }}
+          // Keep the window listener from closing the menu before the click
+          onMouseDown={(e) => e.stopPropagation()}
+        >
+          <button onClick={() => explainFromMenu("command")}>
+            Explain command
+          </button>
+          <button onClick={() => explainFromMenu("output")}>
+            Explain output
+          </button>
+          <div className="selection-menu-hint">Ctrl+Shift+E</div>
+        </div>
+      )}
+    </div>
+  );
 };
 
 export default Terminal;
@@ -0,0 +1,238 @@
+import React, { useState } from "react";
+import { Socket } from "socket.io-client";
+import Terminal from "./Terminal";
+import { CommandFailure } from "../utils/commandFixerAgent";
+import {
+  Recording,
+  ShellProfile,
+  TerminalSession,
+} from "../utils/terminalSessions";
+import { ExplainKind } from "../utils/explain";
+import "./TerminalTabs.css";
+
+interface TerminalTabsProps {
+  socket: Socket;
+  sessions: TerminalSession[];
+  profiles: ShellProfile[];
+  activeSessionId: string | null;
+  /** Recordings in progress, by session id */
+  recordings: Record<string, Recording>;
+  onSelect: (sessionId: string) => void;
+  onCreate: (profile?: string) => void;
+  onRename: (sessionId: string, name: string) => void;
+  onClose: (sessionId: string) => void;
+  /** Starts recording a session, with keystrokes when `input` is set */
+  onStartRecording: (sessionId: string, input: boolean) => void;
+  onStopRecording: (sessionId: string) => void;
+  onOpenRecordings: () => void;
+  addErrorMessage: (message: string, sessionId?: string) => void;
+  addMessage: (text: string, isError: boolean, sessionId?: string) => void;
+  analyzeFailure: (failure: CommandFailure, sessionId?: string) => void;
+  explainText?: (text: string, kind: ExplainKind, sessionId?: string) => void;
+}
+
+const TerminalTabs: React.FC<TerminalTabsProps> = ({
+  socket,
+  sessions,
+  profiles,
+  activeSessionId,
+  recordings,
+  onSelect,
+  onCreate,
+  onRename,
+  onClose,
+  onStartRecording,
+  onStopRecording,
+  onOpenRecordings,
+  addErrorMessage,
+  addMessage,
+  analyzeFailure,
+  explainText,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [profileMenuOpen, setProfileMenuOpen] = useState(false);
+  const [recordMenuOpen, setRecordMenuOpen] = useState(false);
+  const activeRecording = activeSessionId && recordings[activeSessionId];
+
+  const startRename = (session: TerminalSession) => {
+    setEditingId(session.id);
+    setEditingName(session.name);
+  };
+
+  const finishRename = () => {
+    if (editingId && editingName.trim()) {
+      onRename(editingId, editingName.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="terminal-tabs">
+      <div className="tab-bar">
+        <div className="tab-list">
+          {sessions.map((session) => (
+            <div
+              key={session.id}
+              className={`tab ${
+                session.id === activeSessionId ? "active" : ""
+              }`}
+              onClick={() => onSelect(session.id)}
+              onDoubleClick={() => startRename(session)}
+              title={`${session.name} (${session.shell}) - double-click to rename`}
+            >
+              {editingId === session.id ? (
+                <input
+                  className="tab-rename-input"
+                  value={editingName}
+                  autoFocus
+                  onChange={(e) => setEditingName(e.target.value)}
+                  onBlur={finishRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") finishRename();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                />
+              ) : (
+                <span className="tab-name">{session.name}</span>
+              )}
+              {recordings[session.id] && (
+                <span
+                  className="tab-recording-dot"
+                  title={
+                    recordings[session.id].input
+                      ? "Recording output and keystrokes"
+                      : "Recording output"
+                  }
+                />
+              )}
+              <button
+                className="tab-close-btn"
+                title="Close session"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onClose(session.id);
+                }}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          className="tab-new-btn"
+          title="New session (default profile)"
+          onClick={() => onCreate()}
+        >
+          +
+        </button>
+        {profiles.length > 0 && (
+          <div className="tab-profile-picker">
+            <button
+              className="tab-new-btn"
+              title="New session with profile…"
+              onClick={() => setProfileMenuOpen((open) => !open)}
+            >
+              ▾
+            </button>
+            {profileMenuOpen && (
+              <div className="tab-profile-menu">
+                {profiles.map((profile) => (
+                  <div
+                    key={profile.id}
+                    className={`tab-profile-item ${
+                      profile.available ? "" : "unavailable"
+                    }`}
+                    title={
+                      profile.available
+                        ? profile.shell
+                        : `${profile.shell} is not installed; a fallback shell will be used`
+                    }
+                    onClick={() => {
+                      setProfileMenuOpen(false);
+                      onCreate(profile.id);
+                    }}
+                  >
+                    {profile.name}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+        <div className="tab-bar-actions">
+          {activeSessionId && (
+            <div className="tab-profile-picker">
+              {activeRecording ? (
+                <button
+                  className="tab-new-btn tab-record-btn recording"
+                  title="Stop recording this session"
+                  onClick={() => onStopRecording(activeSessionId)}
+                >
+                  ⏹
+                </button>
+              ) : (
+                <button
+                  className="tab-new-btn tab-record-btn"
+                  title="Record this session…"
+                  onClick={() => setRecordMenuOpen((open) => !open)}
+                >
+                  ⏺
+                </button>
+              )}
+              {recordMenuOpen && !activeRecording && (
+                <div className="tab-profile-menu">
+                  <div
+                    className="tab-profile-item"
+                    title="Record what the terminal shows"
+                    onClick={() => {
+                      setRecordMenuOpen(false);
+                      onStartRecording(activeSessionId, false);
+                    }}
+                  >
+                    Record output
+                  </div>
+                  <div
+                    className="tab-profile-item"
+                    title="Keystrokes include anything typed at a password prompt"
+                    onClick={() => {
+                      setRecordMenuOpen(false);
+                      onStartRecording(activeSessionId, true);
+                    }}
+                  >
+                    Record output and keystrokes
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+          <button
+            className="tab-new-btn"
+            title="Recordings"
+            onClick={onOpenRecordings}
+          >
+            🎞
+          </button>
+        </div>
+      </div>
+
+      <div className="tab-panels">
+        {sessions.map((session) => (
+          <Terminal
+            key={session.id}
+            socket={socket}
+            sessionId={session.id}
+            shell={session.shell}
+            active={session.id === activeSessionId}
+            addErrorMessage={addErrorMessage}
+            addMessage={addMessage}
+            analyzeFailure={analyzeFailure}
+            explainText={explainText}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TerminalTabs;
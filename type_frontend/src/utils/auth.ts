@@ -0,0 +1,76 @@
+/**
+ * Client side of the backend's token authentication. The session token is
+ * kept in localStorage and attached to every axios request and socket
+ * handshake.
+ */
+
+import axios from "axios";
+import { BACKEND_URL } from "./terminalSessions";
+
+const AUTH_TOKEN_KEY = "terminus.authToken";
+
+export const getAuthToken = (): string | null =>
+  localStorage.getItem(AUTH_TOKEN_KEY);
+
+export const clearAuthToken = () => {
+  localStorage.removeItem(AUTH_TOKEN_KEY);
+};
+
+/**
+ * Logs in with the server's password or access token.
+ *
+ * @returns The session token
+ */
+export const login = async (secret: string): Promise<string> => {
+  const response = await axios.post(`${BACKEND_URL}/api/auth/login`, {
+    secret,
+  });
+  const { token } = response.data;
+  localStorage.setItem(AUTH_TOKEN_KEY, token);
+  return token;
+};
+
+/**
+ * Revokes the current session token on the server and forgets it locally.
+ */
+export const logout = async () => {
+  try {
+    await axios.post(`${BACKEND_URL}/api/auth/logout`);
+  } catch (err) {
+    console.error("Error revoking session token:", err);
+  }
+  clearAuthToken();
+};
+
+/**
+ * Attaches the session token to every axios request and reports 401s so the
+ * app can show the login screen again.
+ *
+ * @returns A function that removes the interceptors
+ */
+export const installAuthInterceptors = (onUnauthorized: () => void) => {
+  const requestId = axios.interceptors.request.use((config) => {
+    const token = getAuthToken();
+    if (token) {
+      config.headers.set("Authorization", `Bearer ${token}`);
+    }
+    return config;
+  });
+
+  const responseId = axios.interceptors.response.use(
+    (response) => response,
+    (error) => {
+      const isLogin = error.config?.url?.endsWith("/api/auth/login");
+      if (error.response?.status === 401 && !isLogin) {
+        clearAuthToken();
+        onUnauthorized();
+      }
+      return Promise.reject(error);
+    }
+  );
+
+  return () => {
+    axios.interceptors.request.eject(requestId);
+    axios.interceptors.response.eject(responseId);
+  };
+};
@@ -0,0 +1,168 @@
+/**
+ * A tab's chat as Markdown or JSON, for pasting into incident notes: the
+ * commands run, the errors they hit, the suggestions offered and how the
+ * commands run from the chat went.
+ */
+
+import { ChatMessage } from "./chatHistory";
+import { stripAnsi } from "./shellIntegration";
+
+export type ChatExportFormat = "markdown" | "json";
+
+// Inline code that survives backticks in the command
+const code = (text: string) =>
+  text.includes("`") ? `\`\` ${text} \`\`` : `\`${text}\``;
+
+// A code block fenced with more backticks than the text contains
+const block = (text: string) => {
+  const longest = Math.max(
+    0,
+    ...(text.match(/`+/g) || []).map((run) => run.length)
+  );
+  const fence = "`".repeat(Math.max(3, longest + 1));
+  return `${fence}\n${text.replace(/\n+$/, "")}\n${fence}`;
+};
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+const messageToMarkdown = (message: ChatMessage): string => {
+  const time = new Date(message.timestamp).toLocaleString();
+  const heading = (title: string) => `### ${time} · ${title}`;
+
+  if (message.explanation) {
+    const { explanation } = message;
+    const lines = [
+      heading(`Explanation of the ${explanation.kind}`),
+      block(explanation.text),
+      "",
+      explanation.summary,
+    ];
+    if (explanation.parts.length > 0) {
+      lines.push("");
+      explanation.parts.forEach((part) =>
+        lines.push(`- ${code(part.text)}: ${part.explanation}`)
+      );
+    }
+    if (explanation.sideEffects.length > 0) {
+      lines.push("", "Side effects:");
+      explanation.sideEffects.forEach((effect) => lines.push(`- ${effect}`));
+    }
+    return lines.join("\n");
+  }
+
+  if (message.exec) {
+    const { run, output, exit } = message.exec;
+    const status = !exit
+      ? "did not finish"
+      : exit.cancelled
+      ? `cancelled after ${seconds(exit.durationMs)}`
+      : exit.timedOut
+      ? `timed out after ${seconds(exit.durationMs)}`
+      : `exit ${exit.exitCode} after ${seconds(exit.durationMs)}`;
+    const lines = [
+      heading("Run in background"),
+      `${code(run.command)}: ${status}`,
+    ];
+    const text = stripAnsi(output.map((chunk) => chunk.data).join(""));
+    if (text.trim()) lines.push("", block(text));
+    return lines.join("\n");
+  }
+
+  if (message.isSuggestion) {
+    const lines = [heading(message.text)];
+    if (message.failure) {
+      lines.push(
+        `Failed: ${code(message.failure.command)} (exit ${
+          message.failure.exitCode
+        })`
+      );
+    }
+    lines.push("");
+    (message.suggestions || []).forEach((suggestion) => {
+      const notes = [
+        suggestion.riskLevel && `${suggestion.riskLevel} risk`,
+        suggestion.confidence !== undefined &&
+          `${Math.round(suggestion.confidence * 100)}% confidence`,
+        suggestion.source === "rule" && `rule ${suggestion.rule}`,
+      ].filter(Boolean);
+      lines.push(
+        `- ${code(suggestion.command)}: ${suggestion.description}${
+          notes.length > 0 ? ` (${notes.join(", ")})` : ""
+        }`
+      );
+    });
+    return lines.join("\n");
+  }
+
+  if (message.isError) {
+    return [heading("Error"), block(message.text)].join("\n");
+  }
+
+  const lines = [heading("Message"), message.text];
+  if (message.outcome) {
+    lines.push(
+      "",
+      `Outcome: exit ${message.outcome.exitCode} after ${seconds(
+        message.outcome.durationMs
+      )}`
+    );
+  }
+  return lines.join("\n");
+};
+
+/** The messages as a file's content, with its name and MIME type */
+export const exportChat = (
+  messages: ChatMessage[],
+  sessionName: string,
+  format: ChatExportFormat
+): { filename: string; content: string; type: string } => {
+  const exportedAt = new Date();
+  const slug = sessionName.replace(/[^\w.-]+/g, "-").toLowerCase() || "chat";
+  const filename = `terminus-${slug}-${exportedAt
+    .toISOString()
+    .slice(0, 19)
+    .replace(/:/g, "")}`;
+
+  if (format === "json") {
+    return {
+      filename: `${filename}.json`,
+      type: "application/json",
+      content: JSON.stringify(
+        {
+          session: sessionName,
+          exportedAt,
+          // The live stream state means nothing outside the app
+          messages: messages.map(({ stream, ...message }) => message),
+        },
+        null,
+        2
+      ),
+    };
+  }
+
+  return {
+    filename: `${filename}.md`,
+    type: "text/markdown",
+    content: [
+      `# Terminal chat: ${sessionName}`,
+      `Exported ${exportedAt.toLocaleString()}`,
+      ...messages.map(messageToMarkdown),
+    ].join("\n\n"),
+  };
+};
+
+/** Has the browser save the content as a file */
+export const downloadFile = (
+  filename: string,
+  content: string,
+  type: string
+) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,120 @@
+/**
+ * The chat with the assistant, kept in the browser's IndexedDB so it
+ * survives a reload the way the terminal sessions do. Messages are stored
+ * whole (structured clone keeps their Dates) under their id; ids sort in the
+ * order the messages were created, so the store's key order is the chat's.
+ */
+
+import { CommandFailure, CommandSuggestion } from "./commandFixerAgent";
+import { Explanation } from "./explain";
+import { BackgroundCommand, SuggestionStream } from "./terminalSessions";
+
+/** How a command run from the chat went */
+export interface CommandOutcome {
+  exitCode: number;
+  durationMs: number;
+}
+
+export interface ChatMessage {
+  id: string;
+  text: string;
+  isError: boolean;
+  timestamp: Date;
+  suggestions?: CommandSuggestion[];
+  isSuggestion?: boolean;
+  sessionId?: string;
+  exec?: BackgroundCommand;
+  /** The failure a suggestion message is about, for follow-up requests */
+  failure?: CommandFailure;
+  /** The natural-language request a suggestion message answers */
+  request?: string;
+  explanation?: Explanation;
+  /** Set while the suggestions are still streaming in */
+  stream?: SuggestionStream;
+  /** For a command run from the chat, once the shell reported it finished */
+  outcome?: CommandOutcome;
+}
+
+const DB_NAME = "terminus";
+const DB_VERSION = 1;
+const STORE = "messages";
+// The oldest messages beyond this are deleted when the history is loaded
+const MAX_MESSAGES = 2000;
+
+let lastTime = 0;
+let sequence = 0;
+
+/**
+ * A unique message id that sorts after every id made before it: the time,
+ * a counter for messages made in the same millisecond, and a random tail so
+ * two windows never clash.
+ */
+export const newMessageId = (): string => {
+  const now = Date.now();
+  sequence = now === lastTime ? sequence + 1 : 0;
+  lastTime = now;
+  return [
+    now.toString(36).padStart(9, "0"),
+    sequence.toString(36).padStart(4, "0"),
+    Math.random().toString(36).slice(2, 8),
+  ].join("-");
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let the next call try again
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+/** Every stored message, oldest first */
+export const loadChatHistory = async (): Promise<ChatMessage[]> => {
+  const db = await openDatabase();
+  return new Promise<ChatMessage[]>((resolve, reject) => {
+    const transaction = db.transaction(STORE, "readwrite");
+    const store = transaction.objectStore(STORE);
+    let messages: ChatMessage[] = [];
+
+    const request = store.getAll();
+    request.onsuccess = () => {
+      messages = request.result;
+      const excess = messages.length - MAX_MESSAGES;
+      if (excess > 0) {
+        messages.slice(0, excess).forEach((m) => store.delete(m.id));
+        messages = messages.slice(excess);
+      }
+    };
+    transaction.oncomplete = () => resolve(messages);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+/** Adds the messages to the history, replacing any stored with the same id */
+export const saveChatMessages = async (messages: ChatMessage[]) => {
+  if (messages.length === 0) return;
+  const db = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE, "readwrite");
+    const store = transaction.objectStore(STORE);
+    messages.forEach((m) => store.put(m));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
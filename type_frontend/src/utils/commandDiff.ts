@@ -0,0 +1,59 @@
+/**
+ * Word-level diff between two commands, for showing what an edit changes.
+ * Runs of whitespace are tokens of their own, so the parts of a diff join
+ * back into the exact commands.
+ */
+
+export interface CommandDiffPart {
+  text: string;
+  change: "same" | "added" | "removed";
+}
+
+const tokenize = (command: string) => command.split(/(\s+)/).filter(Boolean);
+
+/**
+ * The words of both commands in order, each marked as kept, added or
+ * removed. Neighbouring words with the same mark are merged into one part.
+ */
+export function diffCommands(before: string, after: string): CommandDiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  // common[i][j]: length of the longest common subsequence of a[i..], b[j..]
+  const common = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] =
+        a[i] === b[j]
+          ? common[i + 1][j + 1] + 1
+          : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const parts: CommandDiffPart[] = [];
+  const push = (text: string, change: CommandDiffPart["change"]) => {
+    const last = parts[parts.length - 1];
+    if (last && last.change === change) last.text += text;
+    else parts.push({ text, change });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], "same");
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      push(a[i++], "removed");
+    } else {
+      push(b[j++], "added");
+    }
+  }
+  while (i < a.length) push(a[i++], "removed");
+  while (j < b.length) push(b[j++], "added");
+
+  return parts;
+}
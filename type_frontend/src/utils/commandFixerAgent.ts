@@ -1,9 +1,88 @@
 /**
- * This file now only contains type definitions for CommandSuggestion.
- * The actual implementation has been moved to the backend.
+ * Types and client helpers for the backend's command fixer. Suggestions come
+ * from the backend's offline rules first and from the LLM when no rule
+ * matches or more suggestions are requested.
  */
 
+import axios from "axios";
+import { BACKEND_URL } from "./terminalSessions";
+import { Diagnostic } from "./diagnostics";
+
+export type RiskLevel = "low" | "medium" | "high";
+
+/** One command of a multi-step fix */
+export interface SuggestionStep {
+  command: string;
+  description: string;
+}
+
+/**
+ * How commands with the same shape (program, subcommand and flags) went when
+ * the user ran them before
+ */
+export interface SuggestionFeedback {
+  worked: number;
+  failed: number;
+  /** How far that history moved the suggestion up (or down) the list */
+  boost: number;
+}
+
 export interface CommandSuggestion {
+  /** The command to run; for multi-step fixes, all steps joined with && */
   command: string;
   description: string;
+  /** Where the suggestion came from: "rule" or "llm" */
+  source?: string;
+  /** Name of the rule that produced it, for rule suggestions */
+  rule?: string;
+  /** 0..1, how likely the suggestion fixes the error */
+  confidence?: number;
+  /** The higher of the model's judgement and the backend risk analyzer's */
+  riskLevel?: RiskLevel;
+  /** Why the risk analyzer flagged the command */
+  riskReasons?: string[];
+  /** The part of the error the suggestion addresses */
+  addresses?: string;
+  /** The individual commands of a multi-step fix, in order */
+  steps?: SuggestionStep[];
+  /** The user's history with commands like this one, when there is any */
+  feedback?: SuggestionFeedback;
 }
+
+/** A failed command as the terminal observed it */
+export interface CommandFailure {
+  command: string;
+  exitCode: number;
+  output: string;
+  cwd?: string;
+  shell?: string;
+  /** Commands run before it in the same session, oldest first */
+  recentCommands?: string[];
+  /** What the diagnostics parsers recognized in the output */
+  diagnostics?: Diagnostic[];
+}
+
+/**
+ * Ask the backend's risk analyzer about a command, such as a suggestion the
+ * user edited. Nothing is run.
+ */
+export const checkCommandRisk = async (
+  command: string
+): Promise<{ level: RiskLevel; reasons: string[] }> => {
+  const response = await axios.post(`${BACKEND_URL}/api/command-risk`, {
+    command,
+  });
+  return response.data;
+};
+
+/**
+ * Ask the backend to analyze a failure the terminal has already observed.
+ * The backend never re-runs the command; it only sees what we send here.
+ * With `more` the LLM is consulted even when a rule already matched; with
+ * `refresh` the backend skips its suggestion cache.
+ */
+export const requestFixSuggestions = (
+  failure: CommandFailure,
+  options: { more?: boolean; refresh?: boolean } = {}
+) =>
+  axios.post(`${BACKEND_URL}/api/analyze-command`, { ...failure, ...options });
@@ -0,0 +1,59 @@
+/**
+ * Rust compiler errors, as printed by cargo and rustc.
+ *
+ *   error[E0425]: cannot find value `x` in this scope
+ *    --> src/main.rs:3:5
+ *     |
+ *   3 |     x
+ *     |     ^ not found in this scope
+ *     = help: consider importing ...
+ */
+
+import { Diagnostic, DiagnosticParser } from "./types";
+import { parseLocation } from "./helpers";
+
+const HEADER = /^(error|warning)(?:\[(E\d+)\])?: (.*)$/;
+const LOCATION = /^\s*--> (.+)$/;
+const HELP = /^\s*(?:= )?help: (.*)$/;
+// Summary lines that repeat what the errors above already said
+const SUMMARY =
+  /^(could not compile|aborting due to|\d+ warnings? emitted|build failed)/;
+
+const cargo: DiagnosticParser = {
+  name: "cargo",
+  parse: (lines) => {
+    const diagnostics: Diagnostic[] = [];
+    let current: Diagnostic | undefined;
+
+    for (const line of lines) {
+      const header = line.match(HEADER);
+      if (header) {
+        current = undefined;
+        if (SUMMARY.test(header[3])) continue;
+        current = {
+          tool: "cargo",
+          severity: header[1] === "warning" ? "warning" : "error",
+          code: header[2],
+          message: header[3].trim(),
+        };
+        diagnostics.push(current);
+        continue;
+      }
+      if (!current) continue;
+
+      const location = line.match(LOCATION);
+      if (location && current.file === undefined) {
+        Object.assign(current, parseLocation(location[1].trim()));
+        continue;
+      }
+      const help = line.match(HELP);
+      if (help && !current.hint) current.hint = help[1].trim();
+    }
+
+    // Without a location or code a bare `error: ...` is more likely another
+    // tool's output; leave it to the generic parser
+    return diagnostics.filter((d) => d.file !== undefined || d.code);
+  },
+};
+
+export default cargo;
@@ -0,0 +1,423 @@
+import fs from "fs";
+import path from "path";
+import { formatDiagnostic, parseDiagnostics } from "./index";
+import { parseLocation, programOf } from "./helpers";
+
+// Real output of the tools, kept in __fixtures__
+const fixture = (name: string) =>
+  fs.readFileSync(path.join(__dirname, "__fixtures__", `${name}.txt`), "utf8");
+
+const parse = (name: string, command: string) =>
+  parseDiagnostics(fixture(name), command);
+
+describe("npm, yarn and pnpm", () => {
+  it("reads the code and message of an npm error", () => {
+    expect(parse("npm-eresolve", "npm install")).toEqual([
+      {
+        tool: "npm",
+        severity: "error",
+        code: "ERESOLVE",
+        message: "ERESOLVE unable to resolve dependency tree",
+        file: undefined,
+        hint: expect.stringContaining("--legacy-peer-deps"),
+      },
+    ]);
+  });
+
+  it("recognizes a missing script in npm 10 wording", () => {
+    expect(parse("npm-missing-script", "npm run tes")).toMatchObject([
+      { tool: "npm", code: "missing-script", message: 'Missing script: "tes"' },
+    ]);
+  });
+
+  it("tells a missing package.json from other ENOENTs", () => {
+    expect(parse("npm-no-package-json", "npm install")).toMatchObject([
+      {
+        tool: "npm",
+        code: "no-package-json",
+        file: "/home/me/project/package.json",
+      },
+    ]);
+  });
+
+  it("recognizes a missing script in yarn 1 and yarn 2+", () => {
+    expect(parse("yarn1-missing-script", "yarn tes")).toMatchObject([
+      {
+        tool: "yarn",
+        code: "missing-script",
+        message: 'Command "tes" not found.',
+      },
+    ]);
+    expect(parse("yarn2-missing-script", "yarn tes")).toMatchObject([
+      { tool: "yarn", code: "missing-script" },
+    ]);
+  });
+
+  it("leaves `error` lines of other programs to their own parsers", () => {
+    expect(parse("yarn1-missing-script", "make build")).not.toContainEqual(
+      expect.objectContaining({ tool: "yarn" })
+    );
+  });
+
+  it("reads pnpm's ERR_PNPM codes", () => {
+    expect(parse("pnpm-no-script", "pnpm tes")).toMatchObject([
+      {
+        tool: "pnpm",
+        code: "ERR_PNPM_NO_SCRIPT",
+        message: "Missing script: tes",
+        hint: expect.stringContaining("pnpm run"),
+      },
+    ]);
+  });
+});
+
+describe("Python", () => {
+  it("reads the exception and where it was raised", () => {
+    expect(parse("python-module-not-found", "python3 app.py")).toEqual([
+      {
+        tool: "python",
+        severity: "error",
+        code: "ModuleNotFoundError",
+        message: "No module named 'requests'",
+        file: "/home/me/project/app.py",
+        line: 3,
+        hint: expect.stringContaining("pip install requests"),
+      },
+    ]);
+  });
+
+  it("points at the user's own code rather than the standard library", () => {
+    expect(parse("python-library-frame", "python3 main.py")).toMatchObject([
+      {
+        code: "JSONDecodeError",
+        message: "Expecting value: line 1 column 1 (char 0)",
+        file: "/home/me/project/main.py",
+        line: 8,
+      },
+    ]);
+  });
+
+  it("reads syntax errors, which have no traceback header", () => {
+    expect(parse("python-syntax-error", "python3 script.py")).toMatchObject([
+      {
+        code: "SyntaxError",
+        message: "'(' was never closed",
+        file: "/home/me/project/script.py",
+        line: 4,
+      },
+    ]);
+  });
+
+  it("reads pip errors", () => {
+    expect(
+      parse("pip-externally-managed", "pip install requests")
+    ).toMatchObject([{ tool: "pip", code: "externally-managed-environment" }]);
+    expect(parse("pip-no-version", "pip install nosuchpackage")).toMatchObject([
+      {
+        tool: "pip",
+        message: expect.stringMatching(/^Could not find a version/),
+        hint: expect.any(String),
+      },
+      {
+        tool: "pip",
+        message: "No matching distribution found for nosuchpackage",
+      },
+    ]);
+  });
+});
+
+describe("Node.js", () => {
+  it("reads a missing module with its code from the error object", () => {
+    expect(parse("node-module-not-found", "node server.js")).toEqual([
+      {
+        tool: "node",
+        severity: "error",
+        code: "MODULE_NOT_FOUND",
+        message: "Cannot find module 'express'",
+        file: "/home/me/project/server.js",
+        line: 1,
+        column: 17,
+        hint: expect.stringContaining("npm install express"),
+      },
+    ]);
+  });
+
+  it("skips frames inside Node itself", () => {
+    expect(parse("node-eaddrinuse", "node index.js")).toMatchObject([
+      {
+        code: "EADDRINUSE",
+        file: "/home/me/project/index.js",
+        line: 10,
+        column: 8,
+        hint: expect.stringContaining("port"),
+      },
+    ]);
+  });
+
+  it("uses the error class as the code when there is none", () => {
+    expect(parse("node-type-error", "node index.js")).toMatchObject([
+      {
+        code: "TypeError",
+        message: "Cannot read properties of undefined (reading 'first')",
+        line: 5,
+        column: 23,
+      },
+    ]);
+  });
+});
+
+describe("tsc and ESLint", () => {
+  it("reads tsc's plain and --pretty formats", () => {
+    expect(parse("tsc", "npx tsc")).toMatchObject([
+      { tool: "tsc", code: "TS2304", file: "src/App.tsx", line: 12, column: 5 },
+      {
+        tool: "tsc",
+        code: "TS2307",
+        file: "src/utils/api.ts",
+        line: 3,
+        column: 22,
+      },
+    ]);
+    expect(parse("tsc-pretty", "npx tsc")).toEqual([
+      {
+        tool: "tsc",
+        severity: "error",
+        code: "TS2322",
+        message: "Type 'string' is not assignable to type 'number'.",
+        file: "src/index.ts",
+        line: 4,
+        column: 7,
+        hint: undefined,
+      },
+    ]);
+  });
+
+  it("reads ESLint's stylish format, errors first", () => {
+    expect(parse("eslint-stylish", "npx eslint src")).toEqual([
+      {
+        tool: "eslint",
+        severity: "error",
+        code: "no-undef",
+        message: "'handleClick' is not defined",
+        file: "/home/me/project/src/App.tsx",
+        line: 14,
+        column: 11,
+      },
+      {
+        tool: "eslint",
+        severity: "error",
+        code: undefined,
+        message: "Parsing error: Unexpected token",
+        file: "/home/me/project/src/index.ts",
+        line: 1,
+        column: 1,
+      },
+      {
+        tool: "eslint",
+        severity: "warning",
+        code: "@typescript-eslint/no-unused-vars",
+        message: "'logo' is defined but never used",
+        file: "/home/me/project/src/App.tsx",
+        line: 3,
+        column: 8,
+      },
+    ]);
+  });
+
+  it("reads ESLint's unix format", () => {
+    expect(parse("eslint-unix", "npx eslint -f unix src")).toMatchObject([
+      { severity: "error", code: "no-undef", line: 14, column: 11 },
+      {
+        severity: "warning",
+        code: "@typescript-eslint/no-unused-vars",
+        line: 3,
+        column: 8,
+      },
+    ]);
+  });
+});
+
+describe("git", () => {
+  it("attaches git's own hints to the error", () => {
+    expect(parse("git-push-rejected", "git push")).toMatchObject([
+      {
+        tool: "git",
+        code: "push-rejected",
+        message: "failed to push some refs to 'github.com:me/repo.git'",
+        hint: expect.stringMatching(
+          /^Updates were rejected .* before pushing again\.$/
+        ),
+      },
+    ]);
+  });
+
+  it("falls back to its own hint when git gives none", () => {
+    expect(parse("git-not-a-repository", "git status")).toMatchObject([
+      { code: "not-a-repository", hint: expect.stringContaining("git init") },
+    ]);
+  });
+
+  it("recognizes unknown subcommands", () => {
+    expect(parse("git-unknown-command", "git stauts")).toMatchObject([
+      { tool: "git", code: "unknown-command" },
+    ]);
+  });
+
+  it("reports merge conflicts from any command", () => {
+    expect(parse("git-merge-conflict", "gh pr merge")).toMatchObject([
+      { tool: "git", code: "merge-conflict", file: "src/App.tsx" },
+    ]);
+  });
+});
+
+describe("cargo and go", () => {
+  it("reads rustc errors and warnings with their location and help", () => {
+    expect(parse("cargo", "cargo build")).toEqual([
+      {
+        tool: "cargo",
+        severity: "error",
+        code: "E0425",
+        message: "cannot find value `x` in this scope",
+        file: "src/main.rs",
+        line: 3,
+        column: 20,
+        hint: "consider importing this function",
+      },
+      {
+        tool: "cargo",
+        severity: "warning",
+        code: undefined,
+        message: "unused variable: `y`",
+        file: "src/main.rs",
+        line: 2,
+        column: 9,
+      },
+    ]);
+  });
+
+  it("reads go build errors", () => {
+    expect(parse("go-build", "go build")).toMatchObject([
+      {
+        tool: "go",
+        message: '"os" imported and not used',
+        file: "./main.go",
+        line: 4,
+        column: 2,
+        hint: expect.stringContaining("unused imports"),
+      },
+      { tool: "go", message: "undefined: foo", line: 8, column: 2 },
+    ]);
+  });
+
+  it("reads failed go tests", () => {
+    expect(parse("go-test", "go test ./...")).toMatchObject([
+      {
+        tool: "go",
+        code: "TestParse",
+        message: "got 1, want 2",
+        file: "parse_test.go",
+        line: 12,
+      },
+    ]);
+  });
+
+  it("reads go's own errors", () => {
+    expect(parse("go-no-module", "go build")).toMatchObject([
+      { tool: "go", hint: expect.stringContaining("go mod init") },
+    ]);
+  });
+});
+
+describe("shell", () => {
+  it.each([
+    ["shell-bash-not-found", "command-not-found"],
+    ["shell-zsh-not-found", "command-not-found"],
+    ["shell-sh-not-found", "command-not-found"],
+    ["shell-syntax-error", "syntax-error"],
+  ])("recognizes %s", (name, code) => {
+    expect(parse(name, "gti status")).toMatchObject([{ tool: "shell", code }]);
+  });
+
+  it("names the file a command couldn't find or run", () => {
+    expect(parse("shell-no-such-file", "cat notes.txt")).toMatchObject([
+      { code: "ENOENT", file: "notes.txt" },
+    ]);
+    expect(parse("shell-permission-denied", "./run.sh")).toMatchObject([
+      { code: "permission-denied", file: "./run.sh" },
+    ]);
+  });
+
+  it("falls back to the first line that looks like an error", () => {
+    expect(parse("shell-generic", "psql")).toEqual([
+      {
+        tool: "shell",
+        severity: "error",
+        message: "Fatal: connection refused by server",
+      },
+    ]);
+  });
+
+  it("stays out of the way when a precise parser matched", () => {
+    expect(parse("cargo", "cargo build").map((d) => d.tool)).not.toContain(
+      "shell"
+    );
+  });
+});
+
+describe("parseDiagnostics", () => {
+  it("strips ANSI codes first", () => {
+    const output =
+      "\x1b[1msrc/a.ts(1,2)\x1b[0m: \x1b[31merror\x1b[0m TS2304: x";
+    expect(parseDiagnostics(output, "tsc")).toMatchObject([
+      { tool: "tsc", code: "TS2304", file: "src/a.ts" },
+    ]);
+  });
+
+  it("returns nothing for empty output", () => {
+    expect(parseDiagnostics("\n  \n", "ls")).toEqual([]);
+  });
+
+  it("drops duplicates and caps the list", () => {
+    const line = "src/a.ts(1,2): error TS2304: Cannot find name 'x'.\n";
+    const many = Array.from(
+      { length: 20 },
+      (_, i) => `src/a.ts(${i + 1},2): error TS2304: Cannot find name 'x'.`
+    ).join("\n");
+    expect(parseDiagnostics(line + line, "tsc")).toHaveLength(1);
+    expect(parseDiagnostics(many, "tsc")).toHaveLength(10);
+  });
+});
+
+describe("helpers", () => {
+  it("finds the program behind sudo, assignments and paths", () => {
+    expect(programOf("sudo FOO=1 ./node_modules/.bin/tsc -p .")).toBe("tsc");
+    expect(programOf("")).toBe("");
+  });
+
+  it("parses both location formats", () => {
+    expect(parseLocation("src/a.ts:3:4")).toEqual({
+      file: "src/a.ts",
+      line: 3,
+      column: 4,
+    });
+    expect(parseLocation("src/a.ts(3,4)")).toEqual({
+      file: "src/a.ts",
+      line: 3,
+      column: 4,
+    });
+    expect(parseLocation("no location")).toBeUndefined();
+  });
+
+  it("formats a diagnostic on one line", () => {
+    expect(
+      formatDiagnostic({
+        tool: "tsc",
+        severity: "error",
+        code: "TS2304",
+        message: "Cannot find name 'x'.",
+        file: "src/a.ts",
+        line: 3,
+      })
+    ).toBe("[tsc TS2304] Cannot find name 'x'. (src/a.ts:3)");
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * git errors, with git's own hints attached.
+ *
+ *   git: 'stauts' is not a git command. See 'git --help'.
+ *   fatal: not a git repository (or any of the parent directories): .git
+ *   error: failed to push some refs to 'github.com:me/repo.git'
+ *   hint: Updates were rejected because the remote contains work that you do
+ *   CONFLICT (content): Merge conflict in src/App.tsx
+ */
+
+import { Diagnostic, DiagnosticParser } from "./types";
+import { programOf } from "./helpers";
+
+const CODES: Array<[RegExp, string, string?]> = [
+  [/is not a git command/, "unknown-command"],
+  [
+    /not a git repository/,
+    "not-a-repository",
+    "Run it inside a repository, or create one with `git init`",
+  ],
+  [
+    /failed to push some refs/,
+    "push-rejected",
+    "Pull (or fetch and rebase) the remote changes, then push again",
+  ],
+  [
+    /Your local changes to the following files would be overwritten/,
+    "local-changes",
+    "Commit or stash your changes first",
+  ],
+  [
+    /Authentication failed|Permission denied \(publickey\)/,
+    "auth-failed",
+    "Check your credentials or SSH key for the remote",
+  ],
+];
+
+const git: DiagnosticParser = {
+  name: "git",
+  parse: (lines, command) => {
+    const diagnostics: Diagnostic[] = [];
+
+    lines.forEach((line) => {
+      const conflict = line.match(/^CONFLICT \(([^)]+)\): .* in (.+)$/);
+      if (conflict) {
+        diagnostics.push({
+          tool: "git",
+          severity: "error",
+          code: "merge-conflict",
+          message: line.trim(),
+          file: conflict[2].trim(),
+          hint: "Resolve the conflict markers, `git add` the file and continue",
+        });
+      }
+    });
+
+    if (programOf(command) !== "git") return diagnostics;
+
+    // git prints its hints after the error they belong to
+    const hints = lines
+      .filter((line) => line.startsWith("hint: "))
+      .map((line) => line.slice(6).trim())
+      .filter(Boolean);
+
+    lines.forEach((line) => {
+      const match =
+        line.match(/^(fatal|error): (.*)$/) ||
+        line.match(/^git: ('.*' is not a git command.*)$/);
+      if (!match) return;
+
+      const message = (match[2] ?? match[1]).trim();
+      const known = CODES.find(([pattern]) => pattern.test(message));
+      diagnostics.push({
+        tool: "git",
+        severity: "error",
+        code: known?.[1],
+        message,
+        hint: hints.length > 0 ? hints.join(" ") : known?.[2],
+      });
+    });
+    return diagnostics;
+  },
+};
+
+export default git;
@@ -0,0 +1,89 @@
+/**
+ * Go compiler, module and test errors.
+ *
+ *   ./main.go:5:2: undefined: foo
+ *   go: cannot find main module, but found .git/config in /app
+ *   --- FAIL: TestParse (0.00s)
+ *       parse_test.go:12: got 1, want 2
+ */
+
+import { Diagnostic, DiagnosticParser } from "./types";
+import { programOf } from "./helpers";
+
+const COMPILE = /^(.+\.go):(\d+):(\d+): (.*)$/;
+const TEST_FAILURE = /^\s*--- FAIL: (\S+)/;
+const TEST_LOCATION = /^\s+(\S+\.go):(\d+): (.*)$/;
+
+const compileHint = (message: string): string | undefined => {
+  if (
+    /^no required module provides package|cannot find package/.test(message)
+  ) {
+    return "Add the dependency with `go get <module>` or run `go mod tidy`";
+  }
+  // `"os" imported and not used`, `declared and not used: x` (older Go
+  // versions say `x declared but not used`)
+  if (/imported and not used|declared (?:and|but) not used/.test(message)) {
+    return "Remove it, or use it; Go doesn't allow unused imports or variables";
+  }
+  return undefined;
+};
+
+const go: DiagnosticParser = {
+  name: "go",
+  parse: (lines, command) => {
+    const diagnostics: Diagnostic[] = [];
+    let failedTest: string | undefined;
+
+    for (const line of lines) {
+      const compile = line.match(COMPILE);
+      if (compile) {
+        diagnostics.push({
+          tool: "go",
+          severity: "error",
+          message: compile[4].trim(),
+          file: compile[1],
+          line: Number(compile[2]),
+          column: Number(compile[3]),
+          hint: compileHint(compile[4]),
+        });
+        continue;
+      }
+
+      const test = line.match(TEST_FAILURE);
+      if (test) {
+        failedTest = test[1];
+        continue;
+      }
+      const testLocation = failedTest ? line.match(TEST_LOCATION) : null;
+      if (testLocation) {
+        diagnostics.push({
+          tool: "go",
+          severity: "error",
+          code: failedTest,
+          message: testLocation[3].trim(),
+          file: testLocation[1],
+          line: Number(testLocation[2]),
+        });
+        failedTest = undefined;
+        continue;
+      }
+
+      const goError =
+        programOf(command) === "go" ? line.match(/^go: (.*)$/) : null;
+      if (goError) {
+        const message = goError[1].trim();
+        diagnostics.push({
+          tool: "go",
+          severity: "error",
+          message,
+          hint: /cannot find main module|go\.mod file not found/.test(message)
+            ? "Run it in the module's directory, or create one with `go mod init <name>`"
+            : compileHint(message),
+        });
+      }
+    }
+    return diagnostics;
+  },
+};
+
+export default go;
@@ -0,0 +1,28 @@
+/**
+ * Shared helpers for the diagnostics parsers.
+ */
+
+/**
+ * The program a command runs, skipping environment assignments, sudo and
+ * the directory part of a path: `sudo FOO=1 ./node_modules/.bin/tsc` → "tsc".
+ */
+export const programOf = (command: string): string => {
+  const words = command.trim().split(/\s+/);
+  const program = words.find((word) => word !== "sudo" && !/^\w+=/.test(word));
+  return (program || "").split("/").pop() || "";
+};
+
+/** A location written as `file:line[:column]` or `file(line,column)` */
+export const parseLocation = (
+  text: string
+): { file: string; line: number; column?: number } | undefined => {
+  const match =
+    text.match(/^(.+?):(\d+)(?::(\d+))?$/) ||
+    text.match(/^(.+?)\((\d+),(\d+)\)$/);
+  if (!match) return undefined;
+  return {
+    file: match[1],
+    line: Number(match[2]),
+    column: match[3] ? Number(match[3]) : undefined,
+  };
+};
@@ -0,0 +1,89 @@
+/**
+ * Structured diagnostics for failed commands
+ *
+ * Turns a command's output into a list of problems: which tool reported
+ * them, its error code, the message, the file and line, and a hint. Each
+ * tool has a parser plugin; the generic shell parser only runs when none of
+ * them recognized anything, so its catch-all can't drown out a precise
+ * tsc or cargo error.
+ *
+ * Plugins implement DiagnosticParser (see ./types) and are tried in order.
+ */
+
+import { stripAnsi } from "../shellIntegration";
+import { Diagnostic, DiagnosticParser } from "./types";
+import packageManagers from "./packageManagers";
+import python from "./python";
+import node from "./node";
+import typescript from "./typescript";
+import git from "./git";
+import cargo from "./cargo";
+import go from "./go";
+import shell from "./shell";
+
+export type { Diagnostic, DiagnosticParser } from "./types";
+
+const PARSERS: DiagnosticParser[] = [
+  packageManagers,
+  python,
+  node,
+  typescript,
+  git,
+  cargo,
+  go,
+];
+const FALLBACK_PARSER = shell;
+
+const MAX_DIAGNOSTICS = 10;
+
+/**
+ * Parses a command's output into diagnostics, errors before warnings.
+ *
+ * @param output - Raw output; ANSI codes are stripped here
+ * @param command - The command that produced it, for parsers that only
+ *   apply to one tool's output
+ */
+export function parseDiagnostics(output: string, command = ""): Diagnostic[] {
+  const lines = stripAnsi(output)
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+$/, ""))
+    .filter(Boolean);
+  if (lines.length === 0) return [];
+
+  const run = (parser: DiagnosticParser) => {
+    try {
+      return parser.parse(lines, command);
+    } catch (err) {
+      console.error(`Diagnostics parser ${parser.name} failed:`, err);
+      return [];
+    }
+  };
+
+  let diagnostics = PARSERS.flatMap(run);
+  if (diagnostics.length === 0) diagnostics = run(FALLBACK_PARSER);
+
+  const seen = new Set<string>();
+  return diagnostics
+    .filter((d) => {
+      const key = [d.tool, d.code, d.message, d.file, d.line].join("|");
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort(
+      (a, b) =>
+        (a.severity === "error" ? 0 : 1) - (b.severity === "error" ? 0 : 1)
+    )
+    .slice(0, MAX_DIAGNOSTICS);
+}
+
+/** `[npm ERESOLVE] message (file:12:5)` */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const source = [diagnostic.tool, diagnostic.code].filter(Boolean).join(" ");
+  const location = diagnostic.file
+    ? ` (${[diagnostic.file, diagnostic.line, diagnostic.column]
+        .filter((part) => part !== undefined)
+        .join(":")})`
+    : "";
+  return `[${source}] ${diagnostic.message}${location}`;
+}
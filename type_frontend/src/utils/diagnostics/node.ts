@@ -0,0 +1,81 @@
+/**
+ * Uncaught errors in Node.js, recognized by their stack trace.
+ *
+ *   Error: Cannot find module 'express'
+ *   Require stack:
+ *   - /app/server.js
+ *       at Module._resolveFilename (node:internal/modules/cjs/loader:1140:15)
+ *       at Object.<anonymous> (/app/server.js:1:17) {
+ *     code: 'MODULE_NOT_FOUND',
+ */
+
+import { Diagnostic, DiagnosticParser } from "./types";
+import { parseLocation } from "./helpers";
+
+const ERROR_LINE = /^(?:Uncaught )?([A-Z]\w*Error|Error)(?: \[(\w+)\])?: (.*)$/;
+const STACK_FRAME = /^\s+at (?:.* \()?(.+?)\)?(?: \{)?$/;
+const CODE_PROPERTY = /^\s+code: '(\w+)'/;
+// How far below the error line its stack may start (Require stack lines)
+const MAX_STACK_GAP = 6;
+
+const errorHint = (code: string | undefined, message: string) => {
+  const missing = message.match(/Cannot find (?:module|package) '([^']+)'/);
+  if (missing) {
+    return /^[./]/.test(missing[1])
+      ? "Check the path; relative imports need the file extension in ES modules"
+      : `Install it with \`npm install ${missing[1]}\`, or check the name`;
+  }
+  if (code === "EADDRINUSE") {
+    return "Another process is listening on that port; stop it or pick another port";
+  }
+  if (code === "ERR_REQUIRE_ESM") {
+    return "The package is ESM-only; use import() or switch the project to ES modules";
+  }
+  return undefined;
+};
+
+const node: DiagnosticParser = {
+  name: "node",
+  parse: (lines) => {
+    const diagnostics: Diagnostic[] = [];
+
+    lines.forEach((line, index) => {
+      const error = line.match(ERROR_LINE);
+      if (!error) return;
+
+      // Only an error followed by a stack trace is an uncaught Node error
+      const following = lines.slice(index + 1, index + 1 + MAX_STACK_GAP);
+      const stackStart = following.findIndex((l) => STACK_FRAME.test(l));
+      if (stackStart === -1) return;
+
+      const rest = lines.slice(index + 1 + stackStart);
+      const frames = rest
+        .filter((l) => STACK_FRAME.test(l))
+        .map((l) => l.match(STACK_FRAME)![1]);
+      // The first frame in the user's own code
+      const frame = frames.find(
+        (f) => !f.startsWith("node:") && !f.includes("node_modules")
+      );
+      const code =
+        error[2] ||
+        rest
+          .map((l) => l.match(CODE_PROPERTY)?.[1])
+          .find((c): c is string => !!c);
+      const location = frame
+        ? parseLocation(frame.replace(/^file:\/\//, ""))
+        : undefined;
+
+      diagnostics.push({
+        tool: "node",
+        severity: "error",
+        code: code || error[1],
+        message: error[3].trim(),
+        ...location,
+        hint: errorHint(code, error[3]),
+      });
+    });
+    return diagnostics;
+  },
+};
+
+export default node;
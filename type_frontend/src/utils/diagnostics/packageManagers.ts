@@ -0,0 +1,136 @@
+/**
+ * npm, yarn and pnpm errors.
+ *
+ *   npm ERR! code ERESOLVE              (npm 6-9; npm 10 says "npm error")
+ *   npm ERR! Missing script: "tes"
+ *   error Command "tes" not found.      (yarn 1)
+ *   Usage Error: Couldn't find a script named "tes".   (yarn 2+)
+ *    ERR_PNPM_NO_SCRIPT  Missing script: tes
+ */
+
+import { Diagnostic, DiagnosticParser } from "./types";
+import { programOf } from "./helpers";
+
+const NPM_PREFIX = /^npm (?:ERR!|error)\s?/;
+// npm lines that describe the error rather than state it
+const NPM_DETAIL =
+  /^(code|errno|syscall|path|signal|command|cwd|A complete log|Log files|$)/;
+
+const NPM_HINTS: Record<string, string> = {
+  ERESOLVE:
+    "Fix the conflicting peer dependency, or retry with --legacy-peer-deps",
+  E404: "Check the package name and the registry it is published to",
+  ETARGET:
+    "No published version matches; list them with npm view <package> versions",
+  EACCES:
+    "Fix the ownership of the npm cache and global folders instead of using sudo",
+  EPERM:
+    "Another process may hold the file; close editors and watchers and retry",
+  ELIFECYCLE: "The script itself failed; its own error is in the output above",
+  "missing-script": "List the scripts in package.json with `npm run`",
+  "no-package-json":
+    "Run it in a directory with a package.json, or create one with `npm init`",
+};
+
+const PNPM_HINTS: Record<string, string> = {
+  ERR_PNPM_NO_SCRIPT: "List the scripts in package.json with `pnpm run`",
+  ERR_PNPM_NO_IMPORTER_MANIFEST_FOUND:
+    "Run it in a directory with a package.json, or create one with `pnpm init`",
+};
+
+function parseNpm(lines: string[]): Diagnostic[] {
+  const body = lines
+    .filter((line) => NPM_PREFIX.test(line))
+    .map((line) => line.replace(NPM_PREFIX, "").trim());
+  if (body.length === 0) return [];
+
+  let code = body
+    .find((line) => line.startsWith("code "))
+    ?.slice(5)
+    .trim();
+  const file = body
+    .find((line) => line.startsWith("path "))
+    ?.slice(5)
+    .trim();
+  const message =
+    body.find((line) => !NPM_DETAIL.test(line)) || (code ? `npm ${code}` : "");
+  if (!message) return [];
+
+  if (/^Missing script/i.test(message)) code = "missing-script";
+  else if (code === "ENOENT" && file?.endsWith("package.json")) {
+    code = "no-package-json";
+  }
+
+  return [
+    {
+      tool: "npm",
+      severity: "error",
+      code,
+      message,
+      file,
+      hint: code ? NPM_HINTS[code] : undefined,
+    },
+  ];
+}
+
+function parseYarn(lines: string[], command: string): Diagnostic[] {
+  if (programOf(command) !== "yarn") return [];
+
+  const diagnostics: Diagnostic[] = [];
+  for (const line of lines) {
+    const match =
+      line.match(/^error\s+(.*)$/) || line.match(/^Usage Error: (.*)$/);
+    if (!match) continue;
+
+    const message = match[1].trim();
+    let code: string | undefined;
+    let file: string | undefined;
+    if (/^Command ".*" not found|Couldn't find a script named/.test(message)) {
+      code = "missing-script";
+    } else if (/Couldn't find a package.json/.test(message)) {
+      code = "no-package-json";
+      file = message.match(/"([^"]+)"/)?.[1];
+    }
+    diagnostics.push({
+      tool: "yarn",
+      severity: "error",
+      code,
+      message,
+      file,
+      hint:
+        code === "missing-script"
+          ? "List the scripts in package.json with `yarn run`"
+          : code
+          ? NPM_HINTS[code]
+          : undefined,
+    });
+  }
+  return diagnostics;
+}
+
+function parsePnpm(lines: string[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const line of lines) {
+    const match = line.match(/^\s*(ERR_PNPM_\w+)\s+(.*)$/);
+    if (!match) continue;
+    diagnostics.push({
+      tool: "pnpm",
+      severity: "error",
+      code: match[1],
+      message: match[2].trim() || match[1],
+      hint: PNPM_HINTS[match[1]],
+    });
+  }
+  return diagnostics;
+}
+
+const packageManagers: DiagnosticParser = {
+  name: "packageManagers",
+  parse: (lines, command) => [
+    ...parseNpm(lines),
+    ...parseYarn(lines, command),
+    ...parsePnpm(lines),
+  ],
+};
+
+export default packageManagers;
@@ -0,0 +1,117 @@
+/**
+ * Python tracebacks, syntax errors and pip errors.
+ *
+ *   Traceback (most recent call last):
+ *     File "app.py", line 3, in <module>
+ *       import requests
+ *   ModuleNotFoundError: No module named 'requests'
+ *
+ *   ERROR: Could not find a version that satisfies the requirement foo
+ *   error: externally-managed-environment
+ */
+
+import { Diagnostic, DiagnosticParser } from "./types";
+import { programOf } from "./helpers";
+
+const FRAME = /^\s*File "(.+)", line (\d+)/;
+// The last line of a traceback: `NameError: name 'x' is not defined`
+const EXCEPTION =
+  /^((?:[A-Za-z_][\w]*\.)*[A-Z]\w*(?:Error|Exception|Warning|Exit|Interrupt))(?::\s*(.*))?$/;
+
+const exceptionHint = (type: string, message: string): string | undefined => {
+  const missing = message.match(/No module named '([^'.]+)/);
+  if (missing) {
+    return `Install it with \`pip install ${missing[1]}\` in the environment the script runs in (the package name can differ from the module name)`;
+  }
+  if (type === "IndentationError" || type === "TabError") {
+    return "Indent with spaces only, consistently within each block";
+  }
+  if (type === "SyntaxError") {
+    return "Check the marked line and the one before it for an unclosed bracket or quote";
+  }
+  return undefined;
+};
+
+// Frames inside installed packages or the standard library
+const LIBRARY_FRAME = /site-packages|dist-packages|[\\/]lib[\\/]python\d/;
+
+function parseTraceback(lines: string[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  let inTraceback = false;
+  let location: { file: string; line: number } | undefined;
+
+  for (const line of lines) {
+    if (/^Traceback \(most recent call last\)/.test(line)) {
+      inTraceback = true;
+      location = undefined;
+      continue;
+    }
+    const frame = line.match(FRAME);
+    if (frame) {
+      inTraceback = true;
+      // The innermost frame of the user's own code is where the fix goes
+      if (!location || !LIBRARY_FRAME.test(frame[1])) {
+        location = { file: frame[1], line: Number(frame[2]) };
+      }
+      continue;
+    }
+
+    const exception = inTraceback ? line.match(EXCEPTION) : null;
+    if (!exception) continue;
+
+    const type = exception[1].split(".").pop() || exception[1];
+    const message = exception[2]?.trim() || type;
+    diagnostics.push({
+      tool: "python",
+      severity: "error",
+      code: type,
+      message,
+      ...location,
+      hint: exceptionHint(type, message),
+    });
+    inTraceback = false;
+    location = undefined;
+  }
+  return diagnostics;
+}
+
+function parsePip(lines: string[], command: string): Diagnostic[] {
+  const program = programOf(command);
+  if (!/^(pip3?|python3?|uv|pipx)$/.test(program)) return [];
+
+  const diagnostics: Diagnostic[] = [];
+  for (const line of lines) {
+    const match = line.match(/^(?:ERROR|error): (.*)$/);
+    if (!match) continue;
+
+    const message = match[1].trim();
+    let hint: string | undefined;
+    if (/externally-managed-environment/.test(message)) {
+      hint =
+        "Create a virtualenv (`python3 -m venv .venv`) and install into it, or use pipx for applications";
+    } else if (/Could not find a version that satisfies/.test(message)) {
+      hint =
+        "Check the package name and whether it supports this Python version";
+    }
+    diagnostics.push({
+      tool: "pip",
+      severity: "error",
+      code: /externally-managed-environment/.test(message)
+        ? "externally-managed-environment"
+        : undefined,
+      message,
+      hint,
+    });
+  }
+  return diagnostics;
+}
+
+const python: DiagnosticParser = {
+  name: "python",
+  parse: (lines, command) => [
+    ...parseTraceback(lines),
+    ...parsePip(lines, command),
+  ],
+};
+
+export default python;
@@ -0,0 +1,82 @@
+/**
+ * Errors from the shell itself and from everyday commands, in bash, zsh,
+ * fish and POSIX sh wording.
+ *
+ *   zsh: command not found: gti         bash: gti: command not found
+ *   fish: Unknown command: gti          sh: 1: gti: not found
+ *   zsh: permission denied: ./run.sh    cat: notes.txt: No such file or directory
+ *   bash: syntax error near unexpected token `)'
+ */
+
+import { Diagnostic, DiagnosticParser } from "./types";
+
+const PATTERNS: Array<{
+  pattern: RegExp;
+  code: string;
+  // Which capture group holds the file or command, if any
+  subject?: number;
+  hint: string;
+}> = [
+  {
+    pattern:
+      /(?:command not found: (\S+)|^\S+: (?:line \d+: )?(\S+): command not found|Unknown command:? '?([^'\s]+)|^sh: \d+: (\S+): not found)/,
+    code: "command-not-found",
+    hint: "Check the spelling, or install the program and make sure it is on your PATH",
+  },
+  {
+    pattern:
+      /(?:permission denied: (\S+)|^(?:\S+: )?(?:line \d+: )?(\S+): Permission denied)/,
+    code: "permission-denied",
+    subject: 1,
+    hint: "Make scripts executable with `chmod +x`, or check who owns the file",
+  },
+  {
+    pattern:
+      /^(?:\S+: )?(?:cannot \w+ )?'?([^:']+)'?: No such file or directory/,
+    code: "ENOENT",
+    subject: 1,
+    hint: "Check the path relative to the current directory",
+  },
+  {
+    pattern: /syntax error(?: near unexpected token)?/,
+    code: "syntax-error",
+    hint: "Check quoting, brackets and the operators around the marked token",
+  },
+];
+
+// Last resort for tools without a parser of their own
+const GENERIC_ERROR =
+  /\b(error|failed|fatal|invalid|not recognized|exception)\b/i;
+
+const shell: DiagnosticParser = {
+  name: "shell",
+  parse: (lines) => {
+    const diagnostics: Diagnostic[] = [];
+
+    for (const line of lines) {
+      for (const { pattern, code, subject, hint } of PATTERNS) {
+        const match = line.match(pattern);
+        if (!match) continue;
+
+        const captured = match.slice(1).find(Boolean);
+        diagnostics.push({
+          tool: "shell",
+          severity: "error",
+          code,
+          message: line.trim(),
+          ...(subject && captured ? { file: captured } : {}),
+          hint,
+        });
+        break;
+      }
+    }
+    if (diagnostics.length > 0) return diagnostics;
+
+    const generic = lines.find((line) => GENERIC_ERROR.test(line));
+    return generic
+      ? [{ tool: "shell", severity: "error", message: generic.trim() }]
+      : [];
+  },
+};
+
+export default shell;
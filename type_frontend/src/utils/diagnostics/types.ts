@@ -0,0 +1,24 @@
+/** One problem reported in a command's output */
+export interface Diagnostic {
+  /** What reported it: "npm", "python", "tsc", "git", "shell", ... */
+  tool: string;
+  severity: "error" | "warning";
+  /** The tool's own identifier: "ERESOLVE", "TS2304", "E0425", "ModuleNotFoundError" */
+  code?: string;
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  /** What usually fixes it, from the tool or from us */
+  hint?: string;
+}
+
+/**
+ * A parser plugin. `parse` gets the output split into lines (ANSI codes
+ * already stripped) and the command that produced it, and returns the
+ * problems it recognizes, or nothing.
+ */
+export interface DiagnosticParser {
+  name: string;
+  parse(lines: string[], command: string): Diagnostic[];
+}
@@ -0,0 +1,91 @@
+/**
+ * TypeScript compiler and ESLint errors.
+ *
+ *   src/App.tsx(12,5): error TS2304: Cannot find name 'foo'.
+ *   src/App.tsx:12:5 - error TS2304: Cannot find name 'foo'.   (--pretty)
+ *
+ *   /app/src/App.tsx                                           (eslint, stylish)
+ *     12:5  error  'foo' is defined but never used  no-unused-vars
+ *   /app/src/App.tsx:12:5: 'foo' is defined but never used [Error/no-unused-vars]
+ */
+
+import { Diagnostic, DiagnosticParser } from "./types";
+
+const TSC_LINE =
+  /^(.+?)(?:\((\d+),(\d+)\):|:(\d+):(\d+) -) (error|warning) (TS\d+): (.*)$/;
+const ESLINT_STYLISH =
+  /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}(\S+))?$/;
+const ESLINT_UNIX = /^(.+?):(\d+):(\d+): (.*) \[(Error|Warning)(?:\/(\S+))?\]$/;
+const PATH_LINE = /^(?:[A-Za-z]:)?[^\s:]*[\\/]?[^\s:]+\.\w+$/;
+
+const TSC_HINTS: Record<string, string> = {
+  TS2307:
+    "Install the module and its types (@types/<name>), or fix the import path",
+  TS7016: "Install the package's types with `npm install -D @types/<name>`",
+  TS2304: "Import or declare the name, or fix its spelling",
+};
+
+function parseTsc(lines: string[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  for (const line of lines) {
+    const match = line.match(TSC_LINE);
+    if (!match) continue;
+    diagnostics.push({
+      tool: "tsc",
+      severity: match[6] === "warning" ? "warning" : "error",
+      code: match[7],
+      message: match[8].trim(),
+      file: match[1].trim(),
+      line: Number(match[2] || match[4]),
+      column: Number(match[3] || match[5]),
+      hint: TSC_HINTS[match[7]],
+    });
+  }
+  return diagnostics;
+}
+
+function parseEslint(lines: string[]): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  // Stylish output names the file once, above its problems
+  let file: string | undefined;
+
+  for (const line of lines) {
+    const unix = line.match(ESLINT_UNIX);
+    if (unix) {
+      diagnostics.push({
+        tool: "eslint",
+        severity: unix[5] === "Warning" ? "warning" : "error",
+        code: unix[6],
+        message: unix[4].trim(),
+        file: unix[1],
+        line: Number(unix[2]),
+        column: Number(unix[3]),
+      });
+      continue;
+    }
+
+    if (PATH_LINE.test(line)) {
+      file = line.trim();
+      continue;
+    }
+    const stylish = file ? line.match(ESLINT_STYLISH) : null;
+    if (!stylish) continue;
+    diagnostics.push({
+      tool: "eslint",
+      severity: stylish[3] === "warning" ? "warning" : "error",
+      code: stylish[5],
+      message: stylish[4].trim(),
+      file,
+      line: Number(stylish[1]),
+      column: Number(stylish[2]),
+    });
+  }
+  return diagnostics;
+}
+
+const typescript: DiagnosticParser = {
+  name: "typescript",
+  parse: (lines) => [...parseTsc(lines), ...parseEslint(lines)],
+};
+
+export default typescript;
@@ -0,0 +1,51 @@
+/**
+ * Types and client helper for the backend's explain endpoint, which breaks a
+ * command or a piece of terminal output down into its parts.
+ */
+
+import axios from "axios";
+import { BACKEND_URL } from "./terminalSessions";
+import { RiskLevel } from "./commandFixerAgent";
+
+export type ExplainKind = "command" | "output";
+
+/** One part of the text (a flag, a pipe, an error line) and what it means */
+export interface ExplanationPart {
+  text: string;
+  explanation: string;
+}
+
+export interface Explanation {
+  kind: ExplainKind;
+  /** The text that was explained */
+  text: string;
+  /** Plain-language summary */
+  summary: string;
+  parts: ExplanationPart[];
+  /** What running the command changes, or what the output says changed */
+  sideEffects: string[];
+  /** The backend risk analyzer's verdict, for commands */
+  risk?: { level: RiskLevel; reasons: string[] };
+}
+
+/**
+ * Multi-line selections are most likely output; a single line a command.
+ */
+export const guessExplainKind = (text: string): ExplainKind =>
+  text.trim().includes("\n") ? "output" : "command";
+
+/**
+ * Ask the backend to explain a command or a piece of output. Nothing is run.
+ */
+export const requestExplanation = async (
+  text: string,
+  kind: ExplainKind,
+  shell?: string
+): Promise<Explanation> => {
+  const response = await axios.post(`${BACKEND_URL}/api/explain`, {
+    text,
+    kind,
+    shell,
+  });
+  return response.data;
+};
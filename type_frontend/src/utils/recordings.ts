@@ -0,0 +1,102 @@
+/**
+ * Client helpers for the backend's session recordings: asciicast v2 files
+ * (https://docs.asciinema.org/manual/asciicast/v2/) listed, downloaded and
+ * deleted over REST, and parsed here for the player.
+ */
+
+import axios from "axios";
+import { BACKEND_URL, Recording } from "./terminalSessions";
+
+export interface CastHeader {
+  version: number;
+  width: number;
+  height: number;
+  /** Unix time the recording started, in seconds */
+  timestamp?: number;
+  title?: string;
+}
+
+/**
+ * One line of a recording: output ("o"), keyboard input ("i") or a resize
+ * ("r", data "COLSxROWS"), `time` seconds after it started.
+ */
+export interface CastEvent {
+  time: number;
+  code: string;
+  data: string;
+}
+
+export interface Cast {
+  header: CastHeader;
+  events: CastEvent[];
+  /** Seconds from the start to the last event */
+  duration: number;
+}
+
+/** Every recording on the backend, newest first */
+export const listRecordings = async (): Promise<Recording[]> => {
+  const response = await axios.get(`${BACKEND_URL}/api/recordings`);
+  return response.data.recordings;
+};
+
+/**
+ * A recording's file, or its output as plain text with the escape
+ * sequences stripped.
+ */
+export const fetchRecording = async (
+  id: string,
+  format: "cast" | "text"
+): Promise<string> => {
+  const path = format === "text" ? `${id}/text` : id;
+  const response = await axios.get(`${BACKEND_URL}/api/recordings/${path}`, {
+    responseType: "text",
+    // A .cast file is JSON per line, not as a whole; keep it as it came
+    transformResponse: (data) => data,
+  });
+  return response.data;
+};
+
+export const deleteRecording = async (id: string): Promise<void> => {
+  await axios.delete(`${BACKEND_URL}/api/recordings/${id}`);
+};
+
+/**
+ * Parses an asciicast v2 file. Lines that aren't events, such as one cut
+ * short when the server stopped mid-write, are skipped.
+ *
+ * @throws {Error} When the header isn't asciicast v2
+ */
+export const parseCast = (text: string): Cast => {
+  const [first, ...lines] = text.split("\n");
+  const header: CastHeader = JSON.parse(first);
+  if (header.version !== 2) {
+    throw new Error(`Unsupported asciicast version ${header.version}`);
+  }
+
+  const events: CastEvent[] = [];
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      const [time, code, data] = JSON.parse(line);
+      if (typeof time === "number" && typeof data === "string") {
+        events.push({ time, code, data });
+      }
+    } catch (err) {
+      // Not an event
+    }
+  }
+
+  return {
+    header,
+    events,
+    duration: events.length > 0 ? events[events.length - 1].time : 0,
+  };
+};
+
+/** The size in a resize event's data, e.g. "100x30" */
+export const parseCastSize = (
+  data: string
+): { cols: number; rows: number } | null => {
+  const match = /^(\d+)x(\d+)$/.exec(data);
+  return match ? { cols: Number(match[1]), rows: Number(match[2]) } : null;
+};
@@ -0,0 +1,193 @@
+/**
+ * Parser for the shell integration markers emitted by the backend's
+ * integration scripts:
+ *
+ *   OSC 133 ; A                      prompt start
+ *   OSC 133 ; B                      prompt end (user is typing)
+ *   OSC 133 ; C ; cmdline_url=<cmd>  command start, with the URL-encoded command
+ *   OSC 133 ; D ; <exit>             command end with its exit status
+ *   OSC 7 ; file://<host><path>      current working directory
+ *
+ * Raw pty chunks are fed in as they arrive and structured events come out.
+ * Sequences split across chunk boundaries are buffered until complete.
+ */
+
+export interface CommandBlock {
+  command: string;
+  cwd?: string;
+  startTime: number;
+  endTime: number;
+  exitCode: number;
+  output: string;
+}
+
+export type ShellIntegrationEvent =
+  | { type: "prompt-start" }
+  | { type: "prompt-end" }
+  | { type: "cwd"; cwd: string }
+  | { type: "command-start"; command: string; cwd?: string; startTime: number }
+  | { type: "command-end"; block: CommandBlock };
+
+// Keep only the tail of very chatty commands; the fixer only needs the end
+const MAX_BLOCK_OUTPUT = 64 * 1024;
+// Anything longer than this is not one of our markers
+const MAX_PENDING_SEQUENCE = 4096;
+
+const ANSI_PATTERN =
+  // eslint-disable-next-line no-control-regex
+  /\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)|\u001b\[[0-?]*[ -/]*[@-~]|\u001b[@-Z\\-_]/g;
+
+/**
+ * Removes ANSI escape sequences (CSI, OSC and two-byte escapes) and carriage
+ * returns from terminal output.
+ */
+export const stripAnsi = (text: string): string =>
+  text.replace(ANSI_PATTERN, "").replace(/\r/g, "");
+
+const decode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch (e) {
+    return value;
+  }
+};
+
+export class ShellIntegrationParser {
+  private pending = "";
+  private cwd: string | undefined;
+  private current: {
+    command: string;
+    cwd?: string;
+    startTime: number;
+    output: string;
+  } | null = null;
+
+  /** Working directory from the most recent OSC 7 report */
+  get currentCwd(): string | undefined {
+    return this.cwd;
+  }
+
+  /**
+   * Feeds a chunk of pty output and returns the events it completed.
+   */
+  feed(chunk: string): ShellIntegrationEvent[] {
+    const events: ShellIntegrationEvent[] = [];
+    const data = this.pending + chunk;
+    this.pending = "";
+
+    let textStart = 0;
+    let index = data.indexOf("\u001b]");
+
+    while (index !== -1) {
+      const bel = data.indexOf("\u0007", index + 2);
+      const st = data.indexOf("\u001b\\", index + 2);
+      let end = -1;
+      let terminatorLength = 0;
+
+      if (bel !== -1 && (st === -1 || bel < st)) {
+        end = bel;
+        terminatorLength = 1;
+      } else if (st !== -1) {
+        end = st;
+        terminatorLength = 2;
+      }
+
+      if (end === -1) {
+        // Incomplete sequence; hold it back until the next chunk
+        if (data.length - index <= MAX_PENDING_SEQUENCE) {
+          this.appendOutput(data.slice(textStart, index));
+          this.pending = data.slice(index);
+          return events;
+        }
+        break;
+      }
+
+      this.appendOutput(data.slice(textStart, index));
+      const event = this.handleSequence(data.slice(index + 2, end));
+      if (event) {
+        events.push(event);
+      } else {
+        // Not one of ours: keep it in the output like any other escape
+        this.appendOutput(data.slice(index, end + terminatorLength));
+      }
+
+      textStart = end + terminatorLength;
+      index = data.indexOf("\u001b]", textStart);
+    }
+
+    let rest = data.slice(textStart);
+    // A trailing lone ESC may be the start of the next OSC sequence
+    if (rest.endsWith("\u001b")) {
+      this.pending = "\u001b";
+      rest = rest.slice(0, -1);
+    }
+    this.appendOutput(rest);
+
+    return events;
+  }
+
+  private appendOutput(text: string) {
+    if (!this.current || !text) return;
+    this.current.output += text;
+    if (this.current.output.length > MAX_BLOCK_OUTPUT) {
+      this.current.output = this.current.output.slice(-MAX_BLOCK_OUTPUT);
+    }
+  }
+
+  private handleSequence(body: string): ShellIntegrationEvent | null {
+    if (body.startsWith("7;")) {
+      const url = body.slice(2);
+      const match = url.match(/^file:\/\/[^/]*(\/.*)$/);
+      if (!match) return null;
+      this.cwd = decode(match[1]);
+      return { type: "cwd", cwd: this.cwd };
+    }
+
+    if (!body.startsWith("133;")) return null;
+
+    const [kind, ...params] = body.slice(4).split(";");
+
+    switch (kind) {
+      case "A":
+        return { type: "prompt-start" };
+      case "B":
+        return { type: "prompt-end" };
+      case "C": {
+        const cmdline = params.find((param) =>
+          param.startsWith("cmdline_url=")
+        );
+        const command = cmdline
+          ? decode(cmdline.slice("cmdline_url=".length)).trim()
+          : "";
+        this.current = {
+          command,
+          cwd: this.cwd,
+          startTime: Date.now(),
+          output: "",
+        };
+        return {
+          type: "command-start",
+          command,
+          cwd: this.cwd,
+          startTime: this.current.startTime,
+        };
+      }
+      case "D": {
+        if (!this.current) return null;
+        const exitCode = parseInt(params[0], 10);
+        const block: CommandBlock = {
+          command: this.current.command,
+          cwd: this.current.cwd,
+          startTime: this.current.startTime,
+          endTime: Date.now(),
+          exitCode: Number.isNaN(exitCode) ? 0 : exitCode,
+          output: this.current.output,
+        };
+        this.current = null;
+        return { type: "command-end", block };
+      }
+      default:
+        return null;
+    }
+  }
+}
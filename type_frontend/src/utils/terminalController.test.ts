@@ -0,0 +1,213 @@
+import {
+  CLEAR_LINE,
+  CommandFinishedEvent,
+  TerminalController,
+  TerminalHandle,
+  promptInput,
+} from "./terminalController";
+import { CommandBlock } from "./shellIntegration";
+
+// A mounted terminal that remembers what was written to it
+const fakeTerminal = (tracks = true) => {
+  const written: [string, boolean][] = [];
+  const handle: TerminalHandle = {
+    write: (command, execute) => {
+      written.push([command, execute]);
+    },
+    tracksCommands: () => tracks,
+  };
+  return { handle, written };
+};
+
+const block = (command: string, exitCode = 0): CommandBlock => ({
+  command,
+  cwd: "/project",
+  startTime: 1000,
+  endTime: 1250,
+  exitCode,
+  output: "",
+});
+
+describe("promptInput", () => {
+  it("presses Enter after a command that runs", () => {
+    expect(promptInput("ls -la", true)).toBe("ls -la\r");
+  });
+
+  it("replaces the typed line with an inserted command", () => {
+    expect(promptInput("git status", false)).toBe(CLEAR_LINE + "git status");
+    expect(CLEAR_LINE).toBe("\x05\x15");
+  });
+});
+
+describe("TerminalController", () => {
+  let controller: TerminalController;
+
+  beforeEach(() => {
+    controller = new TerminalController();
+  });
+
+  describe("run", () => {
+    it("runs in the given session and resolves when the command finishes", async () => {
+      const { handle, written } = fakeTerminal();
+      controller.register("s1", handle);
+
+      const run = controller.run("npm test", { sessionId: "s1" });
+      expect(written).toEqual([["npm test", true]]);
+
+      controller.commandFinished("s1", block("npm test", 1), "1 failed");
+      await expect(run).resolves.toEqual({
+        command: "npm test",
+        exitCode: 1,
+        output: "1 failed",
+        durationMs: 250,
+        cwd: "/project",
+      });
+    });
+
+    it("inserts without running and resolves with what the user ran", async () => {
+      const { handle, written } = fakeTerminal();
+      controller.register("s1", handle);
+      controller.setActiveSession("s1");
+
+      const run = controller.run("git push", { insertOnly: true });
+      expect(written).toEqual([["git push", false]]);
+
+      controller.commandFinished("s1", block("git push --force"), "");
+      await expect(run).resolves.toMatchObject({ command: "git push --force" });
+    });
+
+    it("resolves runs in a session in the order they were made", async () => {
+      controller.register("s1", fakeTerminal().handle);
+      const first = controller.run("make", { sessionId: "s1" });
+      const second = controller.run("make test", { sessionId: "s1" });
+
+      controller.commandFinished("s1", block("make"), "");
+      controller.commandFinished("s1", block("make test"), "");
+      await expect(first).resolves.toMatchObject({ command: "make" });
+      await expect(second).resolves.toMatchObject({ command: "make test" });
+    });
+
+    it("fails without a terminal for the session", async () => {
+      controller.register("s1", fakeTerminal().handle);
+      await expect(controller.run("ls")).rejects.toMatchObject({
+        code: "no-terminal",
+      });
+      await expect(
+        controller.run("ls", { sessionId: "s2" })
+      ).rejects.toMatchObject({ code: "no-terminal" });
+    });
+
+    it("writes the command but fails when the shell doesn't report it", async () => {
+      const { handle, written } = fakeTerminal(false);
+      controller.register("s1", handle);
+      await expect(
+        controller.run("ls", { sessionId: "s1" })
+      ).rejects.toMatchObject({ code: "untracked" });
+      expect(written).toEqual([["ls", true]]);
+    });
+
+    it("fails runs still waiting when the terminal closes", async () => {
+      const unregister = controller.register("s1", fakeTerminal().handle);
+      const run = controller.run("sleep 60", { sessionId: "s1" });
+      unregister();
+      await expect(run).rejects.toMatchObject({ code: "closed" });
+      expect(controller.hasTerminal("s1")).toBe(false);
+    });
+
+    it("keeps a terminal that replaced the one unregistering", () => {
+      const unregister = controller.register("s1", fakeTerminal().handle);
+      controller.register("s1", fakeTerminal().handle);
+      unregister();
+      expect(controller.hasTerminal("s1")).toBe(true);
+    });
+
+    it("stops waiting after the timeout", async () => {
+      jest.useFakeTimers();
+      try {
+        controller.register("s1", fakeTerminal().handle);
+        const run = controller.run("sleep 60", {
+          sessionId: "s1",
+          timeoutMs: 500,
+        });
+        jest.advanceTimersByTime(500);
+        await expect(run).rejects.toMatchObject({ code: "timeout" });
+
+        // A later finish no longer counts as that run's
+        const listener = jest.fn();
+        controller.subscribe(listener);
+        controller.commandFinished("s1", block("sleep 60"), "");
+        expect(listener).toHaveBeenCalledWith(
+          expect.objectContaining({ requested: false })
+        );
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe("subscribe", () => {
+    it("delivers every finished command, marking the requested ones", async () => {
+      const events: CommandFinishedEvent[] = [];
+      controller.subscribe((event) => events.push(event));
+      controller.register("s1", fakeTerminal().handle);
+
+      controller.commandFinished("s1", block("ls"), "a.txt");
+      const run = controller.run("pwd", { sessionId: "s1" });
+      controller.commandFinished("s1", block("pwd"), "/project");
+      await run;
+
+      expect(events).toEqual([
+        {
+          sessionId: "s1",
+          result: {
+            command: "ls",
+            exitCode: 0,
+            output: "a.txt",
+            durationMs: 250,
+            cwd: "/project",
+          },
+          requested: false,
+        },
+        expect.objectContaining({
+          sessionId: "s1",
+          result: expect.objectContaining({ command: "pwd" }),
+          requested: true,
+        }),
+      ]);
+    });
+
+    it("stops delivering once unsubscribed", () => {
+      const listener = jest.fn();
+      const unsubscribe = controller.subscribe(listener);
+      controller.commandFinished("s1", block("ls"), "");
+      unsubscribe();
+      controller.commandFinished("s1", block("pwd"), "");
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it("keeps delivering when a listener throws", () => {
+      const error = jest.spyOn(console, "error").mockImplementation(() => {});
+      const listener = jest.fn();
+      controller.subscribe(() => {
+        throw new Error("boom");
+      });
+      controller.subscribe(listener);
+
+      controller.commandFinished("s1", block("ls"), "");
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(error).toHaveBeenCalled();
+      error.mockRestore();
+    });
+
+    it("never reports a negative duration", () => {
+      const listener = jest.fn();
+      controller.subscribe(listener);
+      controller.commandFinished(
+        "s1",
+        { ...block("ls"), startTime: 2000, endTime: 1000 },
+        ""
+      );
+      expect(listener.mock.calls[0][0].result.durationMs).toBe(0);
+    });
+  });
+});
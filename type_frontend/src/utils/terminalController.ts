@@ -0,0 +1,235 @@
+/**
+ * Programmatic control of the terminals: run a command in a session and
+ * wait for it to finish, or put it at the prompt for the user to edit.
+ *
+ * Each mounted Terminal registers itself with the controller and reports
+ * the commands its shell integration saw finish. `run` writes a command to
+ * a terminal and resolves with the next command that finishes there, which
+ * for an inserted command is whatever the user ends up running. Anyone can
+ * subscribe to every finished command, including the ones typed by hand.
+ *
+ * One controller is created by App and shared through
+ * TerminalControllerContext.
+ */
+
+import { createContext, useContext } from "react";
+import { CommandBlock } from "./shellIntegration";
+
+// Ctrl+E then Ctrl+U: clears the line being typed in bash, zsh and fish
+export const CLEAR_LINE = "\x05\x15";
+
+/**
+ * What a terminal sends its shell for a command: the command and Enter, or
+ * only the command, replacing whatever was typed at the prompt.
+ */
+export const promptInput = (command: string, execute: boolean): string =>
+  execute ? `${command}\r` : CLEAR_LINE + command;
+
+export interface RunOptions {
+  /** Session to run in; the active one when left out */
+  sessionId?: string;
+  /** Put the command at the prompt without pressing Enter */
+  insertOnly?: boolean;
+  /** Give up waiting after this long; the command keeps running */
+  timeoutMs?: number;
+}
+
+export interface RunResult {
+  /** The command as the shell ran it */
+  command: string;
+  exitCode: number;
+  /** ANSI-free output, the tail of long output only */
+  output: string;
+  durationMs: number;
+  cwd?: string;
+}
+
+/** A finished command, as delivered to subscribers */
+export interface CommandFinishedEvent {
+  sessionId: string;
+  result: RunResult;
+  /** True when the command was run (or inserted) through the controller */
+  requested: boolean;
+}
+
+/** What a mounted Terminal gives the controller */
+export interface TerminalHandle {
+  /** Writes a command to the prompt, pressing Enter when `execute` is set */
+  write(command: string, execute: boolean): void;
+  /** Whether the shell reports finished commands (shell integration) */
+  tracksCommands(): boolean;
+}
+
+export type TerminalControllerErrorCode =
+  | "no-terminal"
+  | "untracked"
+  | "closed"
+  | "timeout";
+
+export class TerminalControllerError extends Error {
+  code: TerminalControllerErrorCode;
+
+  constructor(code: TerminalControllerErrorCode, message: string) {
+    super(message);
+    this.name = "TerminalControllerError";
+    this.code = code;
+  }
+}
+
+interface Waiter {
+  resolve: (result: RunResult) => void;
+  reject: (error: TerminalControllerError) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+export class TerminalController {
+  private terminals = new Map<string, TerminalHandle>();
+  // Runs waiting for their command to finish, oldest first, by session
+  private waiting = new Map<string, Waiter[]>();
+  private listeners = new Set<(event: CommandFinishedEvent) => void>();
+  private activeSessionId: string | null = null;
+
+  /**
+   * Makes a terminal available to `run`. Returns the function that removes
+   * it again, failing any run still waiting on it.
+   */
+  register(sessionId: string, handle: TerminalHandle): () => void {
+    this.terminals.set(sessionId, handle);
+    return () => {
+      if (this.terminals.get(sessionId) !== handle) return;
+      this.terminals.delete(sessionId);
+      this.rejectAll(
+        sessionId,
+        new TerminalControllerError("closed", "The terminal was closed")
+      );
+    };
+  }
+
+  /** Whether a terminal is mounted for the session */
+  hasTerminal(sessionId: string): boolean {
+    return this.terminals.has(sessionId);
+  }
+
+  /** The session `run` uses when it isn't given one */
+  setActiveSession(sessionId: string | null) {
+    this.activeSessionId = sessionId;
+  }
+
+  /**
+   * Runs a command in a terminal, or inserts it at the prompt, and resolves
+   * once the shell reports the command finished.
+   *
+   * Rejects with a TerminalControllerError: "no-terminal" when the session
+   * has no mounted terminal, "untracked" when its shell doesn't report
+   * finished commands (the command is still written), "closed" when the
+   * terminal goes away first and "timeout" after `timeoutMs`.
+   */
+  run(command: string, options: RunOptions = {}): Promise<RunResult> {
+    const sessionId = options.sessionId || this.activeSessionId;
+    const terminal = sessionId ? this.terminals.get(sessionId) : undefined;
+    if (!sessionId || !terminal) {
+      return Promise.reject(
+        new TerminalControllerError(
+          "no-terminal",
+          "No terminal is open for that session"
+        )
+      );
+    }
+
+    terminal.write(command, !options.insertOnly);
+    if (!terminal.tracksCommands()) {
+      return Promise.reject(
+        new TerminalControllerError(
+          "untracked",
+          "This shell doesn't report when commands finish"
+        )
+      );
+    }
+
+    return new Promise<RunResult>((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject };
+      if (options.timeoutMs) {
+        waiter.timer = setTimeout(() => {
+          this.removeWaiter(sessionId, waiter);
+          reject(
+            new TerminalControllerError(
+              "timeout",
+              `The command didn't finish within ${options.timeoutMs} ms`
+            )
+          );
+        }, options.timeoutMs);
+      }
+      const queue = this.waiting.get(sessionId) || [];
+      queue.push(waiter);
+      this.waiting.set(sessionId, queue);
+    });
+  }
+
+  /**
+   * Listens for every finished command in every terminal. Returns the
+   * function that stops listening.
+   */
+  subscribe(listener: (event: CommandFinishedEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Called by a Terminal when its shell reports a finished command */
+  commandFinished(sessionId: string, block: CommandBlock, output: string) {
+    const result: RunResult = {
+      command: block.command,
+      exitCode: block.exitCode,
+      output,
+      durationMs: Math.max(0, block.endTime - block.startTime),
+      cwd: block.cwd,
+    };
+
+    const waiter = this.waiting.get(sessionId)?.[0];
+    if (waiter) {
+      this.removeWaiter(sessionId, waiter);
+      waiter.resolve(result);
+    }
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener({ sessionId, result, requested: !!waiter });
+      } catch (err) {
+        console.error("Terminal controller listener failed:", err);
+      }
+    });
+  }
+
+  private removeWaiter(sessionId: string, waiter: Waiter) {
+    if (waiter.timer) clearTimeout(waiter.timer);
+    const queue = (this.waiting.get(sessionId) || []).filter(
+      (w) => w !== waiter
+    );
+    if (queue.length > 0) this.waiting.set(sessionId, queue);
+    else this.waiting.delete(sessionId);
+  }
+
+  private rejectAll(sessionId: string, error: TerminalControllerError) {
+    const queue = this.waiting.get(sessionId) || [];
+    this.waiting.delete(sessionId);
+    queue.forEach((waiter) => {
+      if (waiter.timer) clearTimeout(waiter.timer);
+      waiter.reject(error);
+    });
+  }
+}
+
+export const TerminalControllerContext =
+  createContext<TerminalController | null>(null);
+
+/** The app's terminal controller; only usable below its provider */
+export const useTerminalController = (): TerminalController => {
+  const controller = useContext(TerminalControllerContext);
+  if (!controller) {
+    throw new Error(
+      "useTerminalController must be used inside TerminalControllerContext"
+    );
+  }
+  return controller;
+};
@@ -0,0 +1,453 @@
+/**
+ * Typed helpers for the backend's terminal session API over socket.io.
+ * Each helper wraps a request/acknowledgement pair in a Promise.
+ */
+
+import axios from "axios";
+import { Socket, io } from "socket.io-client";
+import { CommandFailure, CommandSuggestion } from "./commandFixerAgent";
+
+export const BACKEND_URL = "http://localhost:3001";
+
+export interface TerminalSession {
+  id: string;
+  name: string;
+  profile: string;
+  shell: string;
+  /** Shell the profile asked for when it wasn't installed */
+  fallbackFrom: string | null;
+  integration: boolean;
+  createdAt: string;
+}
+
+export interface ShellProfile {
+  id: string;
+  name: string;
+  shell: string;
+  login: boolean;
+  available: boolean;
+}
+
+export interface AttachedSession {
+  session: TerminalSession;
+  /** Output produced since the requested offset */
+  data: string;
+  /** Scrollback end offset after `data` */
+  offset: number;
+  /** True when `data` is the whole scrollback rather than a continuation */
+  reset: boolean;
+}
+
+/** A non-interactive command running outside the terminal */
+export interface BackgroundRun {
+  id: string;
+  command: string;
+  cwd: string | null;
+  sessionId: string | null;
+  startedAt: string;
+}
+
+export interface BackgroundOutputChunk {
+  stream: "stdout" | "stderr";
+  data: string;
+  /** Milliseconds since the epoch when the backend received the chunk */
+  timestamp: number;
+}
+
+export interface BackgroundExit {
+  execId: string;
+  exitCode: number;
+  success: boolean;
+  signal: string | null;
+  durationMs: number;
+  timedOut: boolean;
+  cancelled: boolean;
+  stdoutTruncated: boolean;
+  stderrTruncated: boolean;
+}
+
+/** A background run together with the output received so far */
+export interface BackgroundCommand {
+  run: BackgroundRun;
+  output: BackgroundOutputChunk[];
+  exit?: BackgroundExit;
+}
+
+/** A suggestion request whose reply is still streaming in */
+export interface SuggestionStream {
+  id: string;
+  /** The model's reply so far */
+  text: string;
+}
+
+/** How a suggestion stream ended, sent as "assist:end" */
+export interface SuggestionStreamEnd {
+  streamId: string;
+  suggestions?: CommandSuggestion[];
+  cached?: boolean;
+  fixerError?: string;
+  cancelled?: boolean;
+  error?: string;
+}
+
+interface SessionReply {
+  session?: TerminalSession;
+  sessions?: TerminalSession[];
+  closed?: boolean;
+  exec?: BackgroundRun;
+  cancelled?: boolean;
+  data?: string;
+  offset?: number;
+  reset?: boolean;
+  suggestions?: CommandSuggestion[];
+  started?: boolean;
+  recorded?: number;
+  entries?: HistoryEntry[];
+  deleted?: number;
+  recording?: Recording | null;
+  error?: string;
+}
+
+const CLIENT_ID_KEY = "terminus.clientId";
+
+/**
+ * Stable id for this browser. Sessions belong to it on the backend, which is
+ * what lets a reloaded page reattach to its still-running shells.
+ */
+export const getClientId = (): string => {
+  let clientId = localStorage.getItem(CLIENT_ID_KEY);
+  if (!clientId) {
+    clientId = randomId();
+    localStorage.setItem(CLIENT_ID_KEY, clientId);
+  }
+  return clientId;
+};
+
+export const randomId = (): string =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export const createTerminalSocket = (authToken: string): Socket =>
+  io(BACKEND_URL, {
+    auth: { clientId: getClientId(), token: authToken },
+    // Keep retrying with exponential backoff (1s doubling up to 10s)
+    reconnection: true,
+    reconnectionAttempts: Infinity,
+    reconnectionDelay: 1000,
+    reconnectionDelayMax: 10000,
+    randomizationFactor: 0.5,
+  });
+
+const request = (
+  socket: Socket,
+  event: string,
+  payload?: object
+): Promise<SessionReply> =>
+  new Promise((resolve, reject) => {
+    const handleReply = (reply: SessionReply) => {
+      if (reply && reply.error) {
+        reject(new Error(reply.error));
+      } else {
+        resolve(reply || {});
+      }
+    };
+
+    if (payload === undefined) {
+      socket.emit(event, handleReply);
+    } else {
+      socket.emit(event, payload, handleReply);
+    }
+  });
+
+export const fetchShellProfiles = async (): Promise<{
+  defaultProfile: string;
+  profiles: ShellProfile[];
+}> => {
+  const response = await axios.get(`${BACKEND_URL}/api/shell-profiles`);
+  return response.data;
+};
+
+export const createSession = async (
+  socket: Socket,
+  options: { name?: string; profile?: string } = {}
+): Promise<TerminalSession> => {
+  const reply = await request(socket, "session:create", options);
+  if (!reply.session) throw new Error("No session returned");
+  return reply.session;
+};
+
+export const listSessions = async (
+  socket: Socket
+): Promise<TerminalSession[]> => {
+  const reply = await request(socket, "session:list");
+  return reply.sessions || [];
+};
+
+/**
+ * Reattaches to a session and fetches the output produced after `offset`.
+ */
+export const attachSession = async (
+  socket: Socket,
+  sessionId: string,
+  offset?: number
+): Promise<AttachedSession> => {
+  const reply = await request(socket, "session:attach", { sessionId, offset });
+  if (!reply.session) throw new Error("No session returned");
+  return {
+    session: reply.session,
+    data: reply.data || "",
+    offset: reply.offset || 0,
+    reset: !!reply.reset,
+  };
+};
+
+export const renameSession = async (
+  socket: Socket,
+  sessionId: string,
+  name: string
+): Promise<TerminalSession> => {
+  const reply = await request(socket, "session:rename", { sessionId, name });
+  if (!reply.session) throw new Error("No session returned");
+  return reply.session;
+};
+
+export const closeSession = async (
+  socket: Socket,
+  sessionId: string
+): Promise<boolean> => {
+  const reply = await request(socket, "session:close", { sessionId });
+  return !!reply.closed;
+};
+
+/**
+ * Runs a command in the background, outside of any terminal. Output arrives
+ * as "exec:output" events and the run ends with an "exec:exit" event. Without
+ * a cwd it runs in the current directory of the session's shell.
+ */
+export const startBackgroundCommand = async (
+  socket: Socket,
+  options: { command: string; cwd?: string; sessionId?: string }
+): Promise<BackgroundRun> => {
+  const reply = await request(socket, "exec:start", options);
+  if (!reply.exec) throw new Error("No background command returned");
+  return reply.exec;
+};
+
+export const cancelBackgroundCommand = async (
+  socket: Socket,
+  execId: string
+): Promise<boolean> => {
+  const reply = await request(socket, "exec:cancel", { execId });
+  return !!reply.cancelled;
+};
+
+/**
+ * Turns a natural-language request into candidate commands. The backend
+ * tailors them to the cwd and shell of the given session.
+ */
+export const suggestCommands = async (
+  socket: Socket,
+  text: string,
+  sessionId?: string
+): Promise<CommandSuggestion[]> => {
+  const reply = await request(socket, "nl:suggest", {
+    request: text,
+    sessionId,
+  });
+  return reply.suggestions || [];
+};
+
+/**
+ * Analyzes a failure with the model's reply streamed back as it is written:
+ * "assist:token", "assist:suggestion" and "assist:restart" events for the
+ * given stream id, ending with "assist:end". The caller picks the id so it
+ * can show the message before the first event arrives. With a sessionId the
+ * request becomes part of that session's conversation with the assistant.
+ */
+export const streamFixSuggestions = async (
+  socket: Socket,
+  streamId: string,
+  failure: CommandFailure,
+  options: { more?: boolean; refresh?: boolean; sessionId?: string } = {}
+): Promise<void> => {
+  await request(socket, "fix:suggest", { ...failure, ...options, streamId });
+};
+
+/** Stops a suggestion stream and the model request behind it */
+export const cancelSuggestionStream = async (
+  socket: Socket,
+  streamId: string
+): Promise<boolean> => {
+  const reply = await request(socket, "assist:cancel", { streamId });
+  return !!reply.cancelled;
+};
+
+/** A finished terminal command, as the shell integration reported it */
+export interface CommandResult {
+  command: string;
+  exitCode: number;
+  output: string;
+}
+
+/**
+ * Tells the assistant how a suggestion the user ran went, so follow-ups in
+ * the session's conversation can build on it.
+ */
+export const reportSuggestionRun = async (
+  socket: Socket,
+  sessionId: string,
+  result: CommandResult
+): Promise<void> => {
+  await request(socket, "conversation:run", { sessionId, ...result });
+};
+
+/**
+ * What the user did with a suggestion: ran it, passed it over for another
+ * one or for a command of their own, or how running it went.
+ */
+export type SuggestionFeedbackEvent =
+  | { type: "accepted" | "ignored"; command: string }
+  | { type: "outcome"; command: string; exitCode: number };
+
+/**
+ * Records suggestion feedback, which the backend uses to rank later
+ * suggestions for this user and project.
+ */
+export const reportSuggestionFeedback = async (
+  socket: Socket,
+  sessionId: string,
+  events: SuggestionFeedbackEvent[]
+): Promise<number> => {
+  const reply = await request(socket, "feedback:record", {
+    sessionId,
+    events,
+  });
+  return reply.recorded ?? 0;
+};
+
+/** A command from the backend's command history */
+export interface HistoryEntry {
+  id: string;
+  command: string;
+  cwd: string | null;
+  sessionId: string | null;
+  /** Name of the tab it ran in, at the time */
+  sessionName: string | null;
+  startedAt: string;
+  exitCode: number | null;
+  durationMs: number | null;
+  /** How often the command ran, when the results are deduped */
+  count?: number;
+}
+
+export interface HistoryQuery {
+  /** Fuzzy search on the command */
+  q?: string;
+  cwd?: string;
+  sessionId?: string;
+  status?: "succeeded" | "failed";
+  /** ISO date; only commands started after it */
+  since?: string;
+  /** One entry per command (the default) */
+  dedupe?: boolean;
+  limit?: number;
+}
+
+/** Adds a finished command to the history, unless it looks like a secret */
+export const recordHistory = async (
+  socket: Socket,
+  sessionId: string,
+  result: CommandResult & { durationMs?: number; cwd?: string }
+): Promise<boolean> => {
+  const reply = await request(socket, "history:record", {
+    sessionId,
+    command: result.command,
+    exitCode: result.exitCode,
+    durationMs: result.durationMs,
+    cwd: result.cwd,
+  });
+  return !!reply.recorded;
+};
+
+/** Searches the command history, best match or newest first */
+export const queryHistory = async (
+  socket: Socket,
+  query: HistoryQuery
+): Promise<HistoryEntry[]> => {
+  const reply = await request(socket, "history:query", query);
+  return reply.entries || [];
+};
+
+/** Deletes history entries by id, or every run of a command */
+export const deleteHistory = async (
+  socket: Socket,
+  target: { ids?: string[]; command?: string }
+): Promise<number> => {
+  const reply = await request(socket, "history:delete", target);
+  return reply.deleted ?? 0;
+};
+
+/** An asciicast recording of a terminal session, see utils/recordings */
+export interface Recording {
+  id: string;
+  /** The session being recorded; null once the recording has finished */
+  sessionId: string | null;
+  title: string;
+  /** Whether keyboard input is recorded too */
+  input: boolean;
+  width: number;
+  height: number;
+  startedAt: string;
+  endedAt: string | null;
+  /** Size of the .cast file in bytes */
+  size: number;
+  active: boolean;
+}
+
+/** Starts recording a session's output, and its keyboard input with `input` */
+export const startRecording = async (
+  socket: Socket,
+  sessionId: string,
+  { input = false }: { input?: boolean } = {}
+): Promise<Recording> => {
+  const reply = await request(socket, "recording:start", { sessionId, input });
+  if (!reply.recording) throw new Error("No recording returned");
+  return reply.recording;
+};
+
+/** Stops a session's recording; null when it wasn't being recorded */
+export const stopRecording = async (
+  socket: Socket,
+  sessionId: string
+): Promise<Recording | null> => {
+  const reply = await request(socket, "recording:stop", { sessionId });
+  return reply.recording ?? null;
+};
+
+/** Forgets a session's conversation with the assistant */
+export const resetConversation = async (
+  socket: Socket,
+  sessionId: string
+): Promise<boolean> => {
+  const reply = await request(socket, "conversation:reset", { sessionId });
+  return !!reply.reset;
+};
+
+// How much background output is kept per command in the chat
+const MAX_BACKGROUND_OUTPUT_CHARS = 64 * 1024;
+
+/**
+ * Appends an output chunk, dropping the oldest chunks beyond the size cap.
+ */
+export const appendBackgroundOutput = (
+  command: BackgroundCommand,
+  chunk: BackgroundOutputChunk
+): BackgroundCommand => {
+  const output = [...command.output, chunk];
+  let total = output.reduce((sum, c) => sum + c.data.length, 0);
+  while (total > MAX_BACKGROUND_OUTPUT_CHARS && output.length > 1) {
+    total -= output.shift()!.data.length;
+  }
+  return { ...command, output };
+};